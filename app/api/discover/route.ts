@@ -0,0 +1,178 @@
+import { NextResponse } from 'next/server';
+import { parseSpecText } from '@/lib/spec-parser';
+import {
+  type DiscoveredSpec,
+  dedupeDiscoveredSpecs,
+  extractInitializerScriptUrl,
+  extractSpecUrlsFromHtml,
+  extractSpecUrlsFromSwaggerConfig,
+  extractSpecUrlsFromSwaggerResources,
+  getWellKnownSpecUrls,
+  isSpecDocument,
+} from '@/lib/discovery';
+import { getUrlHost, sanitizeForwardedHeaders } from '@/lib/request-headers';
+import { fetchWithPolicy, ProxyPolicyError, validateProxyUrl } from '@/lib/proxy-policy';
+
+// Probes are best-effort, so keep them short
+const PROBE_TIMEOUT = 5000;
+
+// Upper bound on URLs taken from a docs page that are fetched to check them
+const MAX_PAGE_CANDIDATES = 10;
+
+type FetchedDocument = {
+  url: string;
+  isHtml: boolean;
+  text: string;
+  data?: any;
+};
+
+/**
+ * Fetch a candidate URL, returning null for anything that is not HTML or a parseable document
+ */
+async function fetchCandidate(url: string, headers: Record<string, string>): Promise<FetchedDocument | null> {
+  try {
+    const response = await fetchWithPolicy(url, {
+      headers: { 'Accept': 'application/json, application/yaml, text/yaml, text/html, */*' },
+      forwardedHeaders: headers,
+      timeout: PROBE_TIMEOUT,
+    });
+
+    // Resolve relative links against the address we were redirected to
+    const finalUrl = response.finalUrl;
+    const contentType = response.headers['content-type'] || '';
+    const text = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+
+    if (contentType.includes('text/html') || /^\s*<(!doctype html|html)/i.test(text)) {
+      return { url: finalUrl, isHtml: true, text };
+    }
+
+    if (contentType.includes('javascript')) {
+      return { url: finalUrl, isHtml: false, text };
+    }
+
+    return {
+      url: finalUrl,
+      isHtml: false,
+      text,
+      data: parseSpecText(text, { contentType, fileName: new URL(finalUrl).pathname })
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Turn a parsed document into discovered specs: the document itself, or the
+ * URLs listed by a swagger-config / swagger-resources response
+ */
+function specsFromDocument(data: any, url: string, source: DiscoveredSpec['source']): DiscoveredSpec[] {
+  if (isSpecDocument(data)) {
+    const title = data.info?.title;
+    const name = title ? `${title}${data.info?.version ? ` (${data.info.version})` : ''}` : undefined;
+    return [{ url, ...(name ? { name } : {}), source }];
+  }
+
+  if (Array.isArray(data)) {
+    return extractSpecUrlsFromSwaggerResources(data, url);
+  }
+
+  return extractSpecUrlsFromSwaggerConfig(data, url);
+}
+
+/**
+ * Check the spec URLs referenced by a docs page, keeping the ones that are
+ * real specs and expanding swagger-config files into the specs they list
+ */
+async function verifyPageCandidates(
+  candidates: DiscoveredSpec[],
+  headersFor: (url: string) => Record<string, string>
+): Promise<DiscoveredSpec[]> {
+  const results = await Promise.all(
+    dedupeDiscoveredSpecs(candidates).slice(0, MAX_PAGE_CANDIDATES).map(async (candidate) => {
+      const fetched = await fetchCandidate(candidate.url, headersFor(candidate.url));
+      if (!fetched?.data) {
+        return [];
+      }
+
+      const specs = specsFromDocument(fetched.data, candidate.url, 'page');
+      return specs.map(spec => (candidate.name && !spec.name ? { ...spec, name: candidate.name } : spec));
+    })
+  );
+
+  return results.flat();
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  return discover(searchParams.get('url'), {});
+}
+
+// POST carries custom headers (tokens, API keys, cookies) for the spec host
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  return discover(
+    typeof body.url === 'string' ? body.url : null,
+    sanitizeForwardedHeaders(body.headers)
+  );
+}
+
+async function discover(url: string | null, forwardedHeaders: Record<string, string>) {
+  if (!url) {
+    return NextResponse.json(
+      { error: 'URL parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    validateProxyUrl(url);
+  } catch (error) {
+    if (error instanceof ProxyPolicyError && error.status === 400) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      {
+        error: `Blocked by proxy policy: ${error instanceof Error ? error.message : String(error)}`,
+        blocked: true
+      },
+      { status: 403 }
+    );
+  }
+
+  // Credentials only go to the host they were configured for
+  const host = getUrlHost(url);
+  const headersFor = (candidateUrl: string) => (getUrlHost(candidateUrl) === host ? forwardedHeaders : {});
+
+  const specs: DiscoveredSpec[] = [];
+  const page = await fetchCandidate(url, forwardedHeaders);
+
+  if (page?.data) {
+    // The URL already is a spec (or a swagger-config listing specs)
+    specs.push(...specsFromDocument(page.data, page.url, 'document'));
+  } else if (page?.isHtml) {
+    // A Swagger UI / Redoc page: look for the spec it renders
+    const candidates = extractSpecUrlsFromHtml(page.text, page.url);
+
+    const initializerUrl = extractInitializerScriptUrl(page.text, page.url);
+    if (initializerUrl) {
+      const initializer = await fetchCandidate(initializerUrl, headersFor(initializerUrl));
+      if (initializer) {
+        candidates.push(...extractSpecUrlsFromHtml(initializer.text, page.url)
+          .filter(candidate => candidate.url !== page.url));
+      }
+    }
+
+    specs.push(...await verifyPageCandidates(candidates, headersFor));
+  }
+
+  // Fall back to probing the locations frameworks usually publish specs at
+  if (specs.length === 0) {
+    const probes = await Promise.all(getWellKnownSpecUrls(url).map(async (probeUrl) => {
+      const probe = await fetchCandidate(probeUrl, headersFor(probeUrl));
+      return probe?.data ? specsFromDocument(probe.data, probe.url, 'well-known') : [];
+    }));
+    specs.push(...probes.flat());
+  }
+
+  return NextResponse.json({ specs: dedupeDiscoveredSpecs(specs) });
+}
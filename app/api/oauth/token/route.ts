@@ -0,0 +1,140 @@
+import axios from 'axios';
+import { NextResponse } from 'next/server';
+import { fetchWithPolicy, getTokenPolicy, ProxyPolicyError } from '@/lib/proxy-policy';
+
+// Grants the token endpoint can be asked for; each needs its own parameters
+const GRANT_PARAMETERS: Record<string, string[]> = {
+  authorization_code: ['code', 'redirect_uri', 'code_verifier'],
+  client_credentials: [],
+  password: ['username', 'password'],
+  refresh_token: ['refresh_token'],
+};
+
+/**
+ * Describe an error for the server log without the request,
+ * which carries client secrets, passwords and codes
+ */
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Read a token response; most servers answer JSON, some form-encoded
+ */
+function parseTokenResponse(body: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+}
+
+// Exchanges OAuth2 grants for tokens on behalf of the Authorize dialog, so token endpoints
+// do not need CORS and client secrets never go to them from the browser directly
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const tokenUrl = typeof body.tokenUrl === 'string' ? body.tokenUrl : null;
+  const grantType = typeof body.grantType === 'string' ? body.grantType : '';
+
+  if (!tokenUrl || typeof body.clientId !== 'string') {
+    return NextResponse.json(
+      { error: 'Token URL and client ID are required' },
+      { status: 400 }
+    );
+  }
+
+  if (!(grantType in GRANT_PARAMETERS)) {
+    return NextResponse.json(
+      { error: `Grant type ${grantType || '(none)'} is not supported` },
+      { status: 400 }
+    );
+  }
+
+  const params = new URLSearchParams({ grant_type: grantType });
+  for (const name of GRANT_PARAMETERS[grantType]) {
+    const value = body.params?.[name];
+    if (typeof value === 'string' && value) {
+      params.set(name, value);
+    }
+  }
+  if (typeof body.scope === 'string' && body.scope) {
+    params.set('scope', body.scope);
+  }
+
+  // Confidential clients authenticate with HTTP Basic by default (RFC 6749 section 2.3.1),
+  // or with client_id / client_secret in the body for servers that only accept that
+  const clientSecret = typeof body.clientSecret === 'string' ? body.clientSecret : '';
+  const forwardedHeaders: Record<string, string> = {};
+  if (clientSecret && body.clientAuthentication !== 'body') {
+    const credentials = `${encodeURIComponent(body.clientId)}:${encodeURIComponent(clientSecret)}`;
+    forwardedHeaders['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    params.set('client_id', body.clientId);
+    if (clientSecret) {
+      params.set('client_secret', clientSecret);
+    }
+  }
+
+  try {
+    const response = await fetchWithPolicy(tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      forwardedHeaders,
+      data: params.toString(),
+      timeout: 15000, // 15 seconds timeout
+      acceptErrorStatus: true,
+      // Self-hosted identity providers listed in PROXY_TOKEN_HOSTS may be on private networks
+      policy: getTokenPolicy(),
+    });
+
+    const token = parseTokenResponse(typeof response.data === 'string' ? response.data : JSON.stringify(response.data));
+
+    if (response.status >= 400 || typeof token.access_token !== 'string') {
+      const reason = token.error_description || token.error || `HTTP ${response.status}`;
+      return NextResponse.json(
+        {
+          error: `Token request failed: ${reason}`,
+          details: token.error,
+          status: response.status
+        },
+        { status: response.status >= 400 && response.status < 500 ? 400 : 502 }
+      );
+    }
+
+    return NextResponse.json({
+      access_token: token.access_token,
+      token_type: token.token_type,
+      ...(token.expires_in !== undefined ? { expires_in: Number(token.expires_in) } : {}),
+      ...(typeof token.refresh_token === 'string' ? { refresh_token: token.refresh_token } : {}),
+      ...(typeof token.scope === 'string' ? { scope: token.scope } : {})
+    });
+  } catch (error) {
+    console.error('Token request error:', describeError(error));
+
+    // Handle URLs refused by the SSRF policy (blocked hosts, redirect and size limits)
+    if (error instanceof ProxyPolicyError) {
+      if (error.status === 400) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json(
+        {
+          error: `Blocked by proxy policy: ${error.message}`,
+          blocked: true
+        },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json(
+      { error: `Token request failed: ${describeError(error)}` },
+      { status: 502 }
+    );
+  }
+}
@@ -1,10 +1,57 @@
 import axios from 'axios';
 import { NextResponse } from 'next/server';
+import { parseSpecText, SpecParseError } from '@/lib/spec-parser';
+import { sanitizeForwardedHeaders } from '@/lib/request-headers';
+import { fetchWithPolicy, ProxyPolicyError } from '@/lib/proxy-policy';
+
+/**
+ * Describe an error for the server log without request headers,
+ * which may carry the credentials the user configured
+ */
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return `${error.message}${error.response ? ` (HTTP ${error.response.status})` : ''}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
-  const url = searchParams.get('url');
+  return proxySpecRequest(searchParams.get('url'), {});
+}
+
+// Validators from an earlier response, used to ask upstream whether the document changed
+type ConditionalRequest = {
+  etag?: string;
+  lastModified?: string;
+};
+
+function readConditionalRequest(value: any): ConditionalRequest {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+  return {
+    ...(typeof value.etag === 'string' ? { etag: value.etag } : {}),
+    ...(typeof value.lastModified === 'string' ? { lastModified: value.lastModified } : {})
+  };
+}
 
+// POST carries custom headers (tokens, API keys, cookies) to forward upstream,
+// and the validators of conditional requests made by watch mode
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  return proxySpecRequest(
+    typeof body.url === 'string' ? body.url : null,
+    sanitizeForwardedHeaders(body.headers),
+    readConditionalRequest(body.conditional)
+  );
+}
+
+async function proxySpecRequest(
+  url: string | null,
+  forwardedHeaders: Record<string, string>,
+  conditional: ConditionalRequest = {}
+) {
   if (!url) {
     return NextResponse.json(
       { error: 'URL parameter is required' },
@@ -13,16 +60,32 @@ export async function GET(request: Request) {
   }
 
   try {
-    // Use axios to fetch the OpenAPI spec
-    const response = await axios.get(url, {
+    // Fetch the OpenAPI spec as text (JSON, YAML or HTML) under the proxy policy
+    const response = await fetchWithPolicy(url, {
       headers: {
-        'Accept': 'application/json, text/html',
+        'Accept': 'application/json, application/yaml, application/x-yaml, text/yaml, text/html',
         'Content-Type': 'application/json',
+        ...(conditional.etag ? { 'If-None-Match': conditional.etag } : {}),
+        ...(conditional.lastModified ? { 'If-Modified-Since': conditional.lastModified } : {}),
       },
+      forwardedHeaders,
       timeout: 10000, // 10 seconds timeout
-      responseType: 'text', // Get response as text to handle both JSON and HTML
     });
 
+    // The document has not changed since the validators were issued
+    if (response.status === 304) {
+      return NextResponse.json({ notModified: true });
+    }
+
+    // Pass the upstream validators on so the next request can be conditional
+    const validatorHeaders: Record<string, string> = {};
+    if (response.headers['etag']) {
+      validatorHeaders['X-Upstream-ETag'] = String(response.headers['etag']);
+    }
+    if (response.headers['last-modified']) {
+      validatorHeaders['X-Upstream-Last-Modified'] = String(response.headers['last-modified']);
+    }
+
     // Check if the response is HTML (authentication page)
     const contentType = response.headers['content-type'] || '';
     const isHtml = contentType.includes('text/html') ||
@@ -36,17 +99,42 @@ export async function GET(request: Request) {
         htmlContent: response.data
       });
     } else {
-      // Parse the response as JSON if it's not HTML
-      let jsonData;
-      try {
-        jsonData = typeof response.data === 'string' ? JSON.parse(response.data) : response.data;
-      } catch (e) {
-        throw new Error('Invalid JSON response');
-      }
-      return NextResponse.json(jsonData);
+      // Parse the response as JSON or YAML if it's not HTML
+      const specData = typeof response.data === 'string'
+        ? parseSpecText(response.data, { contentType, fileName: new URL(response.finalUrl).pathname })
+        : response.data;
+      return NextResponse.json(specData, { headers: validatorHeaders });
     }
   } catch (error) {
-    console.error('Proxy error:', error);
+    console.error('Proxy error:', describeError(error));
+
+    // Handle URLs refused by the SSRF policy (blocked hosts, redirect and size limits)
+    if (error instanceof ProxyPolicyError) {
+      if (error.status === 400) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json(
+        {
+          error: `Blocked by proxy policy: ${error.message}`,
+          blocked: true
+        },
+        { status: error.status }
+      );
+    }
+
+    // Handle documents that were fetched but could not be parsed
+    if (error instanceof SpecParseError) {
+      return NextResponse.json(
+        {
+          error: `Failed to parse OpenAPI specification: ${error.message}`,
+          details: error.reason,
+          format: error.format,
+          line: error.line,
+          column: error.column
+        },
+        { status: 422 }
+      );
+    }
 
     // Handle axios errors
     if (axios.isAxiosError(error)) {
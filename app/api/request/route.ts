@@ -0,0 +1,112 @@
+import axios from 'axios';
+import { NextResponse } from 'next/server';
+import { sanitizeForwardedHeaders } from '@/lib/request-headers';
+import { fetchWithPolicy, ProxyPolicyError } from '@/lib/proxy-policy';
+
+// Methods the request runner may send
+const ALLOWED_METHODS = ['GET', 'PUT', 'POST', 'DELETE', 'OPTIONS', 'HEAD', 'PATCH'];
+
+/**
+ * Describe an error for the server log without request headers or body,
+ * which may carry the credentials the user configured
+ */
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Read the multipart fields of a runner request; axios sends FormData with a
+ * Content-Type carrying the boundary it encodes with
+ */
+function toFormData(fields: unknown): FormData | undefined {
+  if (!Array.isArray(fields)) {
+    return undefined;
+  }
+
+  const formData = new FormData();
+  for (const field of fields) {
+    if (Array.isArray(field) && typeof field[0] === 'string' && typeof field[1] === 'string') {
+      formData.append(field[0], field[1]);
+    }
+  }
+  return formData;
+}
+
+// Forwards an arbitrary API request for the "Try it" panel and reports the response as it is,
+// including error statuses. Outbound requests follow the same policy as the spec proxy.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const url = typeof body.url === 'string' ? body.url : null;
+  const method = typeof body.method === 'string' ? body.method.toUpperCase() : 'GET';
+
+  if (!url) {
+    return NextResponse.json(
+      { error: 'URL is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!ALLOWED_METHODS.includes(method)) {
+    return NextResponse.json(
+      { error: `Method ${method} is not supported` },
+      { status: 400 }
+    );
+  }
+
+  const data = method !== 'GET' && method !== 'HEAD'
+    ? toFormData(body.formData) ?? (typeof body.body === 'string' ? body.body : undefined)
+    : undefined;
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetchWithPolicy(url, {
+      method,
+      forwardedHeaders: sanitizeForwardedHeaders(body.headers),
+      data,
+      timeout: 30000, // 30 seconds timeout
+      acceptErrorStatus: true,
+    });
+
+    const responseBody = typeof response.data === 'string' ? response.data : JSON.stringify(response.data ?? '');
+
+    return NextResponse.json({
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(
+        Object.entries(response.headers).map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : String(value)])
+      ),
+      body: responseBody,
+      size: Buffer.byteLength(responseBody),
+      durationMs: Date.now() - startedAt,
+      finalUrl: response.finalUrl
+    });
+  } catch (error) {
+    console.error('Request runner error:', describeError(error));
+
+    // Handle URLs refused by the SSRF policy (blocked hosts, redirect and size limits)
+    if (error instanceof ProxyPolicyError) {
+      if (error.status === 400) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json(
+        {
+          error: `Blocked by proxy policy: ${error.message}`,
+          blocked: true
+        },
+        { status: error.status }
+      );
+    }
+
+    // The request never got a response (DNS failure, refused connection, timeout)
+    return NextResponse.json(
+      {
+        error: `Request failed: ${describeError(error)}`,
+        durationMs: Date.now() - startedAt
+      },
+      { status: 502 }
+    );
+  }
+}
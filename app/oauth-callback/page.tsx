@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { OAUTH_CALLBACK_MESSAGE } from "@/lib/oauth";
+
+// Redirect target of the authorization code flow: hands the code to the window that
+// opened the sign-in popup and closes itself
+export default function OAuthCallbackPage() {
+  const [message, setMessage] = useState("Completing sign-in…");
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+
+    if (!window.opener) {
+      setMessage("This page finishes signing in from the Authorize dialog and can be closed.");
+      return;
+    }
+
+    window.opener.postMessage({
+      type: OAUTH_CALLBACK_MESSAGE,
+      code: params.get("code"),
+      state: params.get("state"),
+      error: params.get("error"),
+      errorDescription: params.get("error_description")
+    }, window.location.origin);
+
+    setMessage("Signed in; this window can be closed.");
+    window.close();
+  }, []);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8">
+      <p className="text-sm text-gray-500">{message}</p>
+    </div>
+  );
+}
@@ -1,29 +1,115 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { SwaggerUrlForm } from "@/components/swagger-url-form";
+import { useState, useEffect, useRef } from "react";
+import { SwaggerUrlForm, type SpecUploadOptions } from "@/components/swagger-url-form";
 import { EndpointList } from "@/components/endpoint-list";
 import { AuthPageFrame } from "@/components/auth-page-frame";
-import { fetchOpenAPISpec, getAllEndpointsInfo, extractEndpointInfo, type EndpointInfo, type OpenAPISpec, AuthPageError } from "@/lib/openapi";
+import { SpecPicker } from "@/components/spec-picker";
+import { SpecSwitcher } from "@/components/spec-switcher";
+import { SpecCompare } from "@/components/spec-compare";
+import { useSpecWatcher, type WatchedSpec } from "@/hooks/use-spec-watcher";
+import { fetchOpenAPISpec, fetchOpenAPISpecWithValidators, fetchSpecDocument, isOpenAPIDocument, type EndpointInfo, type OpenAPISpec, type SpecValidators, AuthPageError, ProxyBlockedError } from "@/lib/openapi";
+import { bundleExternalRefs, createFileLoader, LOCAL_FILE_BASE, type DocumentLoader, type ExternalRefError } from "@/lib/external-refs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { parseSpecText } from "@/lib/spec-parser";
+import { indexSpecInWorker, parseSpecTextInWorker } from "@/lib/spec-worker";
+import { discoverSpecs, type DiscoveredSpec } from "@/lib/discovery";
+import type { SpecDiff } from "@/lib/spec-diff";
+import type { IndexedSpec } from "@/lib/spec-processing";
+import { deleteStoredSpec, loadStoredSpec, migrateLegacyStoredSpec, type StoredSpecDocument } from "@/lib/spec-storage";
+import {
+  getSpecId,
+  getSpecTitle,
+  loadRecentSpecs,
+  loadWatchedSpecs,
+  loadWorkspace,
+  recordRecentSpec,
+  removeRecentSpec,
+  removeSpecUiState,
+  saveWatchedSpecs,
+  saveWorkspace,
+  type RecentSpec,
+  type SpecSource,
+  type WorkspaceEntry
+} from "@/lib/workspace";
+
+// Let the user know which external $refs were left unresolved
+function reportExternalRefErrors(errors: ExternalRefError[]) {
+  if (errors.length === 0) return;
+
+  console.warn("Unresolved external references:", errors);
+  if (typeof window !== 'undefined' && window.toast) {
+    const refs = Array.from(new Set(errors.map(error => error.ref)));
+    window.toast.warning(
+      `${refs.length} external reference${refs.length === 1 ? "" : "s"} could not be resolved`,
+      { description: refs.slice(0, 3).join(", ") + (refs.length > 3 ? ", ..." : "") }
+    );
+  }
+}
+
+// A spec open in the workspace; `spec` stays null until it has been loaded
+type OpenSpec = WorkspaceEntry & {
+  spec: OpenAPISpec | null;
+  endpoints: Record<string, EndpointInfo>;
+  // ETag / Last-Modified of the response a URL spec was loaded from, for watch mode
+  validators?: SpecValidators;
+};
 
 export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [endpoints, setEndpoints] = useState<Record<string, EndpointInfo>>({});
-  const [selectedEndpoint, setSelectedEndpoint] = useState<string | null>(null);
+  const [openSpecs, setOpenSpecs] = useState<OpenSpec[]>([]);
+  const [activeSpecId, setActiveSpecId] = useState<string | null>(null);
+  const [recentSpecs, setRecentSpecs] = useState<RecentSpec[]>([]);
   const [authPageData, setAuthPageData] = useState<{ htmlContent: string; url: string } | null>(null);
+  const [discoveredSpecs, setDiscoveredSpecs] = useState<{ url: string; specs: DiscoveredSpec[] } | null>(null);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [watchedSpecIds, setWatchedSpecIds] = useState<string[]>([]);
+  const workspaceRestoredRef = useRef(false);
+
+  const activeSpec = openSpecs.find(openSpec => openSpec.id === activeSpecId) ?? null;
+  const spec = activeSpec?.spec ?? null;
+  const endpoints = activeSpec?.endpoints ?? {};
 
-  const handleFetchOpenAPI = async (url: string) => {
+  // Add a loaded spec to the workspace (replacing an earlier copy) and switch to it
+  const showSpec = (entry: WorkspaceEntry, indexed: { spec: OpenAPISpec; endpoints: Record<string, EndpointInfo>; validators?: SpecValidators }) => {
+    const loaded: OpenSpec = { ...entry, ...indexed };
+    setOpenSpecs(prev => prev.some(openSpec => openSpec.id === entry.id)
+      ? prev.map(openSpec => (openSpec.id === entry.id ? loaded : openSpec))
+      : [...prev, loaded]);
+    setActiveSpecId(entry.id);
+    setRecentSpecs(recordRecentSpec(entry));
+    setIsCompareOpen(false);
+  };
+
+  // Drop a spec that can no longer be loaded from the workspace and the recent list
+  const forgetSpec = (id: string) => {
+    setOpenSpecs(prev => prev.filter(openSpec => openSpec.id !== id));
+    setActiveSpecId(prev => (prev === id ? null : prev));
+    setRecentSpecs(removeRecentSpec(id));
+    setWatchedSpecIds(prev => prev.filter(watchedId => watchedId !== id));
+    removeSpecUiState(id);
+  };
+
+  const handleFetchOpenAPI = async (url: string, discover: boolean = true) => {
     setIsLoading(true);
     setError(null);
-    setSelectedEndpoint(null);
     setAuthPageData(null);
+    setDiscoveredSpecs(null);
 
     try {
-      const openApiSpec = await fetchOpenAPISpec(url);
-      const allEndpoints = getAllEndpointsInfo(openApiSpec);
-      setEndpoints(allEndpoints);
+      // External refs are fetched through the proxy relative to the spec URL
+      const { spec: fetched, validators } = await fetchOpenAPISpecWithValidators(url);
+      const bundled = await bundleExternalRefs(fetched, {
+        baseUrl: url,
+        loadDocument: fetchSpecDocument
+      });
+      reportExternalRefErrors(bundled.errors);
+
+      // Normalizing and indexing a large spec runs in a worker; schemas are resolved per endpoint on demand
+      const indexed = await indexSpecInWorker(bundled.spec);
+      const source: SpecSource = { kind: 'url', url };
+      showSpec({ id: getSpecId(source), title: getSpecTitle(indexed.spec, url), source }, { ...indexed, validators });
 
       if (typeof window !== 'undefined' && window.toast) {
         window.toast.success("OpenAPI specification loaded successfully!");
@@ -31,6 +117,23 @@ export default function Home() {
     } catch (err) {
       console.error("Error fetching OpenAPI spec:", err);
 
+      // The URL may be an API base URL or a Swagger UI / Redoc page, so look for the real spec
+      // (unless the proxy refused the host, in which case probing it again is pointless)
+      if (discover && !(err instanceof ProxyBlockedError)) {
+        const specs = (await discoverSpecs(url).catch(() => [] as DiscoveredSpec[]))
+          .filter(discovered => discovered.url !== url);
+
+        if (specs.length === 1) {
+          await handleSelectDiscoveredSpec(specs[0].url);
+          return;
+        }
+
+        if (specs.length > 1) {
+          setDiscoveredSpecs({ url, specs });
+          return;
+        }
+      }
+
       // Check if this is an authentication page error
       if (err instanceof AuthPageError) {
         setAuthPageData({
@@ -40,26 +143,48 @@ export default function Home() {
       } else {
         setError(err instanceof Error ? err.message : "Failed to fetch OpenAPI specification");
       }
-
-      setEndpoints({});
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleFileUpload = async (fileContent: OpenAPISpec) => {
+  // Fetch the current version of a URL spec for comparison, leaving the workspace copy as it is
+  const fetchLatestSpec = async (url: string): Promise<OpenAPISpec> => {
+    const bundled = await bundleExternalRefs(await fetchOpenAPISpec(url), {
+      baseUrl: url,
+      loadDocument: fetchSpecDocument
+    });
+    reportExternalRefErrors(bundled.errors);
+    return bundled.spec;
+  };
+
+  // Load a spec found by discovery; the workspace remembers it instead of the address that was entered
+  const handleSelectDiscoveredSpec = async (specUrl: string) => {
+    await handleFetchOpenAPI(specUrl, false);
+  };
+
+  const handleFileUpload = async (fileContent: OpenAPISpec, { storageKey, name, source }: SpecUploadOptions) => {
     setIsLoading(true);
     setError(null);
-    setSelectedEndpoint(null);
+    setDiscoveredSpecs(null);
 
     try {
       // Validate that the uploaded file is a valid OpenAPI spec
-      if (!fileContent || typeof fileContent !== 'object' || (!fileContent.paths && !fileContent.openapi && !fileContent.swagger)) {
+      if (!isOpenAPIDocument(fileContent)) {
         throw new Error('Invalid OpenAPI specification format');
       }
 
-      const allEndpoints = getAllEndpointsInfo(fileContent);
-      setEndpoints(allEndpoints);
+      // Relative refs are read from the other uploaded files, absolute ones through the proxy
+      const readFile = createFileLoader(source?.files || {}, (text, fileName) => parseSpecText(text, { fileName }));
+      const loadDocument: DocumentLoader = (documentUrl) =>
+        documentUrl.startsWith(LOCAL_FILE_BASE) ? readFile(documentUrl) : fetchSpecDocument(documentUrl);
+
+      const bundled = await bundleExternalRefs(fileContent, { baseUrl: source?.baseUrl, loadDocument });
+      reportExternalRefErrors(bundled.errors);
+
+      // Normalizing and indexing a large spec runs in a worker; schemas are resolved per endpoint on demand
+      const indexed = await indexSpecInWorker(bundled.spec);
+      showSpec({ id: storageKey, title: getSpecTitle(indexed.spec, name), source: { kind: 'stored', key: storageKey } }, indexed);
 
       if (typeof window !== 'undefined' && window.toast) {
         window.toast.success("OpenAPI specification loaded successfully!");
@@ -67,31 +192,162 @@ export default function Home() {
     } catch (err) {
       console.error("Error processing uploaded file:", err);
       setError(err instanceof Error ? err.message : "Failed to process OpenAPI specification");
-      setEndpoints({});
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Load saved file from localStorage on component mount
-  useEffect(() => {
-    const savedFile = localStorage.getItem("swagger-file");
-    if (savedFile) {
-      try {
-        const fileContent = JSON.parse(savedFile);
-        handleFileUpload(fileContent);
-      } catch (err) {
-        console.error("Error parsing saved file:", err);
-        // If there's an error parsing the saved file, remove it from localStorage
-        localStorage.removeItem("swagger-file");
+  // Load an uploaded or pasted spec back from browser storage
+  const openStoredSpec = async (entry: WorkspaceEntry, key: string) => {
+    let saved: StoredSpecDocument | null;
+    try {
+      saved = await loadStoredSpec(key);
+    } catch (err) {
+      console.error("Error reading saved specification:", err);
+      if (typeof window !== 'undefined' && window.toast) {
+        window.toast.warning(`${entry.title} could not be restored`, {
+          description: err instanceof Error ? err.message : undefined
+        });
+      }
+      return;
+    }
+
+    if (!saved) {
+      // Evicted from storage to make room for newer specs
+      if (typeof window !== 'undefined' && window.toast) {
+        window.toast.warning(`${entry.title} is no longer saved in this browser`);
+      }
+      forgetSpec(entry.id);
+      return;
+    }
+
+    try {
+      const fileContent = await parseSpecTextInWorker(saved.text);
+      await handleFileUpload(fileContent, {
+        storageKey: key,
+        name: entry.title,
+        source: saved.baseUrl && saved.files ? { baseUrl: saved.baseUrl, files: saved.files } : undefined
+      });
+    } catch (err) {
+      console.error("Error parsing saved file:", err);
+      // If there's an error parsing the saved spec, forget it
+      forgetSpec(entry.id);
+      deleteStoredSpec(key).catch(() => {});
+    }
+  };
+
+  // Switch to a spec, loading it first if it has not been loaded in this session
+  const openWorkspaceSpec = async (entry: WorkspaceEntry) => {
+    const open = openSpecs.find(openSpec => openSpec.id === entry.id);
+    if (open?.spec) {
+      setActiveSpecId(entry.id);
+      setError(null);
+      setAuthPageData(null);
+      setDiscoveredSpecs(null);
+      setIsCompareOpen(false);
+      setRecentSpecs(recordRecentSpec(entry));
+      return;
+    }
+
+    if (entry.source.kind === 'url') {
+      await handleFetchOpenAPI(entry.source.url, false);
+    } else {
+      await openStoredSpec(entry, entry.source.key);
+    }
+  };
+
+  // Close a spec; the next one to its left (or right) becomes active
+  const handleCloseSpec = (id: string) => {
+    const index = openSpecs.findIndex(openSpec => openSpec.id === id);
+    const remaining = openSpecs.filter(openSpec => openSpec.id !== id);
+    setOpenSpecs(remaining);
+    setWatchedSpecIds(prev => prev.filter(watchedId => watchedId !== id));
+    setError(null);
+
+    if (id === activeSpecId) {
+      const next = remaining[Math.max(index - 1, 0)];
+      setActiveSpecId(next?.id ?? null);
+      if (next && !next.spec) {
+        openWorkspaceSpec(next);
       }
     }
+  };
+
+  // The loaders as of the latest render, for the mount-only restore below
+  const loadersRef = useRef({ handleFetchOpenAPI, openStoredSpec });
+
+  useEffect(() => {
+    loadersRef.current = { handleFetchOpenAPI, openStoredSpec };
+  });
+
+  // Reopen the specs of the last session on component mount; only the active one is loaded right away
+  useEffect(() => {
+    const restoreWorkspace = async () => {
+      const migratedKey = await migrateLegacyStoredSpec().catch(() => null);
+      const { open, activeId } = loadWorkspace(migratedKey);
+      setRecentSpecs(loadRecentSpecs());
+      setWatchedSpecIds(loadWatchedSpecs().filter(id => open.some(entry => entry.id === id)));
+      setOpenSpecs(open.map(entry => ({ ...entry, spec: null, endpoints: {} })));
+      workspaceRestoredRef.current = true;
+
+      const active = open.find(entry => entry.id === activeId) ?? open[open.length - 1];
+      if (active) {
+        setActiveSpecId(active.id);
+        const { handleFetchOpenAPI, openStoredSpec } = loadersRef.current;
+        if (active.source.kind === 'url') {
+          await handleFetchOpenAPI(active.source.url);
+        } else {
+          await openStoredSpec(active, active.source.key);
+        }
+      }
+    };
+
+    restoreWorkspace().catch(err => console.error("Error restoring workspace:", err));
   }, []);
 
-  const handleSelectEndpoint = (endpoint: string) => {
-    setSelectedEndpoint(endpoint);
+  // Remember the open specs and the active one across visits
+  useEffect(() => {
+    if (workspaceRestoredRef.current) {
+      saveWorkspace(openSpecs, activeSpecId);
+    }
+  }, [openSpecs, activeSpecId]);
+
+  useEffect(() => {
+    if (workspaceRestoredRef.current) {
+      saveWatchedSpecs(watchedSpecIds);
+    }
+  }, [watchedSpecIds]);
+
+  const handleToggleWatch = (id: string) => {
+    setWatchedSpecIds(prev => (prev.includes(id) ? prev.filter(watchedId => watchedId !== id) : [...prev, id]));
+  };
+
+  // Swap in the new version of a watched spec; the endpoint list keeps its expanded groups, search and selection
+  const handleWatchedSpecChange = (id: string, indexed: IndexedSpec, diff: SpecDiff) => {
+    const entry = openSpecs.find(openSpec => openSpec.id === id);
+    if (!entry) return;
+
+    const title = getSpecTitle(indexed.spec, entry.title);
+    setOpenSpecs(prev => prev.map(openSpec => (openSpec.id === id ? { ...openSpec, ...indexed, title } : openSpec)));
+
+    if (typeof window !== 'undefined' && window.toast) {
+      const { added, removed, changed, breaking } = diff.summary;
+      const summary = added + removed + changed > 0
+        ? `${added} added, ${removed} removed, ${changed} changed endpoint${added + removed + changed === 1 ? "" : "s"}`
+        : "No endpoint changes";
+      window.toast.info(`${title} was updated`, {
+        description: breaking > 0 ? `${summary} (${breaking} breaking)` : summary
+      });
+    }
   };
 
+  // Only loaded URL specs can be fetched again
+  const watchedSpecs: WatchedSpec[] = openSpecs.flatMap(openSpec =>
+    watchedSpecIds.includes(openSpec.id) && openSpec.spec && openSpec.source.kind === 'url'
+      ? [{ id: openSpec.id, url: openSpec.source.url, spec: openSpec.spec, validators: openSpec.validators }]
+      : []);
+
+  useSpecWatcher({ specs: watchedSpecs, onChange: handleWatchedSpecChange });
 
   return (
     <div className="min-h-screen p-8 flex flex-col gap-8 max-w-7xl mx-auto">
@@ -110,6 +366,24 @@ export default function Home() {
             onFetch={handleFetchOpenAPI}
             onFileUpload={handleFileUpload}
             isLoading={isLoading}
+            activeSource={activeSpec?.source ?? null}
+            onCloseActive={activeSpec ? () => handleCloseSpec(activeSpec.id) : undefined}
+          />
+        </div>
+        <div className="max-w-4xl mx-auto mt-6">
+          <SpecSwitcher
+            openSpecs={openSpecs}
+            activeSpecId={activeSpecId}
+            recentSpecs={recentSpecs}
+            onSelect={(id) => {
+              const entry = openSpecs.find(openSpec => openSpec.id === id);
+              if (entry) openWorkspaceSpec(entry);
+            }}
+            onClose={handleCloseSpec}
+            onOpenRecent={openWorkspaceSpec}
+            onCompare={openSpecs.some(openSpec => openSpec.spec) ? () => setIsCompareOpen(true) : undefined}
+            watchedSpecIds={watchedSpecIds}
+            onToggleWatch={handleToggleWatch}
           />
         </div>
       </header>
@@ -131,18 +405,41 @@ export default function Home() {
           </div>
         )}
 
-        {!authPageData && Object.keys(endpoints).length > 0 && (
+        {discoveredSpecs && (
+          <div className="max-w-4xl mx-auto">
+            <SpecPicker
+              url={discoveredSpecs.url}
+              specs={discoveredSpecs.specs}
+              onSelect={handleSelectDiscoveredSpec}
+              onCancel={() => setDiscoveredSpecs(null)}
+            />
+          </div>
+        )}
+
+        {isCompareOpen && !authPageData && !discoveredSpecs && (
+          <SpecCompare
+            specs={openSpecs}
+            initialBaseId={activeSpecId}
+            onFetchLatest={fetchLatestSpec}
+            onClose={() => setIsCompareOpen(false)}
+          />
+        )}
+
+        {!isCompareOpen && !authPageData && !discoveredSpecs && activeSpec && Object.keys(endpoints).length > 0 && (
           <EndpointList
+            key={activeSpec.id}
+            specId={activeSpec.id}
             endpoints={endpoints}
-            onSelectEndpoint={handleSelectEndpoint}
+            spec={spec}
+            specUrl={activeSpec.source.kind === 'url' ? activeSpec.source.url : undefined}
           />
         )}
 
-        {!isLoading && !authPageData && Object.keys(endpoints).length === 0 && !error && (
+        {!isLoading && !isCompareOpen && !authPageData && !discoveredSpecs && Object.keys(endpoints).length === 0 && !error && (
           <div className="text-center p-16 border rounded-lg shadow-sm bg-gray-50 max-w-4xl mx-auto">
             <h2 className="text-2xl font-semibold mb-4">Welcome to Easy Swagger</h2>
             <p className="text-gray-600 text-lg mb-2">
-              Enter an OpenAPI/Swagger URL or upload a JSON file to get started
+              Enter an OpenAPI/Swagger URL, upload a JSON or YAML file, or paste a spec to get started
             </p>
             <p className="text-gray-500 text-sm">
               You can explore API endpoints, view their details, and copy the information as JSON
@@ -0,0 +1,174 @@
+"use client";
+
+import React, { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Lock, LockOpen } from "lucide-react";
+import { OAuthFlowForm } from "@/components/oauth-flow-form";
+import {
+  describeSecurityScheme,
+  isSchemeAuthorized,
+  type Credentials,
+  type SchemeCredentials,
+  type SecurityScheme
+} from "@/lib/security";
+
+interface AuthorizeDialogProps {
+  schemes: Record<string, SecurityScheme>;
+  credentials: Credentials;
+  onChange: (credentials: Credentials) => void;
+}
+
+function getSchemeLabel(scheme: SecurityScheme): string {
+  switch (scheme.type) {
+    case "apiKey":
+      return `API key (${scheme.in})`;
+    case "http":
+      return `HTTP ${scheme.scheme}`;
+    case "oauth2":
+      return "OAuth2";
+    case "openIdConnect":
+      return "OpenID Connect";
+  }
+}
+
+// Inputs for one scheme: username and password for HTTP basic, a single secret for everything else
+function SchemeFields({ scheme, value, onChange }: {
+  scheme: SecurityScheme;
+  value: SchemeCredentials;
+  onChange: (value: SchemeCredentials) => void;
+}) {
+  if (scheme.type === "http" && scheme.scheme === "basic") {
+    return (
+      <div className="flex gap-2">
+        <Input
+          placeholder="Username"
+          autoComplete="off"
+          value={value.username ?? ""}
+          onChange={(e) => onChange({ ...value, username: e.target.value })}
+          className="text-sm"
+        />
+        <Input
+          placeholder="Password"
+          type="password"
+          autoComplete="off"
+          value={value.password ?? ""}
+          onChange={(e) => onChange({ ...value, password: e.target.value })}
+          className="text-sm"
+        />
+      </div>
+    );
+  }
+
+  const placeholder = scheme.type === "apiKey"
+    ? scheme.name
+    : scheme.type === "http" && scheme.bearerFormat
+      ? `Token (${scheme.bearerFormat})`
+      : scheme.type === "http" ? "Token" : "Access token";
+
+  // A pasted token replaces one from an OAuth2 flow, which can then no longer be renewed
+  return (
+    <Input
+      placeholder={placeholder}
+      type="password"
+      autoComplete="off"
+      value={value.value ?? ""}
+      onChange={(e) => onChange({ ...value, value: e.target.value, oauth: undefined })}
+      className="font-mono text-sm"
+    />
+  );
+}
+
+// Enter credentials for the spec's security schemes; they are applied to Try it requests
+export function AuthorizeDialog({ schemes, credentials, onChange }: AuthorizeDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<Credentials>(credentials);
+
+  const authorizedCount = Object.entries(schemes)
+    .filter(([name, scheme]) => isSchemeAuthorized(scheme, credentials[name])).length;
+
+  const handleOpenChange = (open: boolean) => {
+    // Start every edit from the credentials in use
+    if (open) setDraft(credentials);
+    setIsOpen(open);
+  };
+
+  const handleApply = () => {
+    const filled = Object.fromEntries(
+      Object.entries(draft).filter(([name, value]) => schemes[name] && isSchemeAuthorized(schemes[name], value))
+    );
+    onChange(filled);
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1">
+          {authorizedCount > 0 ? <Lock className="h-4 w-4 text-green-600" /> : <LockOpen className="h-4 w-4" />}
+          Authorize
+          {authorizedCount > 0 && (
+            <Badge variant="secondary" className="text-xs">{authorizedCount}</Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Authorize</DialogTitle>
+          <DialogDescription>
+            Credentials are sent with Try it requests that need them and kept only for this browser session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {Object.entries(schemes).map(([name, scheme]) => (
+            <div key={name} className="border rounded p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold">{name}</span>
+                <Badge variant="outline" className="text-xs">{getSchemeLabel(scheme)}</Badge>
+                {isSchemeAuthorized(scheme, credentials[name]) && (
+                  <Badge className="text-xs bg-green-500">authorized</Badge>
+                )}
+              </div>
+              {scheme.description && (
+                <p className="text-sm text-gray-600 whitespace-pre-line">{scheme.description}</p>
+              )}
+              <p className="font-mono text-xs text-gray-500">{describeSecurityScheme(scheme)}</p>
+              {scheme.type === "oauth2" && (
+                <OAuthFlowForm
+                  scheme={scheme}
+                  value={draft[name] ?? {}}
+                  onChange={(value) => setDraft(prev => ({ ...prev, [name]: value }))}
+                />
+              )}
+              <SchemeFields
+                scheme={scheme}
+                value={draft[name] ?? {}}
+                onChange={(value) => setDraft(prev => ({ ...prev, [name]: value }))}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setDraft({})}>
+            Clear All
+          </Button>
+          <Button onClick={handleApply}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,62 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
-import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "@/components/ui/card";
+import React, { useState, useEffect, useMemo } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { EndpointInfo, simplifyMethodInfoForCopy } from "@/lib/openapi";
-import { Copy, ChevronDown, ChevronRight, ArrowLeft } from "lucide-react";
+import {
+  EndpointInfo,
+  EndpointMethodInfo,
+  OpenAPISpec,
+  getRefName,
+  getUnexpandedRef,
+  isCircularRef,
+  isUnexpandedRef,
+  resolveEndpointInfo,
+  resolveReferences,
+  simplifyMethodInfoForCopy,
+} from "@/lib/openapi";
+import { Copy, ChevronDown, ChevronRight, Lock, Code, Download, FileCode } from "lucide-react";
+import { useWindowVirtualizer } from "@/hooks/use-window-virtualizer";
+import { TryItPanel } from "@/components/try-it-panel";
+import { ServerPicker } from "@/components/server-picker";
+import { AuthorizeDialog } from "@/components/authorize-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import {
+  describeSecurity,
+  findAuthorizedRequirement,
+  getOperationSecurity,
+  getSecuritySchemes,
+  loadCredentials,
+  requiresAuthentication,
+  saveCredentials,
+  type Credentials
+} from "@/lib/security";
+import { getDocumentServers, getEffectiveServers, getOperationBaseUrl, type ServerSelection } from "@/lib/servers";
+import { loadSpecUiState, saveSpecUiState } from "@/lib/workspace";
+import { buildSnippetRequest, generateSnippet, SNIPPET_LANGUAGES, type SnippetLanguage } from "@/lib/code-snippets";
+import { generateEndpointTypes, generateSpecTypes, getTypesFileName } from "@/lib/typescript-types";
+import { generateEndpointZodSchemas, generateSpecZodSchemas, getZodFileName } from "@/lib/zod-schemas";
+import {
+  getSchemaVariants,
+  getSelectedVariant,
+  getVariantLocation,
+  type SchemaVariants,
+  type VariantSelections
+} from "@/lib/schema-variants";
 
 interface EndpointListProps {
+  // Workspace id of the spec; expanded groups, search and selection are remembered per spec
+  specId: string;
   endpoints: Record<string, EndpointInfo>;
-  onSelectEndpoint: (endpoint: string) => void;
+  spec?: OpenAPISpec | null;
+  // URL the spec was loaded from; relative server URLs are resolved against it
+  specUrl?: string;
 }
 
 // Group type for organizing endpoints
@@ -18,31 +65,330 @@ type EndpointGroup = {
   endpoints: [string, EndpointInfo][];
 };
 
-export function EndpointList({ endpoints, onSelectEndpoint }: EndpointListProps) {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>({});
-  const [expandedEndpoint, setExpandedEndpoint] = useState<string | null>(null);
-  const [selectedMethod, setSelectedMethod] = useState<string | null>(null);
+// Flattened list rows: each group header followed by the endpoints of expanded groups
+type ListRow =
+  | { type: "group"; group: EndpointGroup }
+  | { type: "endpoint"; path: string; info: EndpointInfo; isLast: boolean };
 
-  // Load expanded groups from localStorage on mount
-  useEffect(() => {
-    const savedExpandedGroups = localStorage.getItem("swagger-expanded-groups");
-    if (savedExpandedGroups) {
-      try {
-        const parsedGroups = JSON.parse(savedExpandedGroups);
-        setExpandedGroups(parsedGroups);
-      } catch (err) {
-        console.error("Error parsing saved expanded groups:", err);
-        // If there's an error parsing the saved groups, remove it from localStorage
-        localStorage.removeItem("swagger-expanded-groups");
+// Code generated from the spec, offered by the Types menus
+type CodeGenerator = {
+  id: string;
+  label: string;
+  generateSpec: (spec: OpenAPISpec) => string;
+  generateEndpoint: (spec: OpenAPISpec, path: string) => string;
+  getFileName: (spec: OpenAPISpec) => string;
+};
+
+const CODE_GENERATORS: CodeGenerator[] = [
+  {
+    id: "typescript",
+    label: "TypeScript types",
+    generateSpec: generateSpecTypes,
+    generateEndpoint: generateEndpointTypes,
+    getFileName: getTypesFileName
+  },
+  {
+    id: "zod",
+    label: "Zod schemas",
+    generateSpec: generateSpecZodSchemas,
+    generateEndpoint: generateEndpointZodSchemas,
+    getFileName: getZodFileName
+  },
+];
+
+// How long a downloaded file's object URL is kept; browsers read it after click() returns,
+// and slow or prompting downloads can take a while to start (FileSaver.js waits 40 seconds too)
+const DOWNLOAD_URL_LIFETIME_MS = 40 * 1000;
+
+// Get HTTP method color
+export function getMethodColor(method: string) {
+  switch (method) {
+    case "GET":
+      return "bg-blue-500";
+    case "POST":
+      return "bg-green-500";
+    case "PUT":
+      return "bg-yellow-500";
+    case "DELETE":
+      return "bg-red-500";
+    case "PATCH":
+      return "bg-purple-500";
+    default:
+      return "bg-gray-500";
+  }
+}
+
+interface SchemaPropertiesProps {
+  schema: any;
+  spec?: OpenAPISpec | null;
+  depth?: number;
+  // Location of the schema in the body, e.g. "$.items[]"; oneOf / anyOf choices are keyed by it
+  location?: string;
+  variantSelections?: VariantSelections;
+  onSelectVariant?: (location: string, index: number) => void;
+}
+
+// Link shown where a recursive (↻) or too deeply nested (⋯) schema was cut off; expands the
+// referenced schema one more level
+function UnexpandedRefLink({ schema, spec, depth, ...variantProps }: Required<SchemaPropertiesProps>) {
+  const [isOpen, setIsOpen] = useState(false);
+  const ref = getUnexpandedRef(schema)!;
+
+  return (
+    <div className="mt-1">
+      <button
+        type="button"
+        className="text-xs text-blue-500 hover:underline font-mono"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!spec}
+        title={isCircularRef(schema) ? `Recursive reference to ${ref}` : `Nested too deeply to expand: ${ref}`}
+      >
+        {isCircularRef(schema) ? "↻" : "⋯"} {getRefName(ref)}
+      </button>
+      {isOpen && spec && (
+        <div className="mt-1 pl-2">
+          <SchemaProperties schema={resolveReferences(spec, { $ref: ref })} spec={spec} depth={depth + 1} {...variantProps} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Alternatives of a oneOf / anyOf schema: the chosen one is shown and used for examples
+function SchemaVariantsView({ variants, ...props }: Required<SchemaPropertiesProps> & { variants: SchemaVariants }) {
+  const { location, variantSelections, onSelectVariant } = props;
+  const selected = getSelectedVariant(variants, variantSelections, location);
+  const selectedSchema = selected.schema;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-gray-500">{variants.kind === "oneOf" ? "One of:" : "Any of:"}</span>
+        {variants.variants.map((variant, index) => (
+          <Button
+            key={index}
+            type="button"
+            size="sm"
+            variant={variant === selected ? "secondary" : "outline"}
+            className="h-6 px-2 text-xs"
+            onClick={() => onSelectVariant(location, index)}
+          >
+            {variant.label}
+          </Button>
+        ))}
+      </div>
+      {selectedSchema?.properties || isUnexpandedRef(selectedSchema) || getSchemaVariants(selectedSchema) ? (
+        <SchemaProperties {...props} schema={selectedSchema} location={getVariantLocation(variants, variantSelections, location)} />
+      ) : selectedSchema?.type && (
+        <Badge variant="outline" className="text-xs">
+          {selectedSchema.type}{selectedSchema.format ? ` (${selectedSchema.format})` : ""}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+// Render the properties of an object schema, descending into nested objects, array items
+// and the chosen alternatives of oneOf / anyOf schemas
+function SchemaProperties({
+  schema,
+  spec = null,
+  depth = 0,
+  location = "$",
+  variantSelections = {},
+  onSelectVariant = () => {}
+}: SchemaPropertiesProps) {
+  const variantProps = { location, variantSelections, onSelectVariant };
+
+  if (isUnexpandedRef(schema)) {
+    return <UnexpandedRefLink schema={schema} spec={spec} depth={depth} {...variantProps} />;
+  }
+
+  const variants = getSchemaVariants(schema);
+  if (variants) {
+    return <SchemaVariantsView variants={variants} schema={schema} spec={spec} depth={depth} {...variantProps} />;
+  }
+
+  if (!schema?.properties) {
+    return null;
+  }
+
+  const isTopLevel = depth === 0;
+
+  return (
+    <div className={isTopLevel ? "space-y-2" : "space-y-1"}>
+      {Object.entries(schema.properties).map(([propName, propValue]: [string, any]) => {
+        const itemSchema = propValue.type === "array" ? propValue.items : null;
+        const propVariants = getSchemaVariants(propValue);
+        const childProps = {
+          spec,
+          depth: depth + 1,
+          variantSelections,
+          onSelectVariant
+        };
+
+        return (
+          <div
+            key={propName}
+            className={isTopLevel ? "border-l-2 border-gray-300 pl-2 py-1" : "border-l border-gray-200 pl-2"}
+          >
+            <div className={isTopLevel ? "flex items-center gap-2" : "flex items-center gap-1"}>
+              <span className={isTopLevel ? "font-medium" : "text-xs font-medium"}>{propName}</span>
+              <Badge variant="outline" className={isTopLevel ? "text-xs" : "text-[10px] h-4"}>
+                {propValue.type || propVariants?.kind || "any"}
+              </Badge>
+              {propValue.nullable && (
+                <Badge variant="secondary" className={isTopLevel ? "text-xs" : "text-[10px] h-4"}>
+                  nullable
+                </Badge>
+              )}
+            </div>
+            {isTopLevel && propValue.description && (
+              <div className="text-xs text-gray-500 mt-0.5">
+                {propValue.description}
+              </div>
+            )}
+            {/* Recursion point or depth limit of a nested schema */}
+            {isUnexpandedRef(propValue) && (
+              <UnexpandedRefLink schema={propValue} spec={spec} depth={depth} {...variantProps} location={`${location}.${propName}`} />
+            )}
+            {/* Handle nested objects */}
+            {propValue.properties && !propVariants && (
+              <div className="mt-1 pl-2">
+                <div className="text-xs font-medium mb-1">Nested Properties:</div>
+                <SchemaProperties schema={propValue} location={`${location}.${propName}`} {...childProps} />
+              </div>
+            )}
+            {/* Handle oneOf / anyOf properties */}
+            {propVariants && (
+              <div className="mt-1 pl-2">
+                <SchemaProperties schema={propValue} location={`${location}.${propName}`} {...childProps} />
+              </div>
+            )}
+            {/* Handle arrays of objects */}
+            {itemSchema && (itemSchema.properties || isUnexpandedRef(itemSchema) || getSchemaVariants(itemSchema)) && (
+              <div className="mt-1 pl-2">
+                <div className="text-xs font-medium mb-1">Array Item Properties:</div>
+                <SchemaProperties schema={itemSchema} location={`${location}.${propName}[]`} {...childProps} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Group endpoints by tags and path segments
+function groupEndpoints(endpoints: [string, EndpointInfo][]): EndpointGroup[] {
+  // First, try to group by tags
+  const tagGroups: Record<string, [string, EndpointInfo][]> = {};
+  const noTagEndpoints: [string, EndpointInfo][] = [];
+
+  // Group by tags first
+  endpoints.forEach(([path, info]) => {
+    const methodValues = Object.values(info.methods);
+    if (methodValues.length > 0 && methodValues[0].tags.length > 0) {
+      // Use the first tag as the group name
+      const tag = methodValues[0].tags[0];
+      if (!tagGroups[tag]) {
+        tagGroups[tag] = [];
       }
+      tagGroups[tag].push([path, info]);
+    } else {
+      noTagEndpoints.push([path, info]);
+    }
+  });
+
+  // For endpoints without tags, group by path segment
+  const pathGroups: Record<string, [string, EndpointInfo][]> = {};
+  noTagEndpoints.forEach(([path, info]) => {
+    // Extract the first path segment (e.g., /v1/users -> /v1)
+    const pathSegments = path.split('/');
+    let groupName = '/';
+
+    if (pathSegments.length > 1 && pathSegments[1]) {
+      groupName = '/' + pathSegments[1];
+    }
+
+    if (!pathGroups[groupName]) {
+      pathGroups[groupName] = [];
     }
-  }, []);
+    pathGroups[groupName].push([path, info]);
+  });
+
+  // Combine tag groups and path groups
+  const allGroups: EndpointGroup[] = [
+    ...Object.entries(tagGroups).map(([name, endpoints]) => ({ name, endpoints })),
+    ...Object.entries(pathGroups).map(([name, endpoints]) => ({ name, endpoints }))
+  ];
+
+  // Sort groups by name
+  return allGroups.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function EndpointList({ specId, endpoints, spec = null, specUrl }: EndpointListProps) {
+  // Start from the state saved for this spec (the list is remounted when the spec changes)
+  const [savedState] = useState(() => loadSpecUiState(specId));
+  const [searchTerm, setSearchTerm] = useState(savedState.searchTerm ?? "");
+  const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>(savedState.expandedGroups ?? {});
+  const [expandedEndpoint, setExpandedEndpoint] = useState<string | null>(
+    savedState.expandedEndpoint && endpoints[savedState.expandedEndpoint] ? savedState.expandedEndpoint : null
+  );
+  const [selectedMethod, setSelectedMethod] = useState<string | null>(savedState.selectedMethod ?? null);
+  const [isTryItOpen, setIsTryItOpen] = useState(false);
+  const [serverSelection, setServerSelection] = useState<ServerSelection | null>(savedState.server ?? null);
+  // Selections among servers declared on a path or operation, keyed by "METHOD path"
+  const [operationServerSelections, setOperationServerSelections] = useState<Record<string, ServerSelection>>({});
+  // Chosen oneOf / anyOf alternatives in each operation's request body, keyed by "METHOD path"
+  const [variantSelections, setVariantSelections] = useState<Record<string, VariantSelections>>({});
+  const [credentials, setCredentials] = useState<Credentials>(() => loadCredentials(specId));
+  const securitySchemes = useMemo(() => getSecuritySchemes(spec), [spec]);
+
+  const updateCredentials = (nextCredentials: Credentials) => {
+    setCredentials(nextCredentials);
+    saveCredentials(specId, nextCredentials);
+  };
+
+  // Save expanded groups, search, selection and the chosen server for this spec
+  useEffect(() => {
+    saveSpecUiState(specId, { expandedGroups, searchTerm, expandedEndpoint, selectedMethod, server: serverSelection });
+  }, [specId, expandedGroups, searchTerm, expandedEndpoint, selectedMethod, serverSelection]);
 
   // Filter endpoints based on search term
-  const filteredEndpoints = Object.entries(endpoints).filter(([path]) =>
+  const filteredEndpoints = useMemo(() => Object.entries(endpoints).filter(([path]) =>
     path.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  ), [endpoints, searchTerm]);
+
+  // Group the filtered endpoints
+  const endpointGroups = useMemo(() => groupEndpoints(filteredEndpoints), [filteredEndpoints]);
+
+  // Flatten the groups into rows so only the ones on screen are rendered
+  const rows = useMemo(() => {
+    const result: ListRow[] = [];
+    for (const group of endpointGroups) {
+      result.push({ type: "group", group });
+      if (expandedGroups[group.name] === false) continue;
+
+      group.endpoints.forEach(([path, info], index) => {
+        result.push({ type: "endpoint", path, info, isLast: index === group.endpoints.length - 1 });
+      });
+    }
+    return result;
+  }, [endpointGroups, expandedGroups]);
+
+  const { containerRef, measureElement, virtualRows, paddingTop, paddingBottom } = useWindowVirtualizer({
+    count: rows.length,
+    getKey: (index) => {
+      const row = rows[index];
+      return row.type === "group" ? `group:${row.group.name}` : `endpoint:${row.path}`;
+    },
+    estimateSize: (index) => (rows[index].type === "group" ? 66 : 90)
+  });
+
+  // Lazily indexed endpoints are resolved in full only when expanded or copied (memoized per spec)
+  const getEndpointDetails = (path: string, info: EndpointInfo): EndpointInfo =>
+    info.lazy && spec ? resolveEndpointInfo(spec, path) : info;
 
   // Auto-expand all groups when searching
   useEffect(() => {
@@ -63,17 +409,10 @@ export function EndpointList({ endpoints, onSelectEndpoint }: EndpointListProps)
 
   // Toggle group expansion
   const toggleGroup = (groupName: string) => {
-    setExpandedGroups(prev => {
-      const newState = {
-        ...prev,
-        [groupName]: !prev[groupName]
-      };
-
-      // Save to localStorage
-      localStorage.setItem("swagger-expanded-groups", JSON.stringify(newState));
-
-      return newState;
-    });
+    setExpandedGroups(prev => ({
+      ...prev,
+      [groupName]: !prev[groupName]
+    }));
   };
 
   // Toggle endpoint expansion
@@ -95,69 +434,54 @@ export function EndpointList({ endpoints, onSelectEndpoint }: EndpointListProps)
     setSelectedMethod(method);
   };
 
-  // Group endpoints by tags and path segments
-  const groupEndpoints = (endpoints: [string, EndpointInfo][]): EndpointGroup[] => {
-    // First, try to group by tags
-    const tagGroups: Record<string, [string, EndpointInfo][]> = {};
-    const noTagEndpoints: [string, EndpointInfo][] = [];
-
-    // Group by tags first
-    endpoints.forEach(([path, info]) => {
-      const methodValues = Object.values(info.methods);
-      if (methodValues.length > 0 && methodValues[0].tags.length > 0) {
-        // Use the first tag as the group name
-        const tag = methodValues[0].tags[0];
-        if (!tagGroups[tag]) {
-          tagGroups[tag] = [];
-        }
-        tagGroups[tag].push([path, info]);
-      } else {
-        noTagEndpoints.push([path, info]);
-      }
-    });
-
-    // For endpoints without tags, group by path segment
-    const pathGroups: Record<string, [string, EndpointInfo][]> = {};
-    noTagEndpoints.forEach(([path, info]) => {
-      // Extract the first path segment (e.g., /v1/users -> /v1)
-      const pathSegments = path.split('/');
-      let groupName = '/';
-
-      if (pathSegments.length > 1 && pathSegments[1]) {
-        groupName = '/' + pathSegments[1];
-      }
 
-      if (!pathGroups[groupName]) {
-        pathGroups[groupName] = [];
-      }
-      pathGroups[groupName].push([path, info]);
-    });
+  // The server selection that applies to an operation: the document-level picker,
+  // unless the path or operation declares servers of its own
+  const getServerSelection = (path: string, method: string, details: EndpointInfo): ServerSelection | null => {
+    const { level } = getEffectiveServers(spec, details, details.methods[method]);
+    if (level === "document" || serverSelection?.custom) {
+      return serverSelection;
+    }
+    return operationServerSelections[`${method} ${path}`] ?? null;
+  };
 
-    // Combine tag groups and path groups
-    const allGroups: EndpointGroup[] = [
-      ...Object.entries(tagGroups).map(([name, endpoints]) => ({ name, endpoints })),
-      ...Object.entries(pathGroups).map(([name, endpoints]) => ({ name, endpoints }))
-    ];
+  // Full URL of an operation under the selected server
+  const getOperationUrl = (path: string, method: string, details: EndpointInfo): string =>
+    `${getOperationBaseUrl(spec, getServerSelection(path, method, details), specUrl, details, details.methods[method])}${path}`;
 
-    // Sort groups by name
-    return allGroups.sort((a, b) => a.name.localeCompare(b.name));
+  const selectVariant = (selectionKey: string, location: string, index: number) => {
+    setVariantSelections(prev => ({ ...prev, [selectionKey]: { ...prev[selectionKey], [location]: index } }));
   };
 
-  // Group the filtered endpoints
-  const endpointGroups = groupEndpoints(filteredEndpoints);
+  // Copied data for one operation: example values and how to authenticate (never the credentials)
+  const getMethodCopyData = (path: string, method: string, methodInfo: EndpointMethodInfo) => {
+    const authentication = describeSecurity(getOperationSecurity(spec, methodInfo), securitySchemes);
+    return {
+      ...simplifyMethodInfoForCopy(methodInfo, variantSelections[`${method} ${path}`]),
+      ...(authentication.length > 0 ? { authentication } : {})
+    };
+  };
 
   // Copy endpoint information as JSON
   const copyEndpointJson = (path: string, info: EndpointInfo) => {
+    const details = getEndpointDetails(path, info);
+    const pathUrl = `${getOperationBaseUrl(spec, serverSelection, specUrl, details)}${path}`;
+
     // Create a simplified version of the methods
     const simplifiedMethods: Record<string, any> = {};
 
-    // Simplify each method
-    Object.entries(info.methods).forEach(([method, methodInfo]) => {
-      simplifiedMethods[method] = simplifyMethodInfoForCopy(methodInfo);
+    // Simplify each method; operations served elsewhere than the path carry their own URL
+    Object.entries(details.methods).forEach(([method, methodInfo]) => {
+      const url = getOperationUrl(path, method, details);
+      simplifiedMethods[method] = {
+        ...(url !== pathUrl ? { url } : {}),
+        ...getMethodCopyData(path, method, methodInfo)
+      };
     });
 
     const endpointData = {
       endpoint: path,
+      url: pathUrl,
       methods: simplifiedMethods
     };
 
@@ -176,28 +500,125 @@ export function EndpointList({ endpoints, onSelectEndpoint }: EndpointListProps)
       });
   };
 
-  // Get HTTP method color
-  const getMethodColor = (method: string) => {
-    switch (method) {
-      case "GET":
-        return "bg-blue-500";
-      case "POST":
-        return "bg-green-500";
-      case "PUT":
-        return "bg-yellow-500";
-      case "DELETE":
-        return "bg-red-500";
-      case "PATCH":
-        return "bg-purple-500";
-      default:
-        return "bg-gray-500";
+  // Copy the generated types or schemas of one path's operations, with the schemas they use
+  const copyGeneratedCode = (path: string, generator: CodeGenerator) => {
+    if (!spec) return;
+
+    navigator.clipboard.writeText(generator.generateEndpoint(spec, path))
+      .then(() => {
+        if (typeof window !== 'undefined' && window.toast) {
+          window.toast.success(`${generator.label} copied to clipboard!`);
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to copy to clipboard:", err);
+        if (typeof window !== 'undefined' && window.toast) {
+          window.toast.error("Failed to copy to clipboard");
+        }
+      });
+  };
+
+  // Download the generated types or schemas of every schema and operation in the spec
+  const downloadGeneratedCode = (generator: CodeGenerator) => {
+    if (!spec) return;
+
+    const url = URL.createObjectURL(new Blob([generator.generateSpec(spec)], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = generator.getFileName(spec);
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+  };
+
+  // Copy one operation as a code snippet, with placeholders instead of the entered credentials
+  const copySnippet = (
+    language: SnippetLanguage,
+    label: string,
+    path: string,
+    method: string,
+    methodInfo: EndpointMethodInfo,
+    details: EndpointInfo
+  ) => {
+    let snippet: string;
+    try {
+      snippet = generateSnippet(language, buildSnippetRequest({
+        method,
+        baseUrl: getOperationBaseUrl(spec, getServerSelection(path, method, details), specUrl, details, methodInfo),
+        path,
+        methodInfo,
+        security: getOperationSecurity(spec, methodInfo),
+        securitySchemes,
+        variants: variantSelections[`${method} ${path}`]
+      }));
+    } catch (err) {
+      console.error("Failed to build snippet:", err);
+      if (typeof window !== 'undefined' && window.toast) {
+        window.toast.error(err instanceof Error ? err.message : "Failed to build snippet");
+      }
+      return;
     }
+
+    navigator.clipboard.writeText(snippet)
+      .then(() => {
+        if (typeof window !== 'undefined' && window.toast) {
+          window.toast.success(`${label} snippet copied to clipboard!`);
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to copy to clipboard:", err);
+        if (typeof window !== 'undefined' && window.toast) {
+          window.toast.error("Failed to copy to clipboard");
+        }
+      });
+  };
+
+  // Lock shown on operations that need credentials; green once the Authorize dialog satisfies them
+  const renderSecurityLock = (methodInfo: EndpointMethodInfo) => {
+    const requirements = getOperationSecurity(spec, methodInfo);
+    if (!requiresAuthentication(requirements)) return null;
+
+    const isAuthorized = !!findAuthorizedRequirement(requirements, securitySchemes, credentials);
+    const schemeNames = Array.from(new Set(requirements.flatMap(requirement => Object.keys(requirement))));
+    return (
+      <span title={`${isAuthorized ? "Authorized" : "Requires authentication"}: ${schemeNames.join(", ")}`}>
+        <Lock className={`h-3 w-3 ${isAuthorized ? "text-green-200" : "opacity-80"}`} />
+      </span>
+    );
   };
 
   return (
     <Card className="w-full">
       <CardHeader>
-        <CardTitle className="text-xl">Endpoints</CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-xl">Endpoints</CardTitle>
+          <div className="flex gap-2">
+            {spec && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-1">
+                    <Download className="h-4 w-4" />
+                    Types
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {CODE_GENERATORS.map(generator => (
+                    <DropdownMenuItem key={generator.id} onSelect={() => downloadGeneratedCode(generator)}>
+                      {generator.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {Object.keys(securitySchemes).length > 0 && (
+              <AuthorizeDialog
+                schemes={securitySchemes}
+                credentials={credentials}
+                onChange={updateCredentials}
+              />
+            )}
+          </div>
+        </div>
         <div className="mt-2">
           <input
             type="text"
@@ -207,334 +628,470 @@ export function EndpointList({ endpoints, onSelectEndpoint }: EndpointListProps)
             onChange={(e) => setSearchTerm(e.target.value)}
           />
         </div>
+        {spec && (
+          <div className="mt-3">
+            <ServerPicker
+              servers={getDocumentServers(spec)}
+              selection={serverSelection}
+              specUrl={specUrl}
+              onChange={setServerSelection}
+            />
+          </div>
+        )}
       </CardHeader>
       <CardContent className="overflow-y-auto">
         {filteredEndpoints.length === 0 ? (
           <p className="text-center text-gray-500">No endpoints found</p>
         ) : (
-          <div className="space-y-4">
-            {endpointGroups.map((group) => {
-              const isExpanded = expandedGroups[group.name] !== false; // Default to expanded
+          <div ref={containerRef} style={{ paddingTop, paddingBottom }}>
+            {virtualRows.map(({ index, key }) => {
+              const row = rows[index];
+
+              if (row.type === "group") {
+                const { group } = row;
+                const isExpanded = expandedGroups[group.name] !== false; // Default to expanded
+
+                return (
+                  <div key={key} data-virtual-key={key} ref={measureElement} className={index > 0 ? "pt-4" : ""}>
+                    {/* Group Header */}
+                    <div
+                      className={`bg-gray-100 p-3 font-semibold flex items-center cursor-pointer hover:bg-gray-200 border ${isExpanded ? "rounded-t" : "rounded"}`}
+                      onClick={() => toggleGroup(group.name)}
+                    >
+                      {isExpanded ? (
+                        <ChevronDown className="h-4 w-4 mr-2 text-gray-600" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 mr-2 text-gray-600" />
+                      )}
+                      <span className="text-gray-800">{group.name}</span>
+                      <Badge variant="outline" className="ml-2 bg-white">
+                        {group.endpoints.length}
+                      </Badge>
+                    </div>
+                  </div>
+                );
+              }
+
+              // Group Content
+              const { path, info, isLast } = row;
 
               return (
-                <div key={group.name} className="border rounded overflow-hidden">
-                  {/* Group Header */}
-                  <div
-                    className="bg-gray-100 p-3 font-semibold flex items-center cursor-pointer hover:bg-gray-200 border-b"
-                    onClick={() => toggleGroup(group.name)}
-                  >
-                    {isExpanded ? (
-                      <ChevronDown className="h-4 w-4 mr-2 text-gray-600" />
-                    ) : (
-                      <ChevronRight className="h-4 w-4 mr-2 text-gray-600" />
-                    )}
-                    <span className="text-gray-800">{group.name}</span>
-                    <Badge variant="outline" className="ml-2 bg-white">
-                      {group.endpoints.length}
-                    </Badge>
+                <div
+                  key={key}
+                  data-virtual-key={key}
+                  ref={measureElement}
+                  className={`p-3 hover:bg-gray-50 border-x border-b ${isLast ? "rounded-b" : ""}`}
+                >
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <h3 className="font-mono text-sm font-semibold mb-2">{path}</h3>
+                      {info.summary && (
+                        <p className="text-xs text-gray-500 -mt-1 mb-2">{info.summary}</p>
+                      )}
+                      <div className="flex flex-wrap gap-1">
+                        {Object.entries(info.methods).map(([method, methodInfo]) => (
+                          <Badge key={method} className={getMethodColor(method)}>
+                            {method}
+                            {renderSecurityLock(methodInfo)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => copyEndpointJson(path, info)}
+                      >
+                        <Copy className="h-4 w-4 mr-1" />
+                        Copy
+                      </Button>
+                      {spec && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="outline" size="sm">
+                              <FileCode className="h-4 w-4 mr-1" />
+                              Types
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {CODE_GENERATORS.map(generator => (
+                              <DropdownMenuItem key={generator.id} onSelect={() => copyGeneratedCode(path, generator)}>
+                                {generator.label}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => toggleEndpointExpansion(path, info)}
+                      >
+                        {expandedEndpoint === path ? 'Hide' : 'View'}
+                      </Button>
+                    </div>
                   </div>
 
-                  {/* Group Content */}
-                  {isExpanded && (
-                    <ul className="divide-y">
-                      {group.endpoints.map(([path, info]) => (
-                        <li key={path} className="p-3 hover:bg-gray-50">
-                          <div className="flex justify-between items-start">
-                            <div>
-                              <h3 className="font-mono text-sm font-semibold mb-2">{path}</h3>
-                              <div className="flex flex-wrap gap-1">
-                                {Object.keys(info.methods).map((method) => (
-                                  <Badge key={method} className={getMethodColor(method)}>
-                                    {method}
-                                  </Badge>
-                                ))}
-                              </div>
-                            </div>
-                            <div className="flex gap-2">
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => copyEndpointJson(path, info)}
-                              >
-                                <Copy className="h-4 w-4 mr-1" />
-                                Copy
-                              </Button>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => toggleEndpointExpansion(path, info)}
-                              >
-                                {expandedEndpoint === path ? 'Hide' : 'View'}
-                              </Button>
-                            </div>
-                          </div>
-
-                          {/* Expanded Endpoint Details */}
-                          {expandedEndpoint === path && selectedMethod && (
-                            <div className="mt-4 border-t pt-4">
-                              <div className="flex flex-wrap gap-2 mb-4">
-                                {Object.keys(info.methods).map((method) => (
-                                  <Badge
-                                    key={method}
-                                    className={`${getMethodColor(method)} cursor-pointer ${
-                                      selectedMethod === method ? 'ring-2 ring-offset-2' : ''
-                                    }`}
-                                    onClick={() => handleMethodSelection(method)}
-                                  >
-                                    {method}
-                                  </Badge>
-                                ))}
-                              </div>
+                  {/* Expanded Endpoint Details */}
+                  {expandedEndpoint === path && selectedMethod && (
+                    <div className="mt-4 border-t pt-4">
+                      {info.description && (
+                        <p className="text-sm text-gray-600 mb-4 whitespace-pre-line">{info.description}</p>
+                      )}
+                      <div className="flex flex-wrap gap-2 mb-4">
+                        {Object.keys(info.methods).map((method) => (
+                          <Badge
+                            key={method}
+                            className={`${getMethodColor(method)} cursor-pointer ${
+                              selectedMethod === method ? 'ring-2 ring-offset-2' : ''
+                            } ${info.methods[method].deprecated ? 'line-through opacity-60' : ''}`}
+                            onClick={() => handleMethodSelection(method)}
+                          >
+                            {method}
+                            {renderSecurityLock(info.methods[method])}
+                          </Badge>
+                        ))}
+                      </div>
 
-                              <div className="space-y-6">
-                                {/* Method Details */}
-                                {(() => {
-                                  const methodInfo = info.methods[selectedMethod];
-
-                                  return (
-                                    <>
-                                      {/* Tags */}
-                                      {methodInfo.tags && methodInfo.tags.length > 0 && (
-                                        <div>
-                                          <h3 className="text-sm font-semibold mb-1">Tags:</h3>
-                                          <div className="flex flex-wrap gap-1">
-                                            {methodInfo.tags.map((tag) => (
-                                              <Badge key={tag} variant="outline">
-                                                {tag}
-                                              </Badge>
-                                            ))}
-                                          </div>
-                                        </div>
-                                      )}
+                      <div className="space-y-6">
+                        {/* Method Details */}
+                        {(() => {
+                          const methodInfo = getEndpointDetails(path, info).methods[selectedMethod];
+                          if (!methodInfo) return null;
+
+                          return (
+                            <>
+                              {/* Operation Summary */}
+                              {(methodInfo.summary || methodInfo.description || methodInfo.operationId || methodInfo.deprecated) && (
+                                <div>
+                                  <div className="flex flex-wrap items-center gap-2">
+                                    {methodInfo.summary && (
+                                      <h3 className="font-semibold">{methodInfo.summary}</h3>
+                                    )}
+                                    {methodInfo.deprecated && (
+                                      <Badge variant="destructive" className="text-xs">
+                                        deprecated
+                                      </Badge>
+                                    )}
+                                    {methodInfo.operationId && (
+                                      <Badge variant="outline" className="text-xs font-mono">
+                                        {methodInfo.operationId}
+                                      </Badge>
+                                    )}
+                                  </div>
+                                  {methodInfo.description && (
+                                    <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">
+                                      {methodInfo.description}
+                                    </p>
+                                  )}
+                                  {methodInfo.externalDocs?.url && (
+                                    <a
+                                      href={methodInfo.externalDocs.url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="text-sm text-blue-500 hover:underline mt-1 inline-block"
+                                    >
+                                      {methodInfo.externalDocs.description || methodInfo.externalDocs.url}
+                                    </a>
+                                  )}
+                                </div>
+                              )}
 
-                                      {/* Parameters */}
-                                      {methodInfo.parameters && methodInfo.parameters.length > 0 && (
-                                        <div>
-                                          <h3 className="text-sm font-semibold mb-1">Parameters:</h3>
-                                          <div className="space-y-2">
-                                            {methodInfo.parameters.map((param, index) => (
-                                              <div key={index} className="border rounded p-2">
-                                                <div className="flex items-center gap-2">
-                                                  <span className="font-semibold">{param.name}</span>
-                                                  <Badge variant="outline" className="text-xs">
-                                                    {param.in}
-                                                  </Badge>
-                                                  {param.required && (
-                                                    <Badge variant="destructive" className="text-xs">
-                                                      required
+                              {/* Tags */}
+                              {methodInfo.tags && methodInfo.tags.length > 0 && (
+                                <div>
+                                  <h3 className="text-sm font-semibold mb-1">Tags:</h3>
+                                  <div className="flex flex-wrap gap-1">
+                                    {methodInfo.tags.map((tag) => (
+                                      <Badge key={tag} variant="outline">
+                                        {tag}
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+
+                              {/* Parameters */}
+                              {methodInfo.parameters && methodInfo.parameters.length > 0 && (
+                                <div>
+                                  <h3 className="text-sm font-semibold mb-1">Parameters:</h3>
+                                  <div className="space-y-2">
+                                    {methodInfo.parameters.map((param, index) => (
+                                      <div key={index} className="border rounded p-2">
+                                        <div className="flex items-center gap-2">
+                                          <span className="font-semibold">{param.name}</span>
+                                          <Badge variant="outline" className="text-xs">
+                                            {param.in}
+                                          </Badge>
+                                          {param.required && (
+                                            <Badge variant="destructive" className="text-xs">
+                                              required
+                                            </Badge>
+                                          )}
+                                        </div>
+                                        {param.schema && (
+                                          <div className="mt-1 text-sm">
+                                            <span className="text-gray-500">Type: </span>
+                                            <span>{param.schema.type || "object"}</span>
+                                            {param.schema.format && (
+                                              <span className="ml-2 text-gray-500">
+                                                Format: {param.schema.format}
+                                              </span>
+                                            )}
+                                            {param.schema.enumValues && (
+                                              <div className="mt-1">
+                                                <span className="text-gray-500">Enum values: </span>
+                                                <div className="flex flex-wrap gap-1 mt-1">
+                                                  {param.schema.enumValues.map((value: string) => (
+                                                    <Badge key={value} variant="secondary" className="text-xs">
+                                                      {value}
                                                     </Badge>
-                                                  )}
+                                                  ))}
                                                 </div>
-                                                {param.schema && (
-                                                  <div className="mt-1 text-sm">
-                                                    <span className="text-gray-500">Type: </span>
-                                                    <span>{param.schema.type || "object"}</span>
-                                                    {param.schema.format && (
-                                                      <span className="ml-2 text-gray-500">
-                                                        Format: {param.schema.format}
-                                                      </span>
-                                                    )}
-                                                    {param.schema.enumValues && (
-                                                      <div className="mt-1">
-                                                        <span className="text-gray-500">Enum values: </span>
-                                                        <div className="flex flex-wrap gap-1 mt-1">
-                                                          {param.schema.enumValues.map((value: string) => (
-                                                            <Badge key={value} variant="secondary" className="text-xs">
-                                                              {value}
-                                                            </Badge>
-                                                          ))}
-                                                        </div>
-                                                      </div>
-                                                    )}
-                                                  </div>
-                                                )}
                                               </div>
+                                            )}
+                                          </div>
+                                        )}
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+
+                              {/* Request Body */}
+                              {methodInfo.requestBody && (
+                                <div>
+                                  <h3 className="text-sm font-semibold mb-1">Request Body:</h3>
+                                  {methodInfo.requestBody.content ? (
+                                    (() => {
+                                      // Extract the first schema from any content type
+                                      const contentTypes = Object.keys(methodInfo.requestBody.content);
+                                      if (contentTypes.length === 0) {
+                                        return (
+                                          <pre className="bg-gray-100 p-2 rounded text-xs overflow-x-auto">
+                                            {JSON.stringify(methodInfo.requestBody, null, 2)}
+                                          </pre>
+                                        );
+                                      }
+
+                                      // Get the first content type's schema
+                                      const firstContentType = contentTypes[0];
+                                      const schema = methodInfo.requestBody.content[firstContentType].schema;
+
+                                      // Display all content types as badges
+                                      return (
+                                        <div className="border rounded p-2">
+                                          <div className="flex flex-wrap gap-1 mb-3">
+                                            {contentTypes.map(contentType => (
+                                              <Badge key={contentType} variant="outline" className="text-xs">
+                                                {contentType}
+                                              </Badge>
                                             ))}
                                           </div>
-                                        </div>
-                                      )}
 
-                                      {/* Request Body */}
-                                      {methodInfo.requestBody && (
-                                        <div>
-                                          <h3 className="text-sm font-semibold mb-1">Request Body:</h3>
-                                          {methodInfo.requestBody.content ? (
-                                            (() => {
-                                              // Extract the first schema from any content type
-                                              const contentTypes = Object.keys(methodInfo.requestBody.content);
-                                              if (contentTypes.length === 0) {
-                                                return (
-                                                  <pre className="bg-gray-100 p-2 rounded text-xs overflow-x-auto">
-                                                    {JSON.stringify(methodInfo.requestBody, null, 2)}
-                                                  </pre>
-                                                );
-                                              }
-
-                                              // Get the first content type's schema
-                                              const firstContentType = contentTypes[0];
-                                              const schema = methodInfo.requestBody.content[firstContentType].schema;
-
-                                              // Display all content types as badges
-                                              return (
-                                                <div className="border rounded p-2">
-                                                  <div className="flex flex-wrap gap-1 mb-3">
-                                                    {contentTypes.map(contentType => (
-                                                      <Badge key={contentType} variant="outline" className="text-xs">
-                                                        {contentType}
-                                                      </Badge>
-                                                    ))}
-                                                  </div>
-
-                                                  {schema && (
-                                                    <div>
-                                                      {/* Display schema properties directly */}
-                                                      {schema.properties ? (
-                                                        <div className="space-y-2">
-                                                          {Object.entries(schema.properties).map(([propName, propValue]: [string, any]) => (
-                                                            <div key={propName} className="border-l-2 border-gray-300 pl-2 py-1">
-                                                              <div className="flex items-center gap-2">
-                                                                <span className="font-medium">{propName}</span>
-                                                                <Badge variant="outline" className="text-xs">
-                                                                  {propValue.type || "any"}
-                                                                </Badge>
-                                                                {propValue.nullable && (
-                                                                  <Badge variant="secondary" className="text-xs">
-                                                                    nullable
-                                                                  </Badge>
-                                                                )}
-                                                              </div>
-                                                              {propValue.description && (
-                                                                <div className="text-xs text-gray-500 mt-0.5">
-                                                                  {propValue.description}
-                                                                </div>
-                                                              )}
-                                                              {/* Handle nested objects */}
-                                                              {propValue.type === "object" && propValue.properties && (
-                                                                <div className="mt-1 pl-2">
-                                                                  <div className="text-xs font-medium mb-1">Nested Properties:</div>
-                                                                  <div className="space-y-1">
-                                                                    {Object.entries(propValue.properties).map(([nestedPropName, nestedPropValue]: [string, any]) => (
-                                                                      <div key={nestedPropName} className="border-l border-gray-200 pl-2">
-                                                                        <div className="flex items-center gap-1">
-                                                                          <span className="text-xs font-medium">{nestedPropName}</span>
-                                                                          <Badge variant="outline" className="text-[10px] h-4">
-                                                                            {nestedPropValue.type || "any"}
-                                                                          </Badge>
-                                                                          {nestedPropValue.nullable && (
-                                                                            <Badge variant="secondary" className="text-[10px] h-4">
-                                                                              nullable
-                                                                            </Badge>
-                                                                          )}
-                                                                        </div>
-                                                                      </div>
-                                                                    ))}
-                                                                  </div>
-                                                                </div>
-                                                              )}
-                                                              {/* Handle arrays of objects */}
-                                                              {propValue.type === "array" && propValue.items && propValue.items.type === "object" && propValue.items.properties && (
-                                                                <div className="mt-1 pl-2">
-                                                                  <div className="text-xs font-medium mb-1">Array Item Properties:</div>
-                                                                  <div className="space-y-1">
-                                                                    {Object.entries(propValue.items.properties).map(([arrayPropName, arrayPropValue]: [string, any]) => (
-                                                                      <div key={arrayPropName} className="border-l border-gray-200 pl-2">
-                                                                        <div className="flex items-center gap-1">
-                                                                          <span className="text-xs font-medium">{arrayPropName}</span>
-                                                                          <Badge variant="outline" className="text-[10px] h-4">
-                                                                            {arrayPropValue.type || "any"}
-                                                                          </Badge>
-                                                                          {arrayPropValue.nullable && (
-                                                                            <Badge variant="secondary" className="text-[10px] h-4">
-                                                                              nullable
-                                                                            </Badge>
-                                                                          )}
-                                                                        </div>
-                                                                      </div>
-                                                                    ))}
-                                                                  </div>
-                                                                </div>
-                                                              )}
-                                                            </div>
-                                                          ))}
-                                                        </div>
-                                                      ) : (
-                                                        <pre className="bg-gray-100 p-2 rounded text-xs overflow-x-auto">
-                                                          {JSON.stringify(schema, null, 2)}
-                                                        </pre>
-                                                      )}
-                                                    </div>
-                                                  )}
-                                                </div>
-                                              );
-                                            })()
-                                          ) : (
-                                            <pre className="bg-gray-100 p-2 rounded text-xs overflow-x-auto">
-                                              {JSON.stringify(methodInfo.requestBody, null, 2)}
-                                            </pre>
+                                          {schema && (
+                                            <div>
+                                              {/* Display schema properties directly */}
+                                              {schema.properties || isUnexpandedRef(schema) || getSchemaVariants(schema) ? (
+                                                <SchemaProperties
+                                                  schema={schema}
+                                                  spec={spec}
+                                                  variantSelections={variantSelections[`${selectedMethod} ${path}`]}
+                                                  onSelectVariant={(location, index) => selectVariant(`${selectedMethod} ${path}`, location, index)}
+                                                />
+                                              ) : (
+                                                <pre className="bg-gray-100 p-2 rounded text-xs overflow-x-auto">
+                                                  {JSON.stringify(schema, null, 2)}
+                                                </pre>
+                                              )}
+                                            </div>
                                           )}
                                         </div>
-                                      )}
+                                      );
+                                    })()
+                                  ) : (
+                                    <pre className="bg-gray-100 p-2 rounded text-xs overflow-x-auto">
+                                      {JSON.stringify(methodInfo.requestBody, null, 2)}
+                                    </pre>
+                                  )}
+                                </div>
+                              )}
 
-                                      {/* Responses */}
-                                      {Object.keys(methodInfo.responses).length > 0 && (
-                                        <div>
-                                          <h3 className="text-sm font-semibold mb-1">Responses:</h3>
-                                          <div className="space-y-2">
-                                            {Object.entries(methodInfo.responses).map(([code, response]) => (
-                                              <div key={code} className="border rounded p-2">
-                                                <div className="font-semibold">
-                                                  Status Code: {code}
-                                                  {response.description && (
-                                                    <span className="ml-2 font-normal text-gray-500">
-                                                      {response.description}
-                                                    </span>
-                                                  )}
-                                                </div>
-                                              </div>
+                              {/* Responses */}
+                              {Object.keys(methodInfo.responses).length > 0 && (
+                                <div>
+                                  <h3 className="text-sm font-semibold mb-1">Responses:</h3>
+                                  <div className="space-y-2">
+                                    {Object.entries(methodInfo.responses).map(([code, response]) => (
+                                      <div key={code} className="border rounded p-2">
+                                        <div className="font-semibold">
+                                          Status Code: {code}
+                                          {response.description && (
+                                            <span className="ml-2 font-normal text-gray-500">
+                                              {response.description}
+                                            </span>
+                                          )}
+                                        </div>
+                                        {response.content && Object.keys(response.content).length > 0 && (
+                                          <div className="flex flex-wrap gap-1 mt-1">
+                                            {Object.keys(response.content).map(contentType => (
+                                              <Badge key={contentType} variant="outline" className="text-xs">
+                                                {contentType}
+                                              </Badge>
                                             ))}
                                           </div>
+                                        )}
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+
+                              {/* Security Requirements */}
+                              {methodInfo.security && (
+                                <div>
+                                  <h3 className="text-sm font-semibold mb-1">Security:</h3>
+                                  {methodInfo.security.length === 0 ? (
+                                    <p className="text-sm text-gray-500">No authentication required</p>
+                                  ) : (
+                                    <div className="space-y-1">
+                                      {methodInfo.security.map((requirement, index) => (
+                                        <div key={index} className="flex flex-wrap gap-1">
+                                          {Object.entries(requirement).map(([schemeName, scopes]) => (
+                                            <Badge key={schemeName} variant="outline" className="text-xs">
+                                              {schemeName}
+                                              {scopes.length > 0 && `: ${scopes.join(", ")}`}
+                                            </Badge>
+                                          ))}
                                         </div>
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
+                              )}
+
+                              {/* Extensions */}
+                              {methodInfo.extensions && (
+                                <div>
+                                  <h3 className="text-sm font-semibold mb-1">Extensions:</h3>
+                                  <pre className="bg-gray-100 p-2 rounded text-xs overflow-x-auto">
+                                    {JSON.stringify(methodInfo.extensions, null, 2)}
+                                  </pre>
+                                </div>
+                              )}
+
+                              {/* Servers declared on the path or operation */}
+                              {(() => {
+                                const details = getEndpointDetails(path, info);
+                                const { servers, level } = getEffectiveServers(spec, details, methodInfo);
+                                if (level === "document" || serverSelection?.custom) return null;
+
+                                const selectionKey = `${selectedMethod} ${path}`;
+                                return (
+                                  <div>
+                                    <h3 className="text-sm font-semibold mb-1">
+                                      {level === "operation" ? "Operation Servers:" : "Path Servers:"}
+                                    </h3>
+                                    <ServerPicker
+                                      servers={servers}
+                                      selection={operationServerSelections[selectionKey] ?? null}
+                                      specUrl={specUrl}
+                                      onChange={(selection) => setOperationServerSelections(prev => ({ ...prev, [selectionKey]: selection }))}
+                                    />
+                                  </div>
+                                );
+                              })()}
+
+                              {/* Try It */}
+                              <div>
+                                <button
+                                  type="button"
+                                  className="flex items-center text-sm font-semibold"
+                                  onClick={() => setIsTryItOpen(!isTryItOpen)}
+                                >
+                                  {isTryItOpen ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                                  Try it
+                                </button>
+                                {isTryItOpen && (
+                                  <div className="mt-2 border rounded p-3">
+                                    <TryItPanel
+                                      key={`${selectedMethod} ${path}`}
+                                      baseUrl={getOperationBaseUrl(
+                                        spec,
+                                        getServerSelection(path, selectedMethod, getEndpointDetails(path, info)),
+                                        specUrl,
+                                        getEndpointDetails(path, info),
+                                        methodInfo
                                       )}
+                                      path={path}
+                                      method={selectedMethod}
+                                      methodInfo={methodInfo}
+                                      security={getOperationSecurity(spec, methodInfo)}
+                                      securitySchemes={securitySchemes}
+                                      credentials={credentials}
+                                      onCredentialsChange={updateCredentials}
+                                      variants={variantSelections[`${selectedMethod} ${path}`]}
+                                    />
+                                  </div>
+                                )}
+                              </div>
 
-                                      {/* Copy JSON Button */}
-                                      <div className="flex justify-end pt-4 border-t">
-                                        <Button
-                                          onClick={() => {
-                                            const endpointData = {
-                                              endpoint: path,
-                                              methods: {
-                                                [selectedMethod]: simplifyMethodInfoForCopy(methodInfo)
-                                              }
-                                            };
-
-                                            navigator.clipboard.writeText(JSON.stringify(endpointData, null, 2))
-                                              .then(() => {
-                                                if (typeof window !== 'undefined' && window.toast) {
-                                                  window.toast.success("Endpoint information copied to clipboard!");
-                                                }
-                                              })
-                                              .catch((err) => {
-                                                console.error("Failed to copy to clipboard:", err);
-                                                if (typeof window !== 'undefined' && window.toast) {
-                                                  window.toast.error("Failed to copy to clipboard");
-                                                }
-                                              });
-                                          }}
-                                          className="gap-2"
-                                        >
-                                          <Copy className="h-4 w-4" />
-                                          Copy JSON
-                                        </Button>
-                                      </div>
-                                    </>
-                                  );
-                                })()}
+                              {/* Copy JSON and code snippet buttons */}
+                              <div className="flex justify-end gap-2 pt-4 border-t">
+                                <Button
+                                  onClick={() => {
+                                    const endpointData = {
+                                      endpoint: path,
+                                      url: getOperationUrl(path, selectedMethod, getEndpointDetails(path, info)),
+                                      methods: {
+                                        [selectedMethod]: getMethodCopyData(path, selectedMethod, methodInfo)
+                                      }
+                                    };
+
+                                    navigator.clipboard.writeText(JSON.stringify(endpointData, null, 2))
+                                      .then(() => {
+                                        if (typeof window !== 'undefined' && window.toast) {
+                                          window.toast.success("Endpoint information copied to clipboard!");
+                                        }
+                                      })
+                                      .catch((err) => {
+                                        console.error("Failed to copy to clipboard:", err);
+                                        if (typeof window !== 'undefined' && window.toast) {
+                                          window.toast.error("Failed to copy to clipboard");
+                                        }
+                                      });
+                                  }}
+                                  className="gap-2"
+                                >
+                                  <Copy className="h-4 w-4" />
+                                  Copy JSON
+                                </Button>
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button variant="outline" className="gap-2">
+                                      <Code className="h-4 w-4" />
+                                      Copy as…
+                                      <ChevronDown className="h-4 w-4" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    {SNIPPET_LANGUAGES.map(({ id, label }) => (
+                                      <DropdownMenuItem
+                                        key={id}
+                                        onSelect={() => copySnippet(id, label, path, selectedMethod, methodInfo, getEndpointDetails(path, info))}
+                                      >
+                                        {label}
+                                      </DropdownMenuItem>
+                                    ))}
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
                               </div>
-                            </div>
-                          )}
-                        </li>
-                      ))}
-                    </ul>
+                            </>
+                          );
+                        })()}
+                      </div>
+                    </div>
                   )}
                 </div>
               );
@@ -0,0 +1,221 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import { KeyRound } from "lucide-react";
+import {
+  canRenewToken,
+  getOAuthRedirectUri,
+  getSupportedFlows,
+  isTokenExpired,
+  needsClientSecret,
+  obtainToken,
+  type OAuthGrant,
+  type OAuthSettings
+} from "@/lib/oauth";
+import type { SchemeCredentials, SecurityScheme } from "@/lib/security";
+
+interface OAuthFlowFormProps {
+  scheme: Extract<SecurityScheme, { type: "oauth2" }>;
+  value: SchemeCredentials;
+  onChange: (value: SchemeCredentials) => void;
+}
+
+const FLOW_LABELS: Record<OAuthGrant, string> = {
+  authorizationCode: "Authorization code (PKCE)",
+  clientCredentials: "Client credentials",
+  password: "Password"
+};
+
+function describeExpiry(value: SchemeCredentials): string | null {
+  const expiresAt = value.oauth?.expiresAt;
+  if (!value.value || expiresAt === undefined) return null;
+
+  if (isTokenExpired(value)) {
+    if (needsClientSecret(value)) {
+      return "Token expired; enter the client secret again to get a new one";
+    }
+    return canRenewToken(value)
+      ? "Token expired; it is renewed before the next request"
+      : "Token expired; get a new one";
+  }
+  const minutes = Math.max(1, Math.round((expiresAt - Date.now()) / 60000));
+  return `Token expires in ${minutes} min${canRenewToken(value) ? ", then renews automatically" : ""}`;
+}
+
+// Get an access token with one of an oauth2 scheme's flows, choosing the scopes to request
+export function OAuthFlowForm({ scheme, value, onChange }: OAuthFlowFormProps) {
+  const flows = getSupportedFlows(scheme);
+  // Start from the settings the current token was obtained with
+  const [settings, setSettings] = useState<OAuthSettings>(() => {
+    const previous = value.oauth && flows.includes(value.oauth.flow) ? value.oauth : null;
+    return {
+      flow: previous?.flow ?? flows[0],
+      clientId: previous?.clientId ?? "",
+      clientSecret: previous?.clientSecret ?? "",
+      scopes: previous?.scopes ?? [],
+      clientAuthentication: previous?.clientAuthentication ?? "basic"
+    };
+  });
+  const [login, setLogin] = useState({ username: "", password: "" });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [received, setReceived] = useState(false);
+
+  const unsupported = Object.keys(scheme.flows).filter(name => !flows.includes(name as OAuthGrant));
+  if (flows.length === 0) {
+    return (
+      <p className="text-xs text-gray-500">
+        {unsupported.length > 0 ? `The ${unsupported.join(", ")} flow is not supported; ` : ""}
+        paste an access token below.
+      </p>
+    );
+  }
+
+  const flow = scheme.flows[settings.flow];
+  const scopes = Object.entries(flow.scopes || {});
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      scopes: checked ? [...prev.scopes, scope] : prev.scopes.filter(item => item !== scope)
+    }));
+  };
+
+  const handleGetToken = async () => {
+    setError(null);
+    setReceived(false);
+    if (!settings.clientId.trim()) {
+      setError("Enter a client ID");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // Only request scopes this flow declares, in case the flow was switched
+      const requested = {
+        ...settings,
+        clientId: settings.clientId.trim(),
+        scopes: settings.scopes.filter(scope => scope in (flow.scopes || {}))
+      };
+      onChange(await obtainToken(flow, requested, login));
+      setReceived(true);
+    } catch (err) {
+      console.error("Error getting OAuth2 token:", err instanceof Error ? err.message : err);
+      setError(err instanceof Error ? err.message : "Failed to get a token");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const expiry = describeExpiry(value);
+
+  return (
+    <div className="space-y-2">
+      {flows.length > 1 && (
+        <select
+          className="w-full p-2 border rounded bg-background text-sm"
+          value={settings.flow}
+          onChange={(e) => setSettings(prev => ({ ...prev, flow: e.target.value as OAuthGrant }))}
+        >
+          {flows.map(name => (
+            <option key={name} value={name}>{FLOW_LABELS[name]}</option>
+          ))}
+        </select>
+      )}
+      <p className="font-mono text-xs text-gray-500 break-all">
+        {flows.length === 1 && <span className="font-sans font-semibold">{FLOW_LABELS[settings.flow]}: </span>}
+        {flow.authorizationUrl && settings.flow === "authorizationCode" && <>{flow.authorizationUrl}<br /></>}
+        {flow.tokenUrl}
+      </p>
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Client ID"
+          autoComplete="off"
+          value={settings.clientId}
+          onChange={(e) => setSettings(prev => ({ ...prev, clientId: e.target.value }))}
+          className="text-sm"
+        />
+        <Input
+          placeholder={settings.flow === "authorizationCode" ? "Client secret (optional)" : "Client secret"}
+          type="password"
+          autoComplete="off"
+          value={settings.clientSecret ?? ""}
+          onChange={(e) => setSettings(prev => ({ ...prev, clientSecret: e.target.value }))}
+          className="text-sm"
+        />
+      </div>
+
+      {settings.clientSecret && (
+        <select
+          className="w-full p-2 border rounded bg-background text-sm"
+          value={settings.clientAuthentication}
+          onChange={(e) => setSettings(prev => ({ ...prev, clientAuthentication: e.target.value as "basic" | "body" }))}
+        >
+          <option value="basic">Send client credentials in a Basic auth header</option>
+          <option value="body">Send client credentials in the request body</option>
+        </select>
+      )}
+
+      {settings.flow === "password" && (
+        <div className="flex gap-2">
+          <Input
+            placeholder="Username"
+            autoComplete="off"
+            value={login.username}
+            onChange={(e) => setLogin(prev => ({ ...prev, username: e.target.value }))}
+            className="text-sm"
+          />
+          <Input
+            placeholder="Password"
+            type="password"
+            autoComplete="off"
+            value={login.password}
+            onChange={(e) => setLogin(prev => ({ ...prev, password: e.target.value }))}
+            className="text-sm"
+          />
+        </div>
+      )}
+
+      {scopes.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm text-gray-500">Scopes</p>
+          {scopes.map(([scope, description]) => (
+            <label key={scope} className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={settings.scopes.includes(scope)}
+                onChange={(e) => toggleScope(scope, e.target.checked)}
+              />
+              <span>
+                <span className="font-mono">{scope}</span>
+                {description && <span className="text-gray-500"> — {description}</span>}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {settings.flow === "authorizationCode" && (
+        <p className="text-xs text-gray-500 break-all">
+          Register <span className="font-mono">{getOAuthRedirectUri()}</span> as the client&apos;s redirect URI.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="secondary" size="sm" onClick={handleGetToken} disabled={isLoading} className="gap-1">
+          {isLoading ? <Spinner className="h-4 w-4" /> : <KeyRound className="h-4 w-4" />}
+          Get Token
+        </Button>
+        {received && <span className="text-xs text-green-600">Token received; Apply to use it</span>}
+        {!received && expiry && <span className="text-xs text-gray-500">{expiry}</span>}
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Eye, EyeOff, Plus, X } from "lucide-react";
+import {
+  type HeaderPair,
+  isSensitiveHeader,
+  loadHostHeaders,
+  saveHostHeaders
+} from "@/lib/request-headers";
+
+interface RequestHeadersPanelProps {
+  // Host of the spec URL; headers are remembered per host
+  host: string | null;
+}
+
+export function RequestHeadersPanel({ host }: RequestHeadersPanelProps) {
+  const [headers, setHeaders] = useState<HeaderPair[]>([]);
+  const [revealed, setRevealed] = useState<Record<number, boolean>>({});
+
+  // Load the headers remembered for the current host whenever it changes
+  useEffect(() => {
+    setHeaders(host ? loadHostHeaders(host) : []);
+    setRevealed({});
+  }, [host]);
+
+  const updateHeaders = (nextHeaders: HeaderPair[]) => {
+    setHeaders(nextHeaders);
+    if (host) {
+      saveHostHeaders(host, nextHeaders);
+    }
+  };
+
+  const updateHeader = (index: number, field: keyof HeaderPair, value: string) => {
+    updateHeaders(headers.map((header, i) => (i === index ? { ...header, [field]: value } : header)));
+  };
+
+  const removeHeader = (index: number) => {
+    updateHeaders(headers.filter((_, i) => i !== index));
+    setRevealed({});
+  };
+
+  if (!host) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Enter a valid URL to configure headers for its host.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-xs text-muted-foreground text-left">
+        Sent with every request to <span className="font-mono">{host}</span> (e.g. Authorization, X-API-Key, Cookie)
+      </p>
+      {headers.map((header, index) => {
+        const isMasked = isSensitiveHeader(header.key) && !revealed[index];
+
+        return (
+          <div key={index} className="flex gap-2">
+            <Input
+              placeholder="Header name"
+              value={header.key}
+              onChange={(e) => updateHeader(index, "key", e.target.value)}
+              className="w-1/3 font-mono text-sm"
+            />
+            <Input
+              placeholder="Value"
+              type={isMasked ? "password" : "text"}
+              autoComplete="off"
+              value={header.value}
+              onChange={(e) => updateHeader(index, "value", e.target.value)}
+              className="flex-1 font-mono text-sm"
+            />
+            {isSensitiveHeader(header.key) && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setRevealed({ ...revealed, [index]: !revealed[index] })}
+                title={isMasked ? "Show value" : "Hide value"}
+              >
+                {isMasked ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removeHeader(index)}
+              title="Remove header"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => updateHeaders([...headers, { key: "", value: "" }])}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add Header
+        </Button>
+      </div>
+    </div>
+  );
+}
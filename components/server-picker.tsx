@@ -0,0 +1,105 @@
+"use client";
+
+import React from "react";
+import { Input } from "@/components/ui/input";
+import type { ServerObject } from "@/lib/openapi";
+import {
+  findSelectedServer,
+  getServerVariableValue,
+  resolveServerUrl,
+  type ServerSelection
+} from "@/lib/servers";
+
+interface ServerPickerProps {
+  servers: ServerObject[];
+  selection: ServerSelection | null;
+  // URL the spec was loaded from; relative server URLs are resolved against it
+  specUrl?: string;
+  onChange: (selection: ServerSelection) => void;
+  label?: string;
+}
+
+const CUSTOM_SERVER = "__custom__";
+
+// Pick one of the spec's servers (or a custom base URL) and fill in its variables
+export function ServerPicker({ servers, selection, specUrl, onChange, label = "Server" }: ServerPickerProps) {
+  const server = findSelectedServer(servers, selection);
+  const variables = selection?.variables ?? {};
+  const resolvedUrl = resolveServerUrl(server, variables, specUrl);
+
+  const handleServerChange = (value: string) => {
+    if (value === CUSTOM_SERVER) {
+      // Start from the URL currently in use so it only needs editing
+      onChange({ url: resolvedUrl, variables: {}, custom: true });
+    } else {
+      onChange({ url: value, variables });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col md:flex-row md:items-center gap-2">
+        <label className="text-sm text-gray-500 shrink-0">{label}</label>
+        <select
+          className="w-full min-w-0 p-2 border rounded bg-background text-sm font-mono"
+          value={selection?.custom ? CUSTOM_SERVER : server.url}
+          onChange={(e) => handleServerChange(e.target.value)}
+        >
+          {servers.map((candidate) => (
+            <option key={candidate.url} value={candidate.url}>
+              {candidate.url}{candidate.description ? ` — ${candidate.description}` : ""}
+            </option>
+          ))}
+          <option value={CUSTOM_SERVER}>Custom URL…</option>
+        </select>
+      </div>
+
+      {selection?.custom ? (
+        <Input
+          value={selection.url}
+          onChange={(e) => onChange({ url: e.target.value, variables: {}, custom: true })}
+          placeholder="https://api.example.com"
+          className="font-mono text-sm"
+        />
+      ) : (
+        server.variables && Object.keys(server.variables).length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {Object.entries(server.variables).map(([name, variable]) => {
+              const value = getServerVariableValue(server, name, variables);
+              const setValue = (nextValue: string) =>
+                onChange({ url: server.url, variables: { ...variables, [name]: nextValue } });
+
+              return (
+                <div key={name} className="flex items-center gap-2" title={variable.description}>
+                  <span className="font-mono text-xs shrink-0">{`{${name}}`}</span>
+                  {variable.enum && variable.enum.length > 0 ? (
+                    <select
+                      className="w-full p-1.5 border rounded bg-background text-sm"
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                    >
+                      {variable.enum.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <Input
+                      value={variables[name] ?? ""}
+                      onChange={(e) => setValue(e.target.value)}
+                      placeholder={variable.default}
+                      className="h-8 text-sm"
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )
+      )}
+
+      {!selection?.custom && resolvedUrl && (
+        <p className="font-mono text-xs text-gray-500 break-all">{resolvedUrl}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Spinner } from "@/components/ui/spinner";
+import { getMethodColor } from "@/components/endpoint-list";
+import { ArrowRight, Upload } from "lucide-react";
+import { isOpenAPIDocument, type OpenAPISpec } from "@/lib/openapi";
+import { diffSpecsInWorker, parseSpecTextInWorker } from "@/lib/spec-worker";
+import type { OperationDiff, SpecDiff } from "@/lib/spec-diff";
+import type { WorkspaceEntry } from "@/lib/workspace";
+
+// A workspace spec that can be compared; only loaded specs (spec != null) can be picked directly
+export type ComparableSpec = WorkspaceEntry & {
+  spec: OpenAPISpec | null;
+};
+
+interface SpecCompareProps {
+  specs: ComparableSpec[];
+  // Spec compared against by default, usually the active one
+  initialBaseId: string | null;
+  // Fetch the current version of a URL spec, bypassing the copy loaded in the workspace
+  onFetchLatest: (url: string) => Promise<OpenAPISpec>;
+  onClose: () => void;
+}
+
+type Side = "base" | "target";
+
+// What a side of the comparison uses: "open:<id>" a loaded workspace spec,
+// "latest:<id>" a fresh fetch of a URL spec, "file" a document uploaded for the comparison
+type SideChoice = string;
+
+const STATUS_STYLES: Record<OperationDiff["status"], string> = {
+  added: "bg-green-100 text-green-800 border-green-200",
+  removed: "bg-red-100 text-red-800 border-red-200",
+  changed: "bg-yellow-100 text-yellow-800 border-yellow-200"
+};
+
+function getDefaultChoices(specs: ComparableSpec[], initialBaseId: string | null): Record<Side, SideChoice> {
+  const loaded = specs.filter(spec => spec.spec);
+  const base = loaded.find(spec => spec.id === initialBaseId) ?? loaded[0];
+  if (!base) {
+    return { base: "file", target: "file" };
+  }
+
+  // Compare a fetched spec with its current version, anything else with another open spec
+  const other = loaded.find(spec => spec.id !== base.id);
+  const target = base.source.kind === "url" ? `latest:${base.id}` : other ? `open:${other.id}` : "file";
+  return { base: `open:${base.id}`, target };
+}
+
+// Compare two versions of a spec: added, removed and changed operations, with breaking changes flagged
+export function SpecCompare({ specs, initialBaseId, onFetchLatest, onClose }: SpecCompareProps) {
+  const [choices, setChoices] = useState<Record<Side, SideChoice>>(() => getDefaultChoices(specs, initialBaseId));
+  const [files, setFiles] = useState<Partial<Record<Side, { name: string; spec: OpenAPISpec }>>>({});
+  const [diff, setDiff] = useState<SpecDiff | null>(null);
+  const [labels, setLabels] = useState<Record<Side, string> | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [breakingOnly, setBreakingOnly] = useState(false);
+
+  const describeChoice = (side: Side, choice: SideChoice): string => {
+    if (choice === "file") {
+      return files[side]?.name ?? "Uploaded file";
+    }
+    const spec = specs.find(candidate => candidate.id === choice.slice(choice.indexOf(":") + 1));
+    if (!spec) return choice;
+    return choice.startsWith("latest:") ? `${spec.title} (latest)` : spec.title;
+  };
+
+  // Get the document a side stands for, fetching the latest version when asked to
+  const resolveChoice = async (side: Side): Promise<OpenAPISpec> => {
+    const choice = choices[side];
+    if (choice === "file") {
+      const file = files[side];
+      if (!file) throw new Error(`Choose a file for the ${side === "base" ? "old" : "new"} version`);
+      return file.spec;
+    }
+
+    const id = choice.slice(choice.indexOf(":") + 1);
+    const spec = specs.find(candidate => candidate.id === id);
+    if (!spec) throw new Error("The selected specification is no longer open");
+
+    if (choice.startsWith("latest:")) {
+      if (spec.source.kind !== "url") throw new Error(`${spec.title} was not loaded from a URL`);
+      return onFetchLatest(spec.source.url);
+    }
+
+    if (!spec.spec) throw new Error(`Open ${spec.title} before comparing it`);
+    return spec.spec;
+  };
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    setError(null);
+
+    try {
+      const [base, target] = await Promise.all([resolveChoice("base"), resolveChoice("target")]);
+      // Every operation of both specs is resolved, so the comparison runs in the spec worker
+      setDiff(await diffSpecsInWorker(base, target));
+      setLabels({ base: describeChoice("base", choices.base), target: describeChoice("target", choices.target) });
+    } catch (err) {
+      console.error("Error comparing specifications:", err);
+      setError(err instanceof Error ? err.message : "Failed to compare specifications");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  // Use a single JSON or YAML file as one side of the comparison
+  const handleFileChange = async (side: Side, file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+
+    try {
+      const document = await parseSpecTextInWorker(await file.text(), { fileName: file.name });
+      if (!isOpenAPIDocument(document)) {
+        throw new Error(`${file.name} is not an OpenAPI/Swagger document`);
+      }
+      setFiles(prev => ({ ...prev, [side]: { name: file.name, spec: document } }));
+      setChoices(prev => ({ ...prev, [side]: "file" }));
+    } catch (err) {
+      console.error("Error reading file for comparison:", err);
+      setError(err instanceof Error ? err.message : `Failed to read ${file.name}`);
+    }
+  };
+
+  const renderSide = (side: Side) => (
+    <div className="flex-1 min-w-0">
+      <Label className="mb-1 block text-sm text-gray-500">{side === "base" ? "Old version" : "New version"}</Label>
+      <div className="flex gap-2">
+        <select
+          className="w-full min-w-0 p-2 border rounded bg-background text-sm"
+          value={choices[side]}
+          onChange={(e) => setChoices(prev => ({ ...prev, [side]: e.target.value }))}
+        >
+          {specs.map(spec => (
+            <option key={`open:${spec.id}`} value={`open:${spec.id}`} disabled={!spec.spec}>
+              {spec.title}{spec.spec ? "" : " (not loaded)"}
+            </option>
+          ))}
+          {specs.filter(spec => spec.source.kind === "url").map(spec => (
+            <option key={`latest:${spec.id}`} value={`latest:${spec.id}`}>
+              {spec.title} (latest from server)
+            </option>
+          ))}
+          <option value="file" disabled={!files[side]}>
+            {files[side] ? files[side].name : "Uploaded file"}
+          </option>
+        </select>
+        <Button variant="outline" size="icon" asChild title="Compare a file">
+          <label className="cursor-pointer">
+            <Upload className="h-4 w-4" />
+            <input
+              type="file"
+              accept=".json,.yaml,.yml"
+              className="hidden"
+              onChange={(e) => {
+                handleFileChange(side, e.target.files?.[0]);
+                // Reset so choosing the same file again triggers another change event
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </Button>
+      </div>
+    </div>
+  );
+
+  const operations = (diff?.operations ?? [])
+    .map(operation => (breakingOnly
+      ? { ...operation, changes: operation.changes.filter(change => change.breaking) }
+      : operation))
+    .filter(operation => !breakingOnly || operation.changes.length > 0);
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-xl">Compare Specifications</CardTitle>
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col md:flex-row md:items-end gap-3">
+          {renderSide("base")}
+          <ArrowRight className="hidden md:block h-5 w-5 mb-2.5 shrink-0 text-gray-400" />
+          {renderSide("target")}
+          <Button onClick={handleCompare} disabled={isComparing}>
+            {isComparing ? <Spinner size="sm" /> : "Compare"}
+          </Button>
+        </div>
+
+        {error && <p className="mt-3 text-sm text-red-500">{error}</p>}
+
+        {diff && labels && (
+          <div className="mt-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-500">
+                  {labels.base} → {labels.target}:
+                </span>
+                <Badge variant={diff.summary.breaking > 0 ? "destructive" : "outline"}>
+                  {diff.summary.breaking} breaking
+                </Badge>
+                <Badge variant="outline" className={STATUS_STYLES.added}>{diff.summary.added} added</Badge>
+                <Badge variant="outline" className={STATUS_STYLES.removed}>{diff.summary.removed} removed</Badge>
+                <Badge variant="outline" className={STATUS_STYLES.changed}>{diff.summary.changed} changed</Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="breaking-only" checked={breakingOnly} onCheckedChange={setBreakingOnly} />
+                <Label htmlFor="breaking-only" className="text-sm">Breaking changes only</Label>
+              </div>
+            </div>
+
+            {operations.length === 0 ? (
+              <p className="text-center text-gray-500 p-4">
+                {breakingOnly ? "No breaking changes" : "No differences between the operations"}
+              </p>
+            ) : (
+              <ul className="divide-y border rounded">
+                {operations.map(operation => (
+                  <li key={`${operation.method} ${operation.endpoint}`} className="p-3">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge className={getMethodColor(operation.method)}>{operation.method}</Badge>
+                      <span className="font-mono text-sm truncate">{operation.endpoint}</span>
+                      <Badge variant="outline" className={`text-xs ${STATUS_STYLES[operation.status]}`}>
+                        {operation.status}
+                      </Badge>
+                    </div>
+                    {operation.changes.length > 0 && (
+                      <ul className="mt-2 ml-2 space-y-1 text-sm">
+                        {operation.changes.map((change, index) => (
+                          <li key={index} className="flex flex-wrap items-center gap-2">
+                            {change.breaking && (
+                              <Badge variant="destructive" className="text-xs">Breaking</Badge>
+                            )}
+                            <span className="font-mono text-xs text-gray-500">{change.location}</span>
+                            <span>{change.message}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { DiscoveredSpec } from "@/lib/discovery";
+
+interface SpecPickerProps {
+  url: string;
+  specs: DiscoveredSpec[];
+  onSelect: (specUrl: string) => void;
+  onCancel: () => void;
+}
+
+export function SpecPicker({ url, specs, onSelect, onCancel }: SpecPickerProps) {
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-xl">Multiple Specifications Found</CardTitle>
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-4 text-sm text-gray-500">
+          <p>The address does not point at a single OpenAPI document. Choose the one to load:</p>
+          <p className="mt-1 font-medium text-gray-700">{url}</p>
+        </div>
+
+        <ul className="divide-y border rounded">
+          {specs.map((spec) => (
+            <li key={spec.url} className="p-3 flex items-center justify-between gap-4 hover:bg-gray-50">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{spec.name || "Unnamed specification"}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {spec.source}
+                  </Badge>
+                </div>
+                <p className="font-mono text-xs text-gray-500 truncate">{spec.url}</p>
+              </div>
+              <Button size="sm" onClick={() => onSelect(spec.url)}>
+                Load
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Clock, Eye, FileIcon, GitCompare, Globe, X } from "lucide-react";
+import type { RecentSpec, SpecSource, WorkspaceEntry } from "@/lib/workspace";
+
+interface SpecSwitcherProps {
+  openSpecs: WorkspaceEntry[];
+  activeSpecId: string | null;
+  recentSpecs: RecentSpec[];
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onOpenRecent: (spec: RecentSpec) => void;
+  // Open the compare view; the button is shown when this is set
+  onCompare?: () => void;
+  // Specs watched for upstream changes; URL specs get a watch toggle when onToggleWatch is set
+  watchedSpecIds?: string[];
+  onToggleWatch?: (id: string) => void;
+}
+
+function SourceIcon({ source }: { source: SpecSource }) {
+  return source.kind === "url"
+    ? <Globe className="h-3.5 w-3.5 shrink-0" />
+    : <FileIcon className="h-3.5 w-3.5 shrink-0" />;
+}
+
+// Open specs as switchable tabs, plus a menu of recently opened specs
+export function SpecSwitcher({ openSpecs, activeSpecId, recentSpecs, onSelect, onClose, onOpenRecent, onCompare, watchedSpecIds = [], onToggleWatch }: SpecSwitcherProps) {
+  const openIds = new Set(openSpecs.map(spec => spec.id));
+  const closedRecentSpecs = recentSpecs.filter(spec => !openIds.has(spec.id));
+
+  if (openSpecs.length === 0 && closedRecentSpecs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      {openSpecs.map((spec) => {
+        const isActive = spec.id === activeSpecId;
+        const isWatched = watchedSpecIds.includes(spec.id);
+
+        return (
+          <div
+            key={spec.id}
+            className={`flex items-center rounded-md border text-sm ${isActive ? "bg-accent border-primary/40" : "bg-background"}`}
+          >
+            <button
+              type="button"
+              className="flex max-w-64 items-center gap-1.5 py-1 pl-3 pr-1"
+              onClick={() => onSelect(spec.id)}
+              title={spec.source.kind === "url" ? spec.source.url : spec.title}
+            >
+              <SourceIcon source={spec.source} />
+              <span className={`truncate ${isActive ? "font-medium" : ""}`}>{spec.title}</span>
+            </button>
+            {onToggleWatch && spec.source.kind === "url" && (
+              <button
+                type="button"
+                className={`p-1 rounded hover:bg-muted ${isWatched ? "text-primary" : "text-muted-foreground hover:text-foreground"}`}
+                onClick={() => onToggleWatch(spec.id)}
+                title={isWatched ? "Stop watching for changes" : "Watch for changes"}
+                aria-pressed={isWatched}
+              >
+                <Eye className="h-3.5 w-3.5" />
+              </button>
+            )}
+            <button
+              type="button"
+              className="p-1 mr-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+              onClick={() => onClose(spec.id)}
+              title="Close specification"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        );
+      })}
+
+      {onCompare && (
+        <Button variant="ghost" size="sm" onClick={onCompare}>
+          <GitCompare className="mr-1 h-4 w-4" />
+          Compare
+        </Button>
+      )}
+
+      {closedRecentSpecs.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm">
+              <Clock className="mr-1 h-4 w-4" />
+              Recent
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="max-w-sm">
+            <DropdownMenuLabel>Recently opened</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {closedRecentSpecs.map((spec) => (
+              <DropdownMenuItem key={spec.id} onSelect={() => onOpenRecent(spec)}>
+                <SourceIcon source={spec.source} />
+                <div className="min-w-0">
+                  <div className="truncate">{spec.title}</div>
+                  {spec.source.kind === "url" && (
+                    <div className="truncate text-xs text-muted-foreground">{spec.source.url}</div>
+                  )}
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { Input } from "@/components/ui/input";
 import { Spinner } from "@/components/ui/spinner";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   FileUpload,
   FileUploadDropzone,
@@ -15,31 +17,122 @@ import {
   FileUploadItemMetadata,
   FileUploadItemDelete
 } from "@/components/ui/file-upload";
-import { FileIcon, UploadIcon } from "lucide-react";
+import { ChevronDown, ChevronRight, FileIcon, FolderIcon, UploadIcon } from "lucide-react";
+import { RequestHeadersPanel } from "@/components/request-headers-panel";
+import { getUrlHost, loadHostHeaders } from "@/lib/request-headers";
+import { getSourceSnippet, SpecParseError } from "@/lib/spec-parser";
+import { parseSpecTextInWorker } from "@/lib/spec-worker";
+import { isOpenAPIDocument } from "@/lib/openapi";
+import {
+  type StoredSpecDocument,
+  type StoredSpecInfo,
+  formatBytes,
+  getSpecStorageKey,
+  getStoredSpecInfo,
+  saveStoredSpec
+} from "@/lib/spec-storage";
+import { LOCAL_FILE_BASE } from "@/lib/external-refs";
+import type { SpecSource } from "@/lib/workspace";
+
+// Uploaded documents, keyed by their path inside the upload, used to resolve relative $refs
+export type UploadedSpecSource = {
+  baseUrl: string;
+  files: Record<string, string>;
+};
+
+// How an uploaded or pasted document is identified in the workspace and in browser storage
+export type SpecUploadOptions = {
+  storageKey: string;
+  name: string;
+  source?: UploadedSpecSource;
+};
 
 interface SwaggerUrlFormProps {
   onFetch: (url: string) => Promise<void>;
-  onFileUpload: (fileContent: any) => Promise<void>;
+  onFileUpload: (fileContent: any, options: SpecUploadOptions) => Promise<void>;
   isLoading: boolean;
+  // Source of the spec active in the workspace, reflected in the URL field and the file bar
+  activeSource?: SpecSource | null;
+  onCloseActive?: () => void;
+}
+
+// Problem found in pasted text, with the offending lines when the position is known
+type PasteDiagnostic = {
+  message: string;
+  snippet?: string;
+};
+
+const SPEC_FILE_PATTERN = /\.(json|ya?ml)$/i;
+
+// Matches a top-level `openapi:` / `swagger:` key in JSON or YAML text
+const ROOT_DOCUMENT_PATTERN = /^\s*["']?(openapi|swagger)["']?\s*:/m;
+
+/**
+ * Pick the root document of a multi-file upload: a file declaring `openapi`/`swagger`,
+ * preferring conventional names and the shallowest path
+ */
+function findRootDocument(files: Record<string, string>): string | null {
+  const candidates = Object.keys(files).filter(path => ROOT_DOCUMENT_PATTERN.test(files[path]));
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const score = (path: string) =>
+    path.split("/").length * 10 - (/(^|\/)(openapi|swagger|api)\.[^/]+$/i.test(path) ? 5 : 0);
+
+  return candidates.sort((a, b) => score(a) - score(b) || a.localeCompare(b))[0];
 }
 
-export function SwaggerUrlForm({ onFetch, onFileUpload, isLoading }: SwaggerUrlFormProps) {
+export function SwaggerUrlForm({ onFetch, onFileUpload, isLoading, activeSource = null, onCloseActive }: SwaggerUrlFormProps) {
   const [url, setUrl] = useState<string>("");
   const [activeTab, setActiveTab] = useState<string>("url");
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [storedSpec, setStoredSpec] = useState<StoredSpecInfo | null>(null);
+  const [showHeaders, setShowHeaders] = useState(false);
+  const [pastedText, setPastedText] = useState<string>("");
+  const [pasteDiagnostic, setPasteDiagnostic] = useState<PasteDiagnostic | null>(null);
+  const urlHost = getUrlHost(url);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
-  // Load the last used URL from localStorage on component mount and fetch it if it exists
-  const initialFetchRef = useRef(false);
+  // React does not know the non-standard directory picker attribute, so set it directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  const activeUrl = activeSource?.kind === "url" ? activeSource.url : null;
+  const activeStoredKey = activeSource?.kind === "stored" ? activeSource.key : null;
+
+  // Show the URL of the active spec when switching between specs
+  useEffect(() => {
+    if (activeUrl) {
+      setUrl(activeUrl);
+    }
+  }, [activeUrl]);
 
+  // Show the stored document behind the active spec, if any
   useEffect(() => {
-    const savedUrl = localStorage.getItem("swagger-url");
-    if (savedUrl && !initialFetchRef.current) {
-      setUrl(savedUrl);
-      // Auto-fetch the URL if it exists in localStorage, but only once
-      onFetch(savedUrl);
-      initialFetchRef.current = true;
+    if (!activeStoredKey) {
+      setStoredSpec(null);
+      return;
+    }
+
+    getStoredSpecInfo(activeStoredKey)
+      .then(setStoredSpec)
+      .catch(() => setStoredSpec(null));
+  }, [activeStoredKey]);
+
+  // Save a spec so it can be reopened later, warning when the browser refuses to keep it
+  const rememberSpec = async (key: string, name: string, document: StoredSpecDocument) => {
+    try {
+      setStoredSpec(await saveStoredSpec(key, name, document));
+    } catch (error) {
+      console.error("Error saving specification:", error);
+      if (typeof window !== 'undefined' && window.toast) {
+        window.toast.warning("The specification is loaded but won't be restored on your next visit", {
+          description: error instanceof Error ? error.message : undefined
+        });
+      }
     }
-  }, []); // Empty dependency array to ensure it only runs once
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,25 +140,54 @@ export function SwaggerUrlForm({ onFetch, onFileUpload, isLoading }: SwaggerUrlF
     if (activeTab === "url") {
       if (!url.trim()) return;
 
-      // Save URL to localStorage
-      localStorage.setItem("swagger-url", url);
-
-      // Call the onFetch callback with the URL
+      // Call the onFetch callback with the URL; the workspace remembers it
       await onFetch(url);
     }
   };
 
-  const readFileAsJson = (file: File): Promise<any> => {
+  const handlePasteSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pastedText.trim() || isLoading) return;
+
+    let content: any;
+    try {
+      content = await parseSpecTextInWorker(pastedText);
+    } catch (error) {
+      if (error instanceof SpecParseError) {
+        setPasteDiagnostic({
+          message: error.message,
+          snippet: error.line !== undefined ? getSourceSnippet(pastedText, error.line, error.column) : undefined
+        });
+      } else {
+        setPasteDiagnostic({ message: error instanceof Error ? error.message : String(error) });
+      }
+      return;
+    }
+
+    // Same check handleFileUpload applies, reported here so the text can be fixed in place
+    if (!isOpenAPIDocument(content)) {
+      setPasteDiagnostic({
+        message: "The text parsed, but it is not an OpenAPI/Swagger document: expected a top-level `openapi`, `swagger` or `paths` key"
+      });
+      return;
+    }
+
+    setPasteDiagnostic(null);
+
+    // Remember the pasted text like an uploaded file so it is restored on the next visit
+    const name = "Pasted specification";
+    const storageKey = getSpecStorageKey("paste");
+    await rememberSpec(storageKey, name, { text: pastedText });
+
+    await onFileUpload(content, { storageKey, name });
+  };
+
+  const readFileAsText = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
 
       reader.onload = (event) => {
-        try {
-          const json = JSON.parse(event.target?.result as string);
-          resolve(json);
-        } catch (error) {
-          reject(new Error("Invalid JSON file"));
-        }
+        resolve(event.target?.result as string);
       };
 
       reader.onerror = () => reject(new Error("Error reading file"));
@@ -75,48 +197,88 @@ export function SwaggerUrlForm({ onFetch, onFileUpload, isLoading }: SwaggerUrlF
   };
 
   const handleFileAccept = async (files: File[]) => {
-    if (files.length === 0 || isLoading) return;
+    const specFiles = files.filter(file => SPEC_FILE_PATTERN.test(file.name) || files.length === 1);
+    if (specFiles.length === 0 || isLoading) return;
 
-    const file = files[0]; // We only need the first file
-    setSelectedFile(file); // Set the selected file state
+    let rootFile = specFiles[0];
 
     try {
-      const fileContent = await readFileAsJson(file);
+      // Read every file so relative $refs between them can be resolved
+      const texts: Record<string, string> = {};
+      for (const file of specFiles) {
+        texts[file.webkitRelativePath || file.name] = await readFileAsText(file);
+      }
+
+      const rootPath = specFiles.length === 1 ? Object.keys(texts)[0] : findRootDocument(texts);
+      if (!rootPath) {
+        throw new Error("None of the selected files is an OpenAPI/Swagger document");
+      }
+
+      rootFile = specFiles.find(file => (file.webkitRelativePath || file.name) === rootPath) || rootFile;
 
-      // Save the file content to localStorage
-      localStorage.setItem("swagger-file", JSON.stringify(fileContent));
+      const fileText = texts[rootPath];
+      const fileContent = await parseSpecTextInWorker(fileText, { contentType: rootFile.type, fileName: rootFile.name });
 
-      await onFileUpload(fileContent);
+      const source = {
+        baseUrl: `${LOCAL_FILE_BASE}${rootPath.split("/").map(encodeURIComponent).join("/")}`,
+        files: texts
+      };
+
+      // Save the raw text (and referenced files) so YAML documents and relative $refs are restored as-is
+      const storageKey = getSpecStorageKey("file", rootPath);
+      await rememberSpec(
+        storageKey,
+        rootFile.name,
+        specFiles.length > 1 ? { text: fileText, ...source } : { text: fileText }
+      );
+
+      await onFileUpload(fileContent, { storageKey, name: rootFile.name, source });
     } catch (error) {
       console.error("Error reading file:", error);
       if (typeof window !== 'undefined' && window.toast) {
-        window.toast.error("Failed to read file. Please make sure it's a valid JSON file.");
+        if (error instanceof SpecParseError) {
+          window.toast.error(`${rootFile.name}: ${error.message}`);
+        } else if (error instanceof Error && specFiles.length > 1) {
+          window.toast.error(error.message);
+        } else {
+          window.toast.error("Failed to read file. Please make sure it's a valid JSON or YAML file.");
+        }
       }
     }
   };
 
-  const handleFileDelete = () => {
-    setSelectedFile(null);
+  const handleFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Reset so selecting the same folder again triggers another change event
+    e.target.value = "";
+    handleFileAccept(files);
   };
 
   return (
     <div className="w-full max-w-3xl">
-      {selectedFile && (
+      {storedSpec && storedSpec.key === activeStoredKey && (
         <div className="flex items-center justify-between p-2 mb-4 bg-accent/30 rounded-md">
           <div className="flex items-center gap-2">
             <FileIcon className="w-5 h-5" />
             <div>
-              <p className="text-sm font-medium">{selectedFile.name}</p>
-              <p className="text-xs text-muted-foreground">{(selectedFile.size / 1024).toFixed(1)} KB</p>
+              <p className="text-sm font-medium">{storedSpec.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatBytes(storedSpec.size)}
+                {storedSpec.fileCount > 1 && ` in ${storedSpec.fileCount} files`}
+                {` · saved in browser${storedSpec.compressed ? ` (${formatBytes(storedSpec.storedSize)} compressed)` : ""}`}
+              </p>
             </div>
           </div>
-          <Button variant="ghost" size="icon" onClick={handleFileDelete} className="h-8 w-8">✕</Button>
+          {onCloseActive && (
+            <Button variant="ghost" size="icon" onClick={onCloseActive} className="h-8 w-8" title="Close specification">✕</Button>
+          )}
         </div>
       )}
       <Tabs defaultValue="url" value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-2 mb-4">
+        <TabsList className="grid w-full grid-cols-3 mb-4">
           <TabsTrigger value="url">URL</TabsTrigger>
           <TabsTrigger value="file">File Upload</TabsTrigger>
+          <TabsTrigger value="paste">Paste</TabsTrigger>
         </TabsList>
 
         <TabsContent value="url">
@@ -134,13 +296,31 @@ export function SwaggerUrlForm({ onFetch, onFileUpload, isLoading }: SwaggerUrlF
               {isLoading ? "Loading..." : "Fetch"}
             </Button>
           </form>
+          <div className="mt-2 text-left">
+            <button
+              type="button"
+              className="flex items-center text-sm text-muted-foreground hover:text-foreground"
+              onClick={() => setShowHeaders(!showHeaders)}
+            >
+              {showHeaders ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+              Request Headers
+              {!showHeaders && urlHost && loadHostHeaders(urlHost).length > 0 && (
+                <span className="ml-1">({loadHostHeaders(urlHost).length})</span>
+              )}
+            </button>
+            {showHeaders && (
+              <div className="mt-2">
+                <RequestHeadersPanel host={urlHost} />
+              </div>
+            )}
+          </div>
         </TabsContent>
 
         <TabsContent value="file">
           <div className="flex flex-col gap-4">
             <FileUpload
-              accept=".json,application/json"
-              maxFiles={1}
+              accept=".json,.yaml,.yml,application/json,application/yaml,application/x-yaml,text/yaml,text/x-yaml"
+              multiple
               disabled={isLoading}
               onAccept={handleFileAccept}
             >
@@ -148,7 +328,10 @@ export function SwaggerUrlForm({ onFetch, onFileUpload, isLoading }: SwaggerUrlF
                 <div className="flex flex-col items-center justify-center gap-2">
                   <UploadIcon className="w-8 h-8 text-muted-foreground" />
                   <p className="text-sm text-muted-foreground">
-                    Drag and drop your OpenAPI/Swagger JSON file here
+                    Drag and drop your OpenAPI/Swagger JSON or YAML file here
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Specs split across files? Select all of them, or the whole folder
                   </p>
                   <FileUploadTrigger asChild>
                     <Button variant="outline" disabled={isLoading}>
@@ -162,12 +345,66 @@ export function SwaggerUrlForm({ onFetch, onFileUpload, isLoading }: SwaggerUrlF
                       )}
                     </Button>
                   </FileUploadTrigger>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isLoading}
+                    onClick={(e) => {
+                      // Keep the dropzone from also opening its own file picker
+                      e.stopPropagation();
+                      folderInputRef.current?.click();
+                    }}
+                  >
+                    <FolderIcon className="mr-2 h-4 w-4" />
+                    Select Folder
+                  </Button>
                 </div>
               </FileUploadDropzone>
               {/* File information is now displayed at the top of the form */}
             </FileUpload>
+            <input
+              ref={folderInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={handleFolderChange}
+            />
           </div>
         </TabsContent>
+
+        <TabsContent value="paste">
+          <form onSubmit={handlePasteSubmit} className="flex flex-col gap-2">
+            <Textarea
+              placeholder="Paste an OpenAPI/Swagger document in JSON or YAML"
+              value={pastedText}
+              onChange={(e) => {
+                setPastedText(e.target.value);
+                setPasteDiagnostic(null);
+              }}
+              aria-invalid={!!pasteDiagnostic}
+              spellCheck={false}
+              className="min-h-48 max-h-96 font-mono text-xs [field-sizing:fixed]"
+            />
+            {pasteDiagnostic && (
+              <Alert variant="destructive" className="text-left">
+                <AlertDescription>
+                  <p>{pasteDiagnostic.message}</p>
+                  {pasteDiagnostic.snippet && (
+                    <pre className="mt-2 w-full overflow-x-auto rounded bg-muted p-2 font-mono text-xs text-foreground">
+                      {pasteDiagnostic.snippet}
+                    </pre>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isLoading || !pastedText.trim()}>
+                {isLoading ? <Spinner className="mr-2 h-4 w-4" /> : null}
+                {isLoading ? "Loading..." : "Load"}
+              </Button>
+            </div>
+          </form>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,252 @@
+"use client";
+
+import React, { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Spinner } from "@/components/ui/spinner";
+import { ChevronDown, ChevronRight, Play } from "lucide-react";
+import type { EndpointMethodInfo } from "@/lib/openapi";
+import {
+  buildRunnerRequest,
+  formatResponseBody,
+  getExampleBody,
+  getParameterKey,
+  sendRunnerRequest,
+  type ParameterValues,
+  type RunnerResponse
+} from "@/lib/request-runner";
+import { formatBytes } from "@/lib/spec-storage";
+import {
+  applySecurity,
+  findAuthorizedRequirement,
+  requiresAuthentication,
+  type Credentials,
+  type SecurityRequirement,
+  type SecurityScheme
+} from "@/lib/security";
+import { refreshExpiredCredentials } from "@/lib/oauth";
+import type { VariantSelections } from "@/lib/schema-variants";
+
+interface TryItPanelProps {
+  // Full URL of the selected server (see ServerPicker)
+  baseUrl: string;
+  path: string;
+  method: string;
+  methodInfo: EndpointMethodInfo;
+  // The operation's security requirements and the credentials from the Authorize dialog
+  security: SecurityRequirement[];
+  securitySchemes: Record<string, SecurityScheme>;
+  credentials: Credentials;
+  // Receives credentials whose expired OAuth2 tokens were renewed before sending
+  onCredentialsChange: (credentials: Credentials) => void;
+  // oneOf / anyOf alternatives chosen in the request body view
+  variants?: VariantSelections;
+}
+
+function getStatusColor(status: number) {
+  if (status < 300) return "bg-green-500";
+  if (status < 400) return "bg-blue-500";
+  if (status < 500) return "bg-yellow-500";
+  return "bg-red-500";
+}
+
+// Build a request from an operation's parameters and body, send it and show the response
+export function TryItPanel({ baseUrl, path, method, methodInfo, security, securitySchemes, credentials, onCredentialsChange, variants }: TryItPanelProps) {
+  const contentTypes = Object.keys(methodInfo.requestBody?.content || {});
+  const [values, setValues] = useState<ParameterValues>(() => Object.fromEntries(
+    methodInfo.parameters
+      .filter(parameter => parameter.example !== undefined || parameter.schema?.default !== undefined)
+      .map(parameter => [getParameterKey(parameter), String(parameter.example ?? parameter.schema?.default)])
+  ));
+  const [contentType, setContentType] = useState(contentTypes[0] || "");
+  const [body, setBody] = useState(() => getExampleBody(methodInfo, contentTypes[0] || "", variants));
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [response, setResponse] = useState<RunnerResponse | null>(null);
+  const [showHeaders, setShowHeaders] = useState(false);
+
+  // Choosing another oneOf / anyOf alternative replaces the body with that alternative's example
+  const [bodyVariants, setBodyVariants] = useState(variants);
+  if (bodyVariants !== variants) {
+    setBodyVariants(variants);
+    setBody(getExampleBody(methodInfo, contentType, variants));
+  }
+
+  // Each content type has its own schema, so switching replaces the body with its example
+  const handleContentTypeChange = (type: string) => {
+    setContentType(type);
+    setBody(getExampleBody(methodInfo, type, variants));
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      const request = buildRunnerRequest({
+        method,
+        baseUrl,
+        path,
+        parameters: methodInfo.parameters,
+        values,
+        body: methodInfo.requestBody ? body : undefined,
+        contentType
+      });
+
+      setIsSending(true);
+      // Renew expired OAuth2 tokens of the credentials about to be used
+      const requirement = findAuthorizedRequirement(security, securitySchemes, credentials);
+      const currentCredentials = requirement
+        ? await refreshExpiredCredentials(credentials, Object.keys(requirement))
+        : credentials;
+      if (currentCredentials !== credentials) {
+        onCredentialsChange(currentCredentials);
+      }
+
+      setResponse(await sendRunnerRequest(applySecurity(request, security, securitySchemes, currentCredentials)));
+    } catch (err) {
+      console.error("Error sending request:", err);
+      setResponse(null);
+      setError(err instanceof Error ? err.message : "Failed to send request");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const responseContentType = response?.headers["content-type"] || "";
+  const authorizedRequirement = findAuthorizedRequirement(security, securitySchemes, credentials);
+
+  return (
+    <form onSubmit={handleSend} className="space-y-3">
+      <p className="font-mono text-sm break-all">
+        <span className="font-semibold">{method}</span>{" "}
+        {baseUrl || <span className="text-red-500">(choose a server)</span>}{path}
+      </p>
+
+      {authorizedRequirement ? (
+        <p className="text-xs text-green-600">
+          Authorized with {Object.keys(authorizedRequirement).join(" + ")}
+        </p>
+      ) : requiresAuthentication(security) && (
+        <p className="text-xs text-yellow-600">
+          Requires {security.map(requirement => Object.keys(requirement).join(" + ")).join(" or ")}; enter credentials with Authorize
+        </p>
+      )}
+
+      {methodInfo.parameters.length > 0 && (
+        <div className="space-y-2">
+          {methodInfo.parameters.map((parameter) => {
+            const key = getParameterKey(parameter);
+            const enumValues: any[] | undefined = parameter.schema?.enum;
+
+            return (
+              <div key={key} className="grid grid-cols-1 md:grid-cols-[12rem_1fr] md:items-center gap-1 md:gap-3">
+                <div className="flex items-center gap-1 min-w-0">
+                  <span className="font-mono text-sm truncate">{parameter.name}</span>
+                  <Badge variant="outline" className="text-[10px] h-4">{parameter.in}</Badge>
+                  {parameter.required && <span className="text-red-500">*</span>}
+                </div>
+                {enumValues ? (
+                  <select
+                    className="w-full p-2 border rounded bg-background text-sm"
+                    value={values[key] ?? ""}
+                    onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+                  >
+                    <option value="">—</option>
+                    {enumValues.map(value => (
+                      <option key={String(value)} value={String(value)}>{String(value)}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <Input
+                    value={values[key] ?? ""}
+                    onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+                    placeholder={parameter.schema?.type === "array" ? "Comma-separated values" : parameter.schema?.type || "value"}
+                    className="text-sm"
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {methodInfo.requestBody && (
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label className="text-sm text-gray-500">Request body</label>
+            {contentTypes.length > 1 && (
+              <select
+                className="p-1 border rounded bg-background text-xs"
+                value={contentType}
+                onChange={(e) => handleContentTypeChange(e.target.value)}
+              >
+                {contentTypes.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            className="font-mono text-xs min-h-32"
+            spellCheck={false}
+          />
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isSending} className="gap-2">
+          {isSending ? <Spinner className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          Send Request
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {response && (
+        <div className="border rounded p-2 space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge className={getStatusColor(response.status)}>
+              {response.status} {response.statusText}
+            </Badge>
+            <span className="text-gray-500">{response.durationMs} ms</span>
+            <span className="text-gray-500">{formatBytes(response.size)}</span>
+            {response.finalUrl && (
+              <span className="font-mono text-xs text-gray-500 truncate">{response.finalUrl}</span>
+            )}
+          </div>
+
+          <div>
+            <button
+              type="button"
+              className="flex items-center text-sm font-semibold"
+              onClick={() => setShowHeaders(!showHeaders)}
+            >
+              {showHeaders ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+              Headers ({Object.keys(response.headers).length})
+            </button>
+            {showHeaders && (
+              <div className="mt-1 font-mono text-xs space-y-0.5">
+                {Object.entries(response.headers).map(([name, value]) => (
+                  <div key={name} className="break-all">
+                    <span className="text-gray-500">{name}:</span> {value}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {response.body && (
+            <pre className="bg-gray-100 p-2 rounded text-xs overflow-x-auto max-h-96">
+              {formatResponseBody(response.body, responseContentType)}
+            </pre>
+          )}
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  fetchSpecDocument,
+  fetchSpecDocumentIfModified,
+  isOpenAPIDocument,
+  type OpenAPISpec,
+  type SpecValidators
+} from "@/lib/openapi";
+import { bundleExternalRefs } from "@/lib/external-refs";
+import { diffSpecsInWorker, indexSpecInWorker } from "@/lib/spec-worker";
+import type { IndexedSpec } from "@/lib/spec-processing";
+import type { SpecDiff } from "@/lib/spec-diff";
+
+// How often watched specs are fetched again
+export const WATCH_INTERVAL_MS = 30000;
+
+export type WatchedSpec = {
+  id: string;
+  url: string;
+  // The version currently loaded, which new versions are compared against
+  spec: OpenAPISpec;
+  // Validators of the response the loaded version came from, so the first check can be conditional
+  validators?: SpecValidators;
+};
+
+interface SpecWatcherOptions {
+  specs: WatchedSpec[];
+  onChange: (id: string, indexed: IndexedSpec, diff: SpecDiff) => void;
+  interval?: number;
+}
+
+/**
+ * Fetch watched URL specs again at an interval, using the ETag / Last-Modified
+ * validators of the previous response (starting with the one the spec was loaded from), and report the ones whose document changed
+ * along with a diff against the loaded version. Polling pauses while the page is hidden.
+ */
+export function useSpecWatcher({ specs, onChange, interval = WATCH_INTERVAL_MS }: SpecWatcherOptions) {
+  const specsRef = useRef(specs);
+  const onChangeRef = useRef(onChange);
+  // Validators of the latest response per spec, with the version they belong to
+  const validatorsRef = useRef<Record<string, { spec: OpenAPISpec; validators: SpecValidators }>>({});
+
+  useEffect(() => {
+    specsRef.current = specs;
+    onChangeRef.current = onChange;
+  });
+
+  // Restart the timer only when the set of watched specs changes, not when one is updated
+  const watchedKey = specs.map(spec => spec.id).join("\n");
+
+  useEffect(() => {
+    if (!watchedKey) return;
+    let isChecking = false;
+
+    const checkSpec = async (watched: WatchedSpec) => {
+      // Validators from an earlier check only apply while that version is still the loaded one
+      const known = validatorsRef.current[watched.id];
+      const validators = known?.spec === watched.spec ? known.validators : watched.validators ?? {};
+      const result = await fetchSpecDocumentIfModified(watched.url, validators);
+      if (result.notModified) return;
+
+      validatorsRef.current[watched.id] = { spec: watched.spec, validators: result.validators };
+      if (!isOpenAPIDocument(result.data)) {
+        throw new Error("Invalid OpenAPI specification format");
+      }
+
+      const bundled = await bundleExternalRefs(result.data, { baseUrl: watched.url, loadDocument: fetchSpecDocument });
+      const indexed = await indexSpecInWorker(bundled.spec);
+
+      // Servers without validators send the full document every time; only report actual changes
+      if (JSON.stringify(indexed.spec) === JSON.stringify(watched.spec)) return;
+
+      const diff = await diffSpecsInWorker(watched.spec, indexed.spec);
+      validatorsRef.current[watched.id] = { spec: indexed.spec, validators: result.validators };
+      onChangeRef.current(watched.id, indexed, diff);
+    };
+
+    const checkAll = async () => {
+      if (isChecking || document.visibilityState === "hidden") return;
+      isChecking = true;
+
+      try {
+        for (const watched of specsRef.current) {
+          await checkSpec(watched).catch(err => {
+            console.warn(`Error checking ${watched.url} for changes:`, err instanceof Error ? err.message : err);
+          });
+        }
+      } finally {
+        isChecking = false;
+      }
+    };
+
+    const timer = window.setInterval(checkAll, interval);
+    return () => window.clearInterval(timer);
+  }, [watchedKey, interval]);
+}
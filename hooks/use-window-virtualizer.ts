@@ -0,0 +1,114 @@
+"use client";
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from "react";
+
+interface WindowVirtualizerOptions {
+  count: number;
+  // Stable key for a row, used to remember its measured height
+  getKey: (index: number) => string;
+  // Height used for rows that have not been rendered yet
+  estimateSize: (index: number) => number;
+  // Extra pixels rendered above and below the viewport
+  overscan?: number;
+}
+
+export type VirtualRow = {
+  index: number;
+  key: string;
+};
+
+/**
+ * Render only the rows of a long list that are near the viewport, while the
+ * page itself keeps scrolling. Rows may have any height: each rendered row is
+ * measured and rows outside the window are replaced by padding.
+ */
+export function useWindowVirtualizer({ count, getKey, estimateSize, overscan = 800 }: WindowVirtualizerOptions) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [sizes, setSizes] = useState<Record<string, number>>({});
+  const [viewport, setViewport] = useState({ top: 0, height: 1000 });
+
+  // Track which part of the list is on screen, at most once per frame
+  useLayoutEffect(() => {
+    let frame = 0;
+
+    const update = () => {
+      frame = 0;
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      setViewport(prev => {
+        const next = { top: -rect.top, height: window.innerHeight };
+        return prev.top === next.top && prev.height === next.height ? prev : next;
+      });
+    };
+
+    const scheduleUpdate = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener("scroll", scheduleUpdate, { passive: true });
+    window.addEventListener("resize", scheduleUpdate);
+    return () => {
+      window.removeEventListener("scroll", scheduleUpdate);
+      window.removeEventListener("resize", scheduleUpdate);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [count]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // Callback ref for rendered rows; they must carry a data-virtual-key attribute
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        setSizes(prev => {
+          let next = prev;
+          for (const entry of entries) {
+            const key = (entry.target as HTMLElement).dataset.virtualKey;
+            const height = entry.borderBoxSize?.[0]?.blockSize ?? (entry.target as HTMLElement).offsetHeight;
+            if (key && height > 0 && prev[key] !== height) {
+              if (next === prev) next = { ...prev };
+              next[key] = height;
+            }
+          }
+          return next;
+        });
+      });
+    }
+
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  // Lay the rows out using measured heights where known
+  const virtualRows: VirtualRow[] = [];
+  let paddingTop = 0;
+  let totalHeight = 0;
+  let renderedHeight = 0;
+  const windowStart = viewport.top - overscan;
+  const windowEnd = viewport.top + viewport.height + overscan;
+
+  for (let index = 0; index < count; index++) {
+    const key = getKey(index);
+    const size = sizes[key] ?? estimateSize(index);
+
+    if (totalHeight + size > windowStart && totalHeight < windowEnd) {
+      if (virtualRows.length === 0) paddingTop = totalHeight;
+      virtualRows.push({ index, key });
+      renderedHeight += size;
+    }
+    totalHeight += size;
+  }
+
+  return {
+    containerRef,
+    measureElement,
+    virtualRows,
+    paddingTop,
+    paddingBottom: Math.max(totalHeight - paddingTop - renderedHeight, 0)
+  };
+}
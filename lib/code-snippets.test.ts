@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { EndpointMethodInfo } from '@/lib/openapi';
+import { buildSnippetRequest, generateSnippet } from '@/lib/code-snippets';
+import type { RunnerRequest } from '@/lib/request-runner';
+
+const formSchema = {
+  type: 'object',
+  properties: { name: { type: 'string', example: 'Rex' }, tag: { type: 'string', example: 'dog' } },
+};
+
+const methodInfo = (content: Record<string, any>, parameters: any[] = []) => ({
+  parameters,
+  responses: {},
+  requestBody: { content },
+}) as unknown as EndpointMethodInfo;
+
+const build = (info: EndpointMethodInfo) => buildSnippetRequest({
+  method: 'post',
+  baseUrl: 'https://api.example.com',
+  path: '/pets',
+  methodInfo: info,
+  security: [],
+  securitySchemes: {},
+});
+
+const urlEncoded = build(methodInfo({ 'application/x-www-form-urlencoded': { schema: formSchema } }));
+const multipart = build(methodInfo({ 'multipart/form-data': { schema: formSchema } }));
+
+describe('buildSnippetRequest', () => {
+  it('builds the body from the schema of the content type it sends', () => {
+    const request = build(methodInfo({
+      'application/x-www-form-urlencoded': { schema: formSchema },
+      'application/json': { schema: { type: 'object', properties: { other: { type: 'integer' } } } },
+    }));
+    expect(request.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+    expect(request.body).toBe('name=Rex&tag=dog');
+  });
+
+  it('uses the examples map of parameters', () => {
+    const request = build(methodInfo({}, [
+      { name: 'limit', in: 'query', schema: { type: 'integer' }, examples: { small: { value: 5 } } },
+    ]));
+    expect(request.url).toBe('https://api.example.com/pets?limit=5');
+  });
+});
+
+describe('generateSnippet', () => {
+  it('sends form fields with cURL', () => {
+    expect(generateSnippet('curl', multipart)).toBe([
+      "curl -X POST 'https://api.example.com/pets'",
+      "  -F 'name=Rex'",
+      "  -F 'tag=dog'",
+    ].join(' \\\n'));
+    expect(generateSnippet('curl', urlEncoded)).toContain("--data-urlencode 'name=Rex'");
+    expect(generateSnippet('curl', urlEncoded)).not.toContain('Content-Type');
+  });
+
+  it('sends form fields with HTTPie', () => {
+    expect(generateSnippet('httpie', urlEncoded)).toMatch(/^http --form POST .* \\\n  'name=Rex' \\\n  'tag=dog'$/);
+    expect(generateSnippet('httpie', multipart)).toMatch(/^http --multipart POST /);
+  });
+
+  it('builds FormData and URLSearchParams bodies in JavaScript', () => {
+    const fetchSnippet = generateSnippet('fetch', multipart);
+    expect(fetchSnippet).toContain('const form = new FormData();\nform.append("name", "Rex");\nform.append("tag", "dog");');
+    expect(fetchSnippet).toContain('  body: form\n');
+    expect(generateSnippet('axios', urlEncoded)).toContain('  data: new URLSearchParams({\n    "name": "Rex",\n    "tag": "dog"\n  })');
+  });
+
+  it('writes repeated fields as pairs', () => {
+    const request: RunnerRequest = {
+      method: 'POST',
+      url: 'https://api.example.com/pets',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'tag=a&tag=b',
+    };
+    expect(generateSnippet('fetch', request)).toContain('body: new URLSearchParams([\n    ["tag","a"],\n    ["tag","b"]\n  ])');
+    expect(generateSnippet('python', request)).toContain('data=[\n        ("tag", "a"),\n        ("tag", "b")\n    ]');
+  });
+
+  it('sends form fields with Python requests', () => {
+    const snippet = generateSnippet('python', multipart);
+    expect(snippet).toContain('files={\n        "name": (None, "Rex"),\n        "tag": (None, "dog")\n    }');
+    expect(generateSnippet('python', urlEncoded)).toContain('data={\n        "name": "Rex",\n        "tag": "dog"\n    }');
+    expect(generateSnippet('python', urlEncoded)).not.toContain('Content-Type');
+  });
+
+  it('encodes form fields with Go mime/multipart and net/url', () => {
+    const multipartSnippet = generateSnippet('go', multipart);
+    expect(multipartSnippet).toContain('\t"bytes"\n\t"fmt"\n\t"io"\n\t"mime/multipart"\n\t"net/http"\n)');
+    expect(multipartSnippet).toContain('\twriter := multipart.NewWriter(body)\n\twriter.WriteField("name", "Rex")');
+    expect(multipartSnippet).toContain('\treq.Header.Set("Content-Type", writer.FormDataContentType())');
+
+    const urlEncodedSnippet = generateSnippet('go', urlEncoded);
+    expect(urlEncodedSnippet).toContain('\tform.Add("name", "Rex")\n\tform.Add("tag", "dog")\n\tbody := strings.NewReader(form.Encode())');
+    expect(urlEncodedSnippet).toContain('\treq.Header.Set("Content-Type", "application/x-www-form-urlencoded")');
+  });
+});
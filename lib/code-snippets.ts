@@ -0,0 +1,444 @@
+import type { EndpointMethodInfo } from '@/lib/openapi';
+import {
+  buildRunnerRequest,
+  getExampleBody,
+  getFormFields,
+  getParameterKey,
+  type ParameterValues,
+  type RunnerRequest
+} from '@/lib/request-runner';
+import { generateExample } from '@/lib/schema-example';
+import type { VariantSelections } from '@/lib/schema-variants';
+import {
+  applySecurity,
+  type Credentials,
+  type SecurityRequirement,
+  type SecurityScheme
+} from '@/lib/security';
+
+export type SnippetLanguage = 'curl' | 'httpie' | 'fetch' | 'axios' | 'python' | 'go';
+
+// Languages offered in the "Copy as…" menu, in menu order
+export const SNIPPET_LANGUAGES: { id: SnippetLanguage; label: string }[] = [
+  { id: 'curl', label: 'cURL' },
+  { id: 'httpie', label: 'HTTPie' },
+  { id: 'fetch', label: 'JavaScript fetch' },
+  { id: 'axios', label: 'axios' },
+  { id: 'python', label: 'Python requests' },
+  { id: 'go', label: 'Go net/http' },
+];
+
+type Parameter = EndpointMethodInfo['parameters'][number];
+
+/**
+ * The parameter's own example: `example` or the first of its `examples`
+ */
+function getDocumentedExample(parameter: Parameter): any {
+  if (parameter.example !== undefined) {
+    return parameter.example;
+  }
+  return Object.values<any>(parameter.examples || {}).find(example => example?.value !== undefined)?.value;
+}
+
+/**
+ * Example value of a parameter as it is entered in Try it (arrays comma-separated)
+ */
+function getParameterExample(parameter: Parameter): string {
+  const value = getDocumentedExample(parameter) ?? generateExample(parameter.schema) ?? 'value';
+  if (Array.isArray(value)) return value.join(',');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Placeholder credentials for the first requirement whose schemes are all declared,
+ * so snippets show how to authenticate without containing secrets
+ */
+function getPlaceholderCredentials(
+  requirements: SecurityRequirement[],
+  schemes: Record<string, SecurityScheme>
+): Credentials {
+  const requirement = requirements.find(candidate =>
+    Object.keys(candidate).length > 0 && Object.keys(candidate).every(name => schemes[name])
+  );
+
+  const credentials: Credentials = {};
+  for (const name of Object.keys(requirement || {})) {
+    const scheme = schemes[name];
+    if (scheme.type === 'apiKey') {
+      credentials[name] = { value: 'YOUR_API_KEY' };
+    } else if (scheme.type === 'http' && scheme.scheme === 'basic') {
+      credentials[name] = { username: 'username', password: 'password' };
+    } else if (scheme.type === 'http' && scheme.scheme !== 'bearer') {
+      credentials[name] = { value: 'YOUR_CREDENTIALS' };
+    } else {
+      credentials[name] = { value: 'YOUR_ACCESS_TOKEN' };
+    }
+  }
+  return credentials;
+}
+
+/**
+ * Build the request a snippet sends: required parameters and parameters with examples
+ * get example values, the body is the example of the first content type, encoded for it,
+ * and security requirements are filled with placeholders
+ */
+export function buildSnippetRequest({
+  method,
+  baseUrl,
+  path,
+  methodInfo,
+  security,
+  securitySchemes,
+  variants
+}: {
+  method: string;
+  baseUrl: string;
+  path: string;
+  methodInfo: EndpointMethodInfo;
+  security: SecurityRequirement[];
+  securitySchemes: Record<string, SecurityScheme>;
+  variants?: VariantSelections;
+}): RunnerRequest {
+  const values: ParameterValues = {};
+  for (const parameter of methodInfo.parameters) {
+    if (parameter.required || getDocumentedExample(parameter) !== undefined || parameter.schema?.example !== undefined || parameter.schema?.default !== undefined) {
+      values[getParameterKey(parameter)] = getParameterExample(parameter);
+    }
+  }
+
+  const contentType = Object.keys(methodInfo.requestBody?.content || {})[0] || '';
+  const request = buildRunnerRequest({
+    method,
+    baseUrl,
+    path,
+    parameters: methodInfo.parameters,
+    values,
+    body: methodInfo.requestBody ? getExampleBody(methodInfo, contentType, variants) : undefined,
+    contentType
+  });
+
+  return applySecurity(request, security, securitySchemes, getPlaceholderCredentials(security, securitySchemes));
+}
+
+/**
+ * Parse a JSON request body, or return undefined for other bodies
+ */
+function parseJsonBody(request: RunnerRequest): any {
+  if (!request.body || !/json/i.test(request.headers['Content-Type'] || '')) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(request.body);
+  } catch {
+    return undefined;
+  }
+}
+
+// Fields of a form body and whether they are sent as multipart/form-data or URL-encoded
+type FormBody = {
+  multipart: boolean;
+  fields: [string, string][];
+};
+
+/**
+ * Read the form fields of a request, or return undefined for other bodies
+ */
+function getFormBody(request: RunnerRequest): FormBody | undefined {
+  if (request.formData) {
+    return { multipart: true, fields: request.formData };
+  }
+  if (request.body && /x-www-form-urlencoded/i.test(request.headers['Content-Type'] || '')) {
+    return { multipart: false, fields: getFormFields(request.body) };
+  }
+  return undefined;
+}
+
+/**
+ * Headers without Content-Type, for clients that set it from the body they encode
+ */
+function withoutContentType(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).filter(([name]) => name.toLowerCase() !== 'content-type'));
+}
+
+/**
+ * Whether a field name appears more than once, so the fields cannot be written as an object
+ */
+function hasRepeatedNames(fields: [string, string][]): boolean {
+  return new Set(fields.map(([name]) => name)).size < fields.length;
+}
+
+/**
+ * Quote a string for a POSIX shell
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Indent every line after the first, for nesting multi-line values in code
+ */
+function indentLines(text: string, indent: string): string {
+  return text.split('\n').join(`\n${indent}`);
+}
+
+/**
+ * Write a JSON value as a Python literal (None, True, False)
+ */
+function toPythonLiteral(value: any, indent: string = ''): string {
+  if (value === null || value === undefined) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value !== 'object') return JSON.stringify(value);
+
+  const inner = `${indent}    `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(item => `${inner}${toPythonLiteral(item, inner)}`).join(',\n')}\n${indent}]`;
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${toPythonLiteral(item, inner)}`).join(',\n')}\n${indent}}`;
+}
+
+function toCurl(request: RunnerRequest): string {
+  const form = getFormBody(request);
+  const lines = [`curl${request.method === 'GET' ? '' : ` -X ${request.method}`} ${shellQuote(request.url)}`];
+  for (const [name, value] of Object.entries(form ? withoutContentType(request.headers) : request.headers)) {
+    lines.push(`  -H ${shellQuote(`${name}: ${value}`)}`);
+  }
+  if (form) {
+    for (const [name, value] of form.fields) {
+      // -F reads a file for values starting with @ or <; --form-string sends them as they are
+      const option = !form.multipart ? '--data-urlencode' : /^[@<]/.test(value) ? '--form-string' : '-F';
+      lines.push(`  ${option} ${shellQuote(`${name}=${value}`)}`);
+    }
+  } else if (request.body) {
+    lines.push(`  --data-raw ${shellQuote(request.body)}`);
+  }
+  return lines.join(' \\\n');
+}
+
+function toHttpie(request: RunnerRequest): string {
+  const form = getFormBody(request);
+  // --form sends text fields URL-encoded; --multipart forces multipart/form-data
+  const formOption = form ? (form.multipart ? ' --multipart' : ' --form') : '';
+  const lines = [`http${formOption} ${request.method} ${shellQuote(request.url)}`];
+  for (const [name, value] of Object.entries(form ? withoutContentType(request.headers) : request.headers)) {
+    lines.push(`  ${shellQuote(`${name}:${value}`)}`);
+  }
+  if (form) {
+    for (const [name, value] of form.fields) {
+      lines.push(`  ${shellQuote(`${name}=${value}`)}`);
+    }
+  } else if (request.body) {
+    lines.push(`  --raw ${shellQuote(request.body)}`);
+  }
+  return lines.join(' \\\n');
+}
+
+/**
+ * Statements that build the FormData a multipart snippet sends as `form`
+ */
+function toJavaScriptFormData(form: FormBody | undefined): string[] {
+  if (!form?.multipart) {
+    return [];
+  }
+  return [
+    'const form = new FormData();',
+    ...form.fields.map(([name, value]) => `form.append(${JSON.stringify(name)}, ${JSON.stringify(value)});`),
+    ''
+  ];
+}
+
+/**
+ * Options object shared by the fetch and axios snippets; both set the Content-Type of
+ * FormData and URLSearchParams bodies themselves
+ */
+function toJavaScriptOptions(request: RunnerRequest, bodyKey: 'body' | 'data', extra: string[] = []): string {
+  const json = parseJsonBody(request);
+  const form = getFormBody(request);
+  const headers = form ? withoutContentType(request.headers) : request.headers;
+  const options = [...extra];
+
+  if (Object.keys(headers).length > 0) {
+    options.push(`  headers: ${indentLines(JSON.stringify(headers, null, 2), '  ')}`);
+  }
+  if (form?.multipart) {
+    options.push(`  ${bodyKey}: form`);
+  } else if (form) {
+    // Repeated fields need [name, value] pairs
+    const fields = hasRepeatedNames(form.fields)
+      ? `[\n${form.fields.map(field => `    ${JSON.stringify(field)}`).join(',\n')}\n  ]`
+      : indentLines(JSON.stringify(Object.fromEntries(form.fields), null, 2), '  ');
+    options.push(`  ${bodyKey}: new URLSearchParams(${fields})`);
+  } else if (request.body) {
+    const body = json === undefined
+      ? JSON.stringify(request.body)
+      : indentLines(JSON.stringify(json, null, 2), '  ');
+    // fetch needs the JSON serialized; axios serializes objects itself
+    options.push(`  ${bodyKey}: ${json !== undefined && bodyKey === 'body' ? `JSON.stringify(${body})` : body}`);
+  }
+  return `{\n${options.join(',\n')}\n}`;
+}
+
+function toFetch(request: RunnerRequest): string {
+  const options = toJavaScriptOptions(request, 'body', [`  method: ${JSON.stringify(request.method)}`]);
+  return [
+    ...toJavaScriptFormData(getFormBody(request)),
+    `const response = await fetch(${JSON.stringify(request.url)}, ${options});`,
+    '',
+    'console.log(response.status, await response.text());'
+  ].join('\n');
+}
+
+function toAxios(request: RunnerRequest): string {
+  const options = toJavaScriptOptions(request, 'data', [
+    `  method: ${JSON.stringify(request.method.toLowerCase())}`,
+    `  url: ${JSON.stringify(request.url)}`
+  ]);
+  return [
+    "import axios from 'axios';",
+    '',
+    ...toJavaScriptFormData(getFormBody(request)),
+    `const response = await axios.request(${options});`,
+    '',
+    'console.log(response.status, response.data);'
+  ].join('\n');
+}
+
+/**
+ * Form fields as the data= (URL-encoded) or files= (multipart) argument of requests;
+ * a (None, value) tuple is a multipart field without a file name
+ */
+function toPythonFormArgument(form: FormBody): string {
+  const toValue = (value: string) => (form.multipart ? `(None, ${JSON.stringify(value)})` : JSON.stringify(value));
+  // Repeated fields need a list of (name, value) tuples
+  const repeated = hasRepeatedNames(form.fields);
+  const items = form.fields.map(([name, value]) => (repeated
+    ? `        (${JSON.stringify(name)}, ${toValue(value)})`
+    : `        ${JSON.stringify(name)}: ${toValue(value)}`));
+  const [open, close] = repeated ? ['[', ']'] : ['{', '}'];
+  return `    ${form.multipart ? 'files' : 'data'}=${open}\n${items.join(',\n')}\n    ${close}`;
+}
+
+function toPython(request: RunnerRequest): string {
+  const json = parseJsonBody(request);
+  const form = getFormBody(request);
+  const headers = { ...request.headers };
+  // requests sets the content type itself when given json=, data= fields or files=
+  if (json !== undefined || form) {
+    delete headers['Content-Type'];
+  }
+
+  const args = [`    ${JSON.stringify(request.url)}`];
+  if (Object.keys(headers).length > 0) {
+    args.push(`    headers=${toPythonLiteral(headers, '    ')}`);
+  }
+  if (json !== undefined) {
+    args.push(`    json=${toPythonLiteral(json, '    ')}`);
+  } else if (form) {
+    args.push(toPythonFormArgument(form));
+  } else if (request.body) {
+    args.push(`    data=${JSON.stringify(request.body)}`);
+  }
+
+  return [
+    'import requests',
+    '',
+    `response = requests.request(\n    ${JSON.stringify(request.method)},\n${args.join(',\n')},\n)`,
+    '',
+    'print(response.status_code)',
+    'print(response.text)'
+  ].join('\n');
+}
+
+function toGo(request: RunnerRequest): string {
+  const form = getFormBody(request);
+  // Raw string literals keep JSON readable, unless the body contains a backtick
+  const bodyLiteral = request.body && !form
+    ? (request.body.includes('`') ? JSON.stringify(request.body) : `\`${request.body}\``)
+    : null;
+  const hasBody = Boolean(bodyLiteral || form);
+
+  const imports = [
+    '"fmt"',
+    '"io"',
+    '"net/http"',
+    ...(form?.multipart ? ['"bytes"', '"mime/multipart"'] : []),
+    ...(form && !form.multipart ? ['"net/url"'] : []),
+    ...(bodyLiteral || (form && !form.multipart) ? ['"strings"'] : [])
+  ].sort();
+  const lines = [
+    'package main',
+    '',
+    'import (',
+    ...imports.map(name => `\t${name}`),
+    ')',
+    '',
+    'func main() {',
+  ];
+
+  if (form?.multipart) {
+    // The writer picks the boundary that goes into the Content-Type header
+    lines.push(
+      '\tbody := &bytes.Buffer{}',
+      '\twriter := multipart.NewWriter(body)',
+      ...form.fields.map(([name, value]) => `\twriter.WriteField(${JSON.stringify(name)}, ${JSON.stringify(value)})`),
+      '\twriter.Close()',
+      ''
+    );
+  } else if (form) {
+    lines.push(
+      '\tform := url.Values{}',
+      ...form.fields.map(([name, value]) => `\tform.Add(${JSON.stringify(name)}, ${JSON.stringify(value)})`),
+      '\tbody := strings.NewReader(form.Encode())',
+      ''
+    );
+  } else if (bodyLiteral) {
+    lines.push(`\tbody := strings.NewReader(${bodyLiteral})`);
+  }
+  lines.push(
+    `\treq, err := http.NewRequest(${JSON.stringify(request.method)}, ${JSON.stringify(request.url)}, ${hasBody ? 'body' : 'nil'})`,
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    ...Object.entries(request.headers).map(([name, value]) => `\treq.Header.Set(${JSON.stringify(name)}, ${JSON.stringify(value)})`),
+    ...(form?.multipart ? ['\treq.Header.Set("Content-Type", writer.FormDataContentType())'] : []),
+    '',
+    '\tresp, err := http.DefaultClient.Do(req)',
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    '\tdefer resp.Body.Close()',
+    '',
+    '\tdata, err := io.ReadAll(resp.Body)',
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    '\tfmt.Println(resp.Status)',
+    '\tfmt.Println(string(data))',
+    '}'
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Write a request as a code snippet in one of the supported languages
+ */
+export function generateSnippet(language: SnippetLanguage, request: RunnerRequest): string {
+  switch (language) {
+    case 'curl':
+      return toCurl(request);
+    case 'httpie':
+      return toHttpie(request);
+    case 'fetch':
+      return toFetch(request);
+    case 'axios':
+      return toAxios(request);
+    case 'python':
+      return toPython(request);
+    case 'go':
+      return toGo(request);
+  }
+}
@@ -0,0 +1,89 @@
+import { getRefName, resolveRef, type OpenAPISpec } from '@/lib/openapi';
+
+// Helpers shared by the TypeScript and Zod generators
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * Turn a schema name or operationId into a PascalCase identifier, e.g. "pet-store.Item" → "PetStoreItem"
+ */
+export function toTypeName(name: string): string {
+  const identifier = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  if (!identifier) return 'Schema';
+  return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Suffix for a response status in generated names: "200", "2XX" or "Default"
+ */
+export function toStatusName(status: string): string {
+  return status === 'default' ? 'Default' : status.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+}
+
+/**
+ * Quote object keys that are not identifiers
+ */
+export function toPropertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * JSDoc for a schema's description and deprecation, or nothing
+ */
+export function toDocComment(schema: any, indent: string): string {
+  if (!schema || typeof schema !== 'object') return '';
+
+  const lines = typeof schema.description === 'string' && schema.description.trim()
+    ? schema.description.trim().replace(/\*\//g, '*\\/').split('\n').map((line: string) => line.trimEnd())
+    : [];
+  if (schema.deprecated) lines.push('@deprecated');
+
+  if (lines.length === 0) return '';
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map((line: string) => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`;
+}
+
+/**
+ * Name of the component schema a reference points to, or undefined for other references
+ */
+export function getComponentSchemaName(ref: string): string | undefined {
+  return ref.startsWith(SCHEMA_REF_PREFIX) && !ref.slice(SCHEMA_REF_PREFIX.length).includes('/')
+    ? getRefName(ref)
+    : undefined;
+}
+
+/**
+ * Resolve a parameter, request body or response given by reference
+ */
+export function resolveObject(spec: OpenAPISpec, obj: any): any {
+  return obj && typeof obj.$ref === 'string' ? resolveRef(spec, obj.$ref) : obj;
+}
+
+/**
+ * Schema of the preferred media type of a content map: JSON when there is one
+ */
+export function getContentSchema(content: any): any {
+  const mediaTypes = Object.keys(content || {});
+  const mediaType = mediaTypes.find(type => /json/i.test(type)) ?? mediaTypes[0];
+  return mediaType ? content[mediaType]?.schema : undefined;
+}
+
+/**
+ * First line of a generated file, naming the spec it was generated from
+ */
+export function getGeneratedHeader(spec: OpenAPISpec, kind: string): string {
+  const title = spec.info?.title ? `${spec.info.title}${spec.info.version ? ` ${spec.info.version}` : ''}` : 'the API';
+  return `// ${kind} for ${title}, generated by Easy Swagger`;
+}
+
+/**
+ * File name for generated code, from the spec's title, e.g. "pet-store.types.ts"
+ */
+export function getGeneratedFileName(spec: OpenAPISpec, suffix: string): string {
+  const slug = String(spec.info?.title || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'api'}.${suffix}.ts`;
+}
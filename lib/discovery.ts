@@ -0,0 +1,212 @@
+import { getHeadersForUrl } from '@/lib/request-headers';
+
+// Well-known locations where frameworks publish their OpenAPI/Swagger documents
+export const WELL_KNOWN_SPEC_PATHS = [
+  '/openapi.json',
+  '/openapi.yaml',
+  '/v3/api-docs',
+  '/v3/api-docs/swagger-config',
+  '/swagger/v1/swagger.json',
+  '/swagger.json',
+  '/swagger-resources',
+  '/v2/api-docs',
+  '/api-docs',
+];
+
+export type DiscoveredSpec = {
+  url: string;
+  name?: string;
+  // Where the spec URL was found
+  source: 'document' | 'page' | 'swagger-config' | 'swagger-resources' | 'well-known';
+};
+
+/**
+ * Check whether a parsed document looks like an OpenAPI/Swagger specification
+ */
+export function isSpecDocument(data: any): boolean {
+  return !!data && typeof data === 'object' && !Array.isArray(data) &&
+    (typeof data.openapi === 'string' || typeof data.swagger === 'string');
+}
+
+/**
+ * Resolve a possibly relative URL against the page it was found on
+ */
+function toAbsoluteUrl(url: string, baseUrl: string): string | null {
+  try {
+    return new URL(url.trim(), baseUrl).href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read spec URLs from a Swagger UI `swagger-config` document ({ url, urls: [{ url, name }] })
+ */
+export function extractSpecUrlsFromSwaggerConfig(config: any, baseUrl: string): DiscoveredSpec[] {
+  if (!config || typeof config !== 'object') {
+    return [];
+  }
+
+  const specs: DiscoveredSpec[] = [];
+  for (const entry of Array.isArray(config.urls) ? config.urls : []) {
+    const url = entry && typeof entry.url === 'string' ? toAbsoluteUrl(entry.url, baseUrl) : null;
+    if (url) {
+      specs.push({ url, name: entry.name, source: 'swagger-config' });
+    }
+  }
+
+  if (typeof config.url === 'string') {
+    const url = toAbsoluteUrl(config.url, baseUrl);
+    if (url) {
+      specs.push({ url, source: 'swagger-config' });
+    }
+  }
+
+  return specs;
+}
+
+/**
+ * Read spec URLs from a springfox `/swagger-resources` listing ([{ name, url, location }])
+ */
+export function extractSpecUrlsFromSwaggerResources(resources: any, baseUrl: string): DiscoveredSpec[] {
+  if (!Array.isArray(resources)) {
+    return [];
+  }
+
+  const specs: DiscoveredSpec[] = [];
+  for (const resource of resources) {
+    const path = resource?.url || resource?.location;
+    const url = typeof path === 'string' ? toAbsoluteUrl(path, baseUrl) : null;
+    if (url) {
+      specs.push({ url, name: resource.name, source: 'swagger-resources' });
+    }
+  }
+
+  return specs;
+}
+
+/**
+ * Find spec URLs in a Swagger UI, Redoc, RapiDoc or Stoplight Elements page
+ * (or in the Swagger UI initializer script it loads)
+ */
+export function extractSpecUrlsFromHtml(html: string, pageUrl: string): DiscoveredSpec[] {
+  const found: { url: string; name?: string }[] = [];
+
+  // Swagger UI reads ?url= / ?configUrl= from its own address
+  try {
+    const { searchParams } = new URL(pageUrl);
+    for (const key of ['url', 'configUrl']) {
+      const value = searchParams.get(key);
+      if (value) found.push({ url: value });
+    }
+  } catch {
+    // Ignore pages without a parseable URL
+  }
+
+  const patterns = [
+    // Redoc / RapiDoc: <redoc spec-url="...">, <rapi-doc spec-url="...">
+    /spec-url\s*=\s*["']([^"']+)["']/gi,
+    // Stoplight Elements: <elements-api apiDescriptionUrl="...">
+    /apiDescriptionUrl\s*=\s*["']([^"']+)["']/gi,
+    // Redoc.init("...")
+    /Redoc\.init\(\s*["']([^"']+)["']/g,
+    // SwaggerUIBundle({ url: "...", configUrl: "..." })
+    /\b(?:url|configUrl)\s*:\s*["']([^"']+)["']/g,
+  ];
+
+  for (const pattern of patterns) {
+    for (const match of html.matchAll(pattern)) {
+      found.push({ url: match[1] });
+    }
+  }
+
+  // SwaggerUIBundle({ urls: [{ url: "...", name: "..." }] }), in either key order
+  for (const match of html.matchAll(/\{\s*(?:url\s*:\s*["']([^"']+)["']\s*,\s*name\s*:\s*["']([^"']+)["']|name\s*:\s*["']([^"']+)["']\s*,\s*url\s*:\s*["']([^"']+)["'])\s*\}/g)) {
+    found.push(match[1] ? { url: match[1], name: match[2] } : { url: match[4], name: match[3] });
+  }
+
+  const specs: DiscoveredSpec[] = [];
+  for (const { url, name } of found) {
+    // Skip the petstore placeholder that ships with Swagger UI and obvious assets
+    if (/petstore\.swagger\.io/.test(url) || /\.(js|css|png|svg|ico|html?)(\?|$)/i.test(url)) continue;
+
+    const absoluteUrl = toAbsoluteUrl(url, pageUrl);
+    if (absoluteUrl) {
+      specs.push({ url: absoluteUrl, ...(name ? { name } : {}), source: 'page' });
+    }
+  }
+
+  return specs;
+}
+
+/**
+ * Find the Swagger UI initializer script referenced by a page, if any
+ */
+export function extractInitializerScriptUrl(html: string, pageUrl: string): string | null {
+  const match = html.match(/<script[^>]+src\s*=\s*["']([^"']*swagger-initializer\.js[^"']*)["']/i);
+  return match ? toAbsoluteUrl(match[1], pageUrl) : null;
+}
+
+/**
+ * Build the well-known probe URLs for an address, relative to both the
+ * origin and the directory of the given path (for apps mounted under a prefix)
+ */
+export function getWellKnownSpecUrls(url: string): string[] {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return [];
+  }
+
+  const prefixes = new Set<string>(['']);
+  const directory = parsed.pathname
+    .replace(/\/(swagger-ui|swagger|docs|redoc|api-docs)(\/.*)?$/i, '')
+    .replace(/\/[^/]*\.[^/]*$/, '')
+    .replace(/\/$/, '');
+  if (directory) {
+    prefixes.add(directory);
+  }
+
+  const urls: string[] = [];
+  for (const prefix of prefixes) {
+    for (const path of WELL_KNOWN_SPEC_PATHS) {
+      urls.push(`${parsed.origin}${prefix}${path}`);
+    }
+  }
+  return urls;
+}
+
+/**
+ * Remove duplicate spec URLs, keeping the first (most specific) source and any name
+ */
+export function dedupeDiscoveredSpecs(specs: DiscoveredSpec[]): DiscoveredSpec[] {
+  const byUrl = new Map<string, DiscoveredSpec>();
+  for (const spec of specs) {
+    const existing = byUrl.get(spec.url);
+    if (!existing) {
+      byUrl.set(spec.url, spec);
+    } else if (!existing.name && spec.name) {
+      byUrl.set(spec.url, { ...existing, name: spec.name });
+    }
+  }
+  return Array.from(byUrl.values());
+}
+
+/**
+ * Ask the discovery route which specs live at (or are referenced from) a URL
+ */
+export async function discoverSpecs(url: string, headers: Record<string, string> = getHeadersForUrl(url)): Promise<DiscoveredSpec[]> {
+  const response = await fetch('/api/discover', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url, headers })
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to discover OpenAPI specifications: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return Array.isArray(data.specs) ? data.specs : [];
+}
@@ -0,0 +1,205 @@
+import type { OpenAPISpec } from '@/lib/openapi';
+
+// Root key under which external documents are embedded into the specification
+export const EXTERNAL_DOCUMENTS_KEY = 'x-external-documents';
+
+// Base URL prefix used for documents that come from a local file/folder upload
+export const LOCAL_FILE_BASE = 'file:///';
+
+export type DocumentLoader = (url: string) => Promise<any>;
+
+export type ExternalRefError = {
+  ref: string;
+  message: string;
+};
+
+type BundleOptions = {
+  // URL (or file:/// path) the root document was loaded from
+  baseUrl?: string;
+  loadDocument: DocumentLoader;
+  // Documents already loaded, keyed by absolute URL; shared between runs to avoid refetching
+  cache?: Map<string, Promise<any>>;
+};
+
+/**
+ * Escape a value for use as a single JSON Pointer segment inside a URI fragment
+ */
+function escapePointerSegment(value: string): string {
+  return encodeURIComponent(value.replace(/~/g, '~0').replace(/\//g, '~1'));
+}
+
+/**
+ * Check whether a $ref points outside the current document
+ */
+export function isExternalRef(ref: string): boolean {
+  return typeof ref === 'string' && ref.length > 0 && !ref.startsWith('#');
+}
+
+/**
+ * Resolve the document part of an external reference against a base URL
+ */
+function resolveDocumentUrl(ref: string, baseUrl?: string): string | null {
+  if (!baseUrl && !/^[a-z][a-z0-9+.-]*:/i.test(ref)) {
+    return null;
+  }
+
+  const documentPath = ref.split('#')[0];
+  try {
+    return new URL(documentPath, baseUrl).href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a loader that reads documents from an in-memory set of uploaded files
+ */
+export function createFileLoader(
+  files: Record<string, string>,
+  parse: (text: string, fileName: string) => any
+): DocumentLoader {
+  return async (url: string) => {
+    const path = decodeURIComponent(url.slice(LOCAL_FILE_BASE.length));
+    if (!(path in files)) {
+      throw new Error(`File ${path} was not part of the upload`);
+    }
+    return parse(files[path], path);
+  };
+}
+
+/**
+ * Collect the absolute URLs of the documents referenced from an object
+ */
+function collectDocumentUrls(obj: any, documentUrl: string | null, urls: Set<string>): Set<string> {
+  if (!obj || typeof obj !== 'object') {
+    return urls;
+  }
+
+  for (const [key, value] of Object.entries(obj)) {
+    if (key === '$ref' && typeof value === 'string') {
+      if (isExternalRef(value)) {
+        const targetUrl = resolveDocumentUrl(value, documentUrl || undefined);
+        if (targetUrl) {
+          urls.add(targetUrl);
+        }
+      }
+    } else {
+      collectDocumentUrls(value, documentUrl, urls);
+    }
+  }
+
+  return urls;
+}
+
+/**
+ * Load every document referenced by an external $ref (relative or absolute),
+ * embed it under `x-external-documents` and rewrite the refs into local JSON
+ * Pointers, so the rest of the app only ever resolves local references.
+ * Each document is loaded once; refs that cannot be loaded are left as-is
+ * and reported in `errors`.
+ */
+export async function bundleExternalRefs(
+  spec: OpenAPISpec,
+  { baseUrl, loadDocument, cache = new Map() }: BundleOptions
+): Promise<{ spec: OpenAPISpec; errors: ExternalRefError[] }> {
+  const rootUrl = baseUrl ? resolveDocumentUrl(baseUrl) : null;
+  const loaded = new Map<string, any>();
+  const failed = new Map<string, string>();
+
+  // Walk the document graph breadth-first so documents that reference each other load once
+  const seen = new Set<string>(rootUrl ? [rootUrl] : []);
+  let queue: [any, string | null][] = [[spec, rootUrl]];
+
+  while (queue.length > 0) {
+    const nextQueue: [any, string | null][] = [];
+
+    await Promise.all(queue.flatMap(([document, documentUrl]) =>
+      Array.from(collectDocumentUrls(document, documentUrl, new Set()))
+        .filter(targetUrl => !seen.has(targetUrl))
+        .map(async (targetUrl) => {
+          seen.add(targetUrl);
+          if (!cache.has(targetUrl)) {
+            cache.set(targetUrl, loadDocument(targetUrl));
+          }
+
+          try {
+            const document = await cache.get(targetUrl);
+            loaded.set(targetUrl, document);
+            nextQueue.push([document, targetUrl]);
+          } catch (error) {
+            // Forget failed loads so a later run can retry them
+            cache.delete(targetUrl);
+            failed.set(targetUrl, error instanceof Error ? error.message : String(error));
+          }
+        })
+    ));
+
+    queue = nextQueue;
+  }
+
+  const errors: ExternalRefError[] = [];
+
+  const documentPointer = (documentUrl: string) =>
+    documentUrl === rootUrl ? '#' : `#/${EXTERNAL_DOCUMENTS_KEY}/${escapePointerSegment(documentUrl)}`;
+
+  const rewriteRef = (ref: string, documentUrl: string | null): string => {
+    // Local refs inside an external document point into that document
+    if (!isExternalRef(ref)) {
+      return documentUrl && documentUrl !== rootUrl ? `${documentPointer(documentUrl)}${ref.slice(1)}` : ref;
+    }
+
+    const targetUrl = resolveDocumentUrl(ref, documentUrl || undefined);
+    if (!targetUrl) {
+      errors.push({ ref, message: 'Relative reference cannot be resolved without a base URL' });
+      return ref;
+    }
+
+    if (targetUrl !== rootUrl && !loaded.has(targetUrl)) {
+      errors.push({ ref, message: failed.get(targetUrl) || `Failed to load ${targetUrl}` });
+      return ref;
+    }
+
+    const fragment = ref.includes('#') ? ref.slice(ref.indexOf('#') + 1) : '';
+    return `${documentPointer(targetUrl)}${fragment}`;
+  };
+
+  // Copy an object, pointing its refs at the embedded documents
+  const rewriteRefs = (obj: any, documentUrl: string | null): any => {
+    if (!obj || typeof obj !== 'object') {
+      return obj;
+    }
+
+    if (Array.isArray(obj)) {
+      return obj.map(item => rewriteRefs(item, documentUrl));
+    }
+
+    const result: any = {};
+    for (const [key, value] of Object.entries(obj)) {
+      result[key] = key === '$ref' && typeof value === 'string'
+        ? rewriteRef(value, documentUrl)
+        : rewriteRefs(value, documentUrl);
+    }
+    return result;
+  };
+
+  const bundled = rewriteRefs(spec, rootUrl);
+  if (loaded.size === 0) {
+    return { spec: bundled, errors };
+  }
+
+  const documents: Record<string, any> = {};
+  for (const [documentUrl, document] of loaded) {
+    documents[documentUrl] = rewriteRefs(document, documentUrl);
+  }
+
+  return {
+    spec: {
+      ...bundled,
+      [EXTERNAL_DOCUMENTS_KEY]: {
+        ...(bundled[EXTERNAL_DOCUMENTS_KEY] || {}),
+        ...documents
+      }
+    },
+    errors
+  };
+}
@@ -0,0 +1,334 @@
+import { ProxyBlockedError } from '@/lib/openapi';
+import type { Credentials, OAuthFlow, SchemeCredentials, SecurityScheme } from '@/lib/security';
+
+// OAuth2 flows a token can be requested with (the implicit flow is deprecated and not offered)
+export type OAuthGrant = 'authorizationCode' | 'clientCredentials' | 'password';
+
+export const OAUTH_GRANTS: OAuthGrant[] = ['authorizationCode', 'clientCredentials', 'password'];
+
+const GRANT_TYPES: Record<OAuthGrant, string> = {
+  authorizationCode: 'authorization_code',
+  clientCredentials: 'client_credentials',
+  password: 'password'
+};
+
+// What the Authorize dialog collects to request a token
+export type OAuthSettings = {
+  flow: OAuthGrant;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string[];
+  // How the client secret is sent to the token endpoint
+  clientAuthentication?: 'basic' | 'body';
+};
+
+// Kept next to an access token so it can be renewed when it expires
+export type OAuthTokenState = OAuthSettings & {
+  tokenUrl: string;
+  refreshUrl?: string;
+  refreshToken?: string;
+  // Milliseconds since the epoch; absent when the server did not say
+  expiresAt?: number;
+  // Set on saved tokens obtained with a client secret; the secret is kept in memory only
+  // (see saveCredentials), so it is gone after a reload
+  hasClientSecret?: boolean;
+};
+
+type TokenResponse = {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+};
+
+export class OAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+// Path of the page the authorization server redirects back to (app/oauth-callback)
+export const OAUTH_CALLBACK_PATH = '/oauth-callback';
+
+// Message the callback page posts to the window that opened it
+export const OAUTH_CALLBACK_MESSAGE = 'easy-swagger-oauth-callback';
+
+// Renew tokens a little early so they do not expire while a request is in flight
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+/**
+ * Get the flows of an oauth2 scheme a token can be requested with
+ */
+export function getSupportedFlows(scheme: SecurityScheme): OAuthGrant[] {
+  if (scheme.type !== 'oauth2') {
+    return [];
+  }
+
+  return OAUTH_GRANTS.filter(grant => {
+    const flow = scheme.flows[grant];
+    return !!flow?.tokenUrl && (grant !== 'authorizationCode' || !!flow.authorizationUrl);
+  });
+}
+
+/**
+ * URL to register as the redirect URI of the OAuth2 client
+ */
+export function getOAuthRedirectUri(): string {
+  return `${window.location.origin}${OAUTH_CALLBACK_PATH}`;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function createRandomString(byteLength: number = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * Create a PKCE code verifier and its S256 challenge (RFC 7636)
+ */
+export async function createPkcePair(): Promise<{ verifier: string; challenge: string }> {
+  const verifier = createRandomString();
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return { verifier, challenge: base64UrlEncode(new Uint8Array(digest)) };
+}
+
+/**
+ * Ask the token endpoint for a token through the server-side route
+ */
+async function requestToken(
+  tokenUrl: string,
+  grantType: string,
+  settings: OAuthSettings,
+  params: Record<string, string>,
+  scopes: string[] = settings.scopes
+): Promise<TokenResponse> {
+  const response = await fetch('/api/oauth/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      tokenUrl,
+      grantType,
+      clientId: settings.clientId,
+      clientSecret: settings.clientSecret,
+      clientAuthentication: settings.clientAuthentication,
+      scope: scopes.join(' '),
+      params
+    })
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const errorMessage = data.error || `Token request failed: ${response.statusText}`;
+    if (data.blocked === true) {
+      throw new ProxyBlockedError(errorMessage);
+    }
+    throw new OAuthError(errorMessage);
+  }
+
+  return data;
+}
+
+/**
+ * Turn a token response into credentials, keeping what is needed to renew the token
+ */
+function toCredentials(token: TokenResponse, state: OAuthTokenState): SchemeCredentials {
+  return {
+    value: token.access_token,
+    oauth: {
+      ...state,
+      // Servers may leave out the refresh token on refresh, meaning the old one stays valid
+      refreshToken: token.refresh_token ?? state.refreshToken,
+      expiresAt: token.expires_in ? Date.now() + token.expires_in * 1000 : undefined
+    }
+  };
+}
+
+/**
+ * Wait for the callback page in the popup to send back the authorization code
+ */
+function waitForAuthorizationCode(popup: Window, state: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener('message', handleMessage);
+      clearInterval(closedCheck);
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.type !== OAUTH_CALLBACK_MESSAGE) {
+        return;
+      }
+      // Ignore answers to other authorization attempts
+      if (event.data.state !== state) {
+        return;
+      }
+
+      cleanup();
+      popup.close();
+      if (event.data.error) {
+        reject(new OAuthError(`Authorization failed: ${event.data.errorDescription || event.data.error}`));
+      } else if (!event.data.code) {
+        reject(new OAuthError('Authorization failed: no code was returned'));
+      } else {
+        resolve(event.data.code);
+      }
+    };
+
+    const closedCheck = setInterval(() => {
+      if (popup.closed) {
+        cleanup();
+        reject(new OAuthError('The authorization window was closed before signing in finished'));
+      }
+    }, 500);
+
+    window.addEventListener('message', handleMessage);
+  });
+}
+
+/**
+ * Sign in through the authorization server in a popup and exchange the code for a token
+ * (authorization code flow with PKCE)
+ */
+async function authorizeWithPopup(flow: OAuthFlow, settings: OAuthSettings, popup: Window): Promise<TokenResponse> {
+  const { verifier, challenge } = await createPkcePair();
+  const state = createRandomString(16);
+  const redirectUri = getOAuthRedirectUri();
+
+  const authorizationUrl = new URL(flow.authorizationUrl!);
+  authorizationUrl.searchParams.set('response_type', 'code');
+  authorizationUrl.searchParams.set('client_id', settings.clientId);
+  authorizationUrl.searchParams.set('redirect_uri', redirectUri);
+  authorizationUrl.searchParams.set('state', state);
+  authorizationUrl.searchParams.set('code_challenge', challenge);
+  authorizationUrl.searchParams.set('code_challenge_method', 'S256');
+  if (settings.scopes.length > 0) {
+    authorizationUrl.searchParams.set('scope', settings.scopes.join(' '));
+  }
+
+  popup.location.href = authorizationUrl.href;
+  const code = await waitForAuthorizationCode(popup, state);
+
+  return requestToken(flow.tokenUrl!, GRANT_TYPES.authorizationCode, settings, {
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: verifier
+  });
+}
+
+/**
+ * Get an access token with one of a scheme's flows; the password flow needs the
+ * resource owner's login, which is used once and not kept
+ */
+export async function obtainToken(
+  flow: OAuthFlow,
+  settings: OAuthSettings,
+  login?: { username: string; password: string }
+): Promise<SchemeCredentials> {
+  if (!flow.tokenUrl) {
+    throw new OAuthError('The flow has no token URL');
+  }
+
+  const state: OAuthTokenState = { ...settings, tokenUrl: flow.tokenUrl, refreshUrl: flow.refreshUrl };
+
+  if (settings.flow === 'authorizationCode') {
+    if (!flow.authorizationUrl) {
+      throw new OAuthError('The flow has no authorization URL');
+    }
+    // Open the popup before anything asynchronous so browsers treat it as a response to the click
+    const popup = window.open('about:blank', 'easy-swagger-oauth', 'width=600,height=700');
+    if (!popup) {
+      throw new OAuthError('The authorization window was blocked; allow pop-ups for this site');
+    }
+
+    try {
+      return toCredentials(await authorizeWithPopup(flow, settings, popup), state);
+    } catch (err) {
+      popup.close();
+      throw err;
+    }
+  }
+
+  const params: Record<string, string> = settings.flow === 'password'
+    ? { username: login?.username ?? '', password: login?.password ?? '' }
+    : {};
+  return toCredentials(await requestToken(flow.tokenUrl, GRANT_TYPES[settings.flow], settings, params), state);
+}
+
+/**
+ * Check whether an OAuth2 access token has expired (or is about to)
+ */
+export function isTokenExpired(credentials: SchemeCredentials | undefined, now: number = Date.now()): boolean {
+  const expiresAt = credentials?.oauth?.expiresAt;
+  return expiresAt !== undefined && expiresAt - EXPIRY_MARGIN_MS <= now;
+}
+
+/**
+ * Check whether renewing a token needs the client secret to be entered again
+ */
+export function needsClientSecret(credentials: SchemeCredentials | undefined): boolean {
+  return !!credentials?.oauth?.hasClientSecret && !credentials.oauth.clientSecret;
+}
+
+/**
+ * Check whether an expired token can be renewed without the user: with a refresh token,
+ * or by repeating the client credentials grant
+ */
+export function canRenewToken(credentials: SchemeCredentials | undefined): boolean {
+  const oauth = credentials?.oauth;
+  return !!oauth && !needsClientSecret(credentials) && (!!oauth.refreshToken || oauth.flow === 'clientCredentials');
+}
+
+/**
+ * Get a new access token for expired credentials
+ */
+export async function renewToken(credentials: SchemeCredentials): Promise<SchemeCredentials> {
+  const oauth = credentials.oauth;
+  if (needsClientSecret(credentials)) {
+    throw new OAuthError('The access token has expired and renewing it needs the client secret; enter it again with Authorize');
+  }
+  if (!oauth || !canRenewToken(credentials)) {
+    throw new OAuthError('The access token has expired; get a new one with Authorize');
+  }
+
+  if (oauth.refreshToken) {
+    try {
+      // Refreshing keeps the scopes originally granted (RFC 6749 section 6)
+      const token = await requestToken(
+        oauth.refreshUrl || oauth.tokenUrl,
+        'refresh_token',
+        oauth,
+        { refresh_token: oauth.refreshToken },
+        []
+      );
+      return toCredentials(token, oauth);
+    } catch (err) {
+      // A rejected refresh token can still be replaced by a fresh client credentials grant
+      if (oauth.flow !== 'clientCredentials') {
+        throw err;
+      }
+    }
+  }
+
+  const token = await requestToken(oauth.tokenUrl, GRANT_TYPES.clientCredentials, oauth, {});
+  return toCredentials(token, { ...oauth, refreshToken: undefined });
+}
+
+/**
+ * Renew the expired tokens among the given schemes, returning the same object when
+ * nothing had to change
+ */
+export async function refreshExpiredCredentials(credentials: Credentials, schemeNames: string[]): Promise<Credentials> {
+  let result = credentials;
+  for (const name of schemeNames) {
+    if (isTokenExpired(credentials[name])) {
+      result = { ...result, [name]: await renewToken(credentials[name]) };
+    }
+  }
+  return result;
+}
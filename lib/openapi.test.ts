@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CIRCULAR_REF_KEY,
+  getRefName,
+  isCircularRef,
+  isTruncatedRef,
+  resolveRef,
+  resolveReferences,
+  simplifyMethodInfoForCopy,
+  TRUNCATED_REF_KEY
+} from '@/lib/openapi';
+
+const spec: any = {
+  openapi: '3.0.3',
+  paths: {
+    '/a~1b': { get: { responses: { '200': { description: 'ok' } } } },
+  },
+  components: {
+    schemas: {
+      Category: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          parent: { $ref: '#/components/schemas/Category' },
+        },
+      },
+      Node: {
+        type: 'object',
+        properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Node' } } },
+      },
+      Level1: { type: 'object', properties: { next: { $ref: '#/components/schemas/Level2' } } },
+      Level2: { type: 'object', properties: { next: { $ref: '#/components/schemas/Level3' } } },
+      Level3: { type: 'object', properties: { value: { type: 'string' } } },
+      'Odd~Name/Key': { type: 'string' },
+    },
+    parameters: {
+      Limit: { name: 'limit', in: 'query', schema: { type: 'integer' } },
+    },
+  },
+};
+
+describe('resolveRef', () => {
+  it('follows JSON Pointers into any part of the document', () => {
+    expect(resolveRef(spec, '#/components/parameters/Limit').name).toBe('limit');
+    expect(resolveRef(spec, '#/paths/~1a~01b/get/responses/200')).toEqual({ description: 'ok' });
+    expect(resolveRef(spec, '#/components/schemas/Odd~0Name~1Key')).toEqual({ type: 'string' });
+  });
+
+  it('returns an empty object for missing targets', () => {
+    expect(resolveRef(spec, '#/components/schemas/Missing')).toEqual({});
+  });
+});
+
+describe('getRefName', () => {
+  it('decodes the last pointer segment', () => {
+    expect(getRefName('#/components/schemas/Pet')).toBe('Pet');
+    expect(getRefName('#/components/schemas/Odd~0Name~1Key')).toBe('Odd~Name/Key');
+  });
+});
+
+describe('resolveReferences', () => {
+  it('marks the point where a self-referencing schema repeats', () => {
+    const resolved = resolveReferences(spec, { $ref: '#/components/schemas/Category' });
+    expect(resolved.properties.name).toEqual({ type: 'string' });
+
+    const parent = resolved.properties.parent;
+    expect(isCircularRef(parent)).toBe(true);
+    expect(parent[CIRCULAR_REF_KEY]).toBe('#/components/schemas/Category');
+    expect(parent.title).toBe('↻ Category');
+    expect(parent.type).toBe('object');
+  });
+
+  it('marks recursion through array items', () => {
+    const resolved = resolveReferences(spec, { $ref: '#/components/schemas/Node' });
+    expect(isCircularRef(resolved.properties.children.items)).toBe(true);
+  });
+
+  it('marks references beyond the depth limit as truncated rather than circular', () => {
+    const resolved = resolveReferences(spec, { $ref: '#/components/schemas/Level1' }, { maxDepth: 2 });
+    const level3 = resolved.properties.next.properties.next;
+
+    expect(isCircularRef(level3)).toBe(false);
+    expect(isTruncatedRef(level3)).toBe(true);
+    expect(level3[TRUNCATED_REF_KEY]).toBe('#/components/schemas/Level3');
+    expect(level3.title).toBe('⋯ Level3');
+  });
+
+  it('expands non-repeating references fully within the depth limit', () => {
+    const resolved = resolveReferences(spec, { $ref: '#/components/schemas/Level1' });
+    expect(resolved.properties.next.properties.next.properties.value).toEqual({ type: 'string' });
+  });
+
+  it('resolves the same schema in sibling positions without marking it circular', () => {
+    const resolved = resolveReferences(spec, {
+      type: 'object',
+      properties: {
+        first: { $ref: '#/components/schemas/Level3' },
+        second: { $ref: '#/components/schemas/Level3' },
+      },
+    });
+    expect(resolved.properties.first).toEqual(resolved.properties.second);
+    expect(isCircularRef(resolved.properties.second)).toBe(false);
+  });
+
+  it('merges allOf members into one schema', () => {
+    const resolved = resolveReferences(spec, {
+      allOf: [
+        { $ref: '#/components/schemas/Level3' },
+        { type: 'object', required: ['id'], properties: { id: { type: 'integer' } } },
+      ],
+    });
+    expect(resolved.properties).toEqual({ value: { type: 'string' }, id: { type: 'integer' } });
+    expect(resolved.required).toEqual(['id']);
+  });
+});
+
+describe('simplifyMethodInfoForCopy', () => {
+  const methodInfo = (schema: any) => ({
+    summary: 'Create a pet',
+    requestBody: { content: { 'application/json': { schema } } },
+  });
+
+  it('adds a payload with only the required properties', () => {
+    const copied = simplifyMethodInfoForCopy(methodInfo({
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string', example: 'Rex' },
+        tag: { type: 'string' },
+        owner: { type: 'object', required: ['id'], properties: { id: { type: 'integer' }, email: { type: 'string', format: 'email' } } },
+      },
+    }));
+    expect(copied.summary).toBe('Create a pet');
+    expect(copied.requestBody).toEqual({ name: 'Rex', tag: 'string', owner: { id: 0, email: 'user@example.com' } });
+    expect(copied.requiredOnlyRequestBody).toEqual({ name: 'Rex' });
+  });
+
+  it('leaves it out when every property is required', () => {
+    const copied = simplifyMethodInfoForCopy(methodInfo({
+      type: 'object',
+      required: ['name'],
+      properties: { name: { type: 'string' } },
+    }));
+    expect(copied.requestBody).toEqual({ name: 'string' });
+    expect(copied).not.toHaveProperty('requiredOnlyRequestBody');
+  });
+});
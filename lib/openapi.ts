@@ -1,8 +1,18 @@
+import { convertSwagger2ToOpenAPI3, isSwagger2Spec } from '@/lib/swagger2';
+import { getHeadersForUrl } from '@/lib/request-headers';
+import { generateExample, getMediaTypeExample } from '@/lib/schema-example';
+import { describeVariants, type VariantSelections } from '@/lib/schema-variants';
+
 // Types for OpenAPI specification
 export type OpenAPISpec = {
   paths?: Record<string, PathItem>;
   components?: {
     schemas?: Record<string, any>;
+    parameters?: Record<string, any>;
+    responses?: Record<string, any>;
+    requestBodies?: Record<string, any>;
+    securitySchemes?: Record<string, any>;
+    [key: string]: any;
   };
   openapi?: string;
   swagger?: string;
@@ -20,8 +30,36 @@ export class AuthPageError extends Error {
   }
 }
 
+// Custom error for URLs the proxy refuses to fetch (SSRF policy)
+export class ProxyBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProxyBlockedError';
+  }
+}
+
+// HTTP methods an OpenAPI path item can define operations for
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+export type ServerVariable = {
+  default: string;
+  enum?: string[];
+  description?: string;
+};
+
+export type ServerObject = {
+  url: string;
+  description?: string;
+  variables?: Record<string, ServerVariable>;
+};
+
 export type PathItem = {
-  [method: string]: MethodInfo;
+  summary?: string;
+  description?: string;
+  servers?: ServerObject[];
+  parameters?: Parameter[];
+  // Operations keyed by HTTP method (see HTTP_METHODS)
+  [method: string]: MethodInfo | any;
 };
 
 export type MethodInfo = {
@@ -47,44 +85,129 @@ export type Parameter = {
 
 export type EndpointInfo = {
   endpoint: string;
-  methods: Record<string, {
-    tags: string[];
-    parameters: Parameter[];
-    responses: Record<string, any>;
-    requestBody?: any;
-  }>;
+  summary?: string;
+  description?: string;
+  servers?: ServerObject[];
+  methods: Record<string, EndpointMethodInfo>;
   error?: string;
+  // Set on index entries whose parameters, request bodies and responses are not resolved yet
+  // (see indexAllEndpoints / resolveEndpointInfo)
+  lazy?: boolean;
 };
 
+export type EndpointMethodInfo = {
+  summary?: string;
+  description?: string;
+  operationId?: string;
+  deprecated?: boolean;
+  tags: string[];
+  parameters: Parameter[];
+  responses: Record<string, any>;
+  requestBody?: any;
+  security?: Record<string, string[]>[];
+  externalDocs?: { url: string; description?: string };
+  // Servers this operation is served from instead of the path's or document's
+  servers?: ServerObject[];
+  // Specification extensions (x-*) declared on the operation
+  extensions?: Record<string, any>;
+};
+
+// Validators of a fetched spec (ETag / Last-Modified), sent back to ask whether it changed
+export type SpecValidators = {
+  etag?: string;
+  lastModified?: string;
+};
+
+export type ConditionalSpecDocument =
+  | { notModified: true }
+  | { notModified: false; data: any; validators: SpecValidators };
+
 /**
- * Fetch OpenAPI specification from a URL
+ * Post a document request to the proxy, optionally conditional on earlier validators
  */
-export async function fetchOpenAPISpec(url: string): Promise<OpenAPISpec> {
-  try {
-    // Use our proxy API route to avoid CORS issues
-    const proxyUrl = `/api/proxy?url=${encodeURIComponent(url)}`;
-    const response = await fetch(proxyUrl);
-
-    if (!response.ok) {
-      // Try to parse error details from the response
-      const errorData = await response.json().catch(() => ({}));
-      const errorMessage = errorData.error || `Failed to fetch OpenAPI specification: ${response.statusText}`;
-      throw new Error(errorMessage);
+async function requestSpecDocument(
+  url: string,
+  headers: Record<string, string>,
+  conditional?: SpecValidators
+): Promise<{ data: any; validators: SpecValidators }> {
+  // Use our proxy API route to avoid CORS issues; custom headers for the host are forwarded upstream
+  const response = await fetch('/api/proxy', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url, headers, ...(conditional ? { conditional } : {}) })
+  });
+
+  if (!response.ok) {
+    // Try to parse error details from the response
+    const errorData = await response.json().catch(() => ({}));
+    const errorMessage = errorData.error || `Failed to fetch OpenAPI specification: ${response.statusText}`;
+    if (errorData.blocked === true) {
+      throw new ProxyBlockedError(errorMessage);
     }
+    throw new Error(errorMessage);
+  }
+
+  const data = await response.json();
 
-    const data = await response.json();
+  // Check if the response is an authentication page
+  if (data && data.isAuthPage === true && data.htmlContent) {
+    throw new AuthPageError(data.htmlContent);
+  }
 
-    // Check if the response is an authentication page
-    if (data && data.isAuthPage === true && data.htmlContent) {
-      throw new AuthPageError(data.htmlContent);
+  const etag = response.headers.get('X-Upstream-ETag');
+  const lastModified = response.headers.get('X-Upstream-Last-Modified');
+  return {
+    data,
+    validators: {
+      ...(etag ? { etag } : {}),
+      ...(lastModified ? { lastModified } : {})
     }
+  };
+}
+
+/**
+ * Fetch any JSON or YAML document through the proxy (specs and the files they reference)
+ */
+export async function fetchSpecDocument(url: string, headers: Record<string, string> = getHeadersForUrl(url)): Promise<any> {
+  return (await requestSpecDocument(url, headers)).data;
+}
+
+/**
+ * Fetch a document again only if it changed since the validators were issued.
+ * Without validators (or when the server sends none) the full document is returned.
+ */
+export async function fetchSpecDocumentIfModified(
+  url: string,
+  validators: SpecValidators,
+  headers: Record<string, string> = getHeadersForUrl(url)
+): Promise<ConditionalSpecDocument> {
+  const { data, validators: nextValidators } = await requestSpecDocument(url, headers, validators);
+  if (data && data.notModified === true) {
+    return { notModified: true };
+  }
+  return { notModified: false, data, validators: nextValidators };
+}
+
+/**
+ * Check that a parsed document has the shape of an OpenAPI/Swagger specification
+ */
+export function isOpenAPIDocument(data: any): data is OpenAPISpec {
+  return !!data && typeof data === 'object' && !!(data.paths || data.openapi || data.swagger);
+}
+
+/**
+ * Fetch OpenAPI specification from a URL, with the validators watch mode starts from
+ */
+export async function fetchOpenAPISpecWithValidators(url: string): Promise<{ spec: OpenAPISpec; validators: SpecValidators }> {
+  try {
+    const { data, validators } = await requestSpecDocument(url, getHeadersForUrl(url));
 
     // Validate that the response is a valid OpenAPI spec
-    if (!data || typeof data !== 'object' || (!data.paths && !data.openapi && !data.swagger)) {
+    if (!isOpenAPIDocument(data)) {
       throw new Error('Invalid OpenAPI specification format');
     }
 
-    return data;
+    return { spec: data, validators };
   } catch (error) {
     console.error("Error fetching OpenAPI spec:", error);
     throw error;
@@ -92,88 +215,290 @@ export async function fetchOpenAPISpec(url: string): Promise<OpenAPISpec> {
 }
 
 /**
- * Resolve a schema reference from #/components/schemas/
+ * Fetch OpenAPI specification from a URL
+ */
+export async function fetchOpenAPISpec(url: string): Promise<OpenAPISpec> {
+  return (await fetchOpenAPISpecWithValidators(url)).spec;
+}
+
+/**
+ * Normalize a specification into the OpenAPI 3 shape.
+ * Swagger 2.0 documents are converted; OpenAPI 3 documents are returned unchanged.
+ */
+export function normalizeOpenAPISpec(openApiSpec: OpenAPISpec): OpenAPISpec {
+  return isSwagger2Spec(openApiSpec) ? convertSwagger2ToOpenAPI3(openApiSpec) : openApiSpec;
+}
+
+/**
+ * Decode a single JSON Pointer segment (RFC 6901), including URI escapes
+ */
+function decodePointerSegment(segment: string): string {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  return decoded.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Resolve a JSON Pointer (e.g. "/components/schemas/Pet") against a document
+ * Returns undefined when any segment of the pointer does not exist
  */
-export function resolveSchemaRef(openApiSpec: OpenAPISpec, ref: string): any {
-  if (!ref || !ref.startsWith('#/components/schemas/')) {
+export function resolveJsonPointer(document: any, pointer: string): any {
+  if (!pointer) {
+    return document;
+  }
+
+  const segments = pointer.replace(/^\//, '').split('/').map(decodePointerSegment);
+  let current = document;
+
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = Array.isArray(current) ? current[Number(segment)] : current[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Resolve a local reference such as #/components/parameters/Limit or #/paths/~1users/get
+ */
+export function resolveRef(openApiSpec: OpenAPISpec, ref: string): any {
+  if (!ref || !ref.startsWith('#')) {
     return {};
   }
 
-  const schemaName = ref.split('/').pop();
-  return openApiSpec.components?.schemas?.[schemaName as string] || {};
+  const resolved = resolveJsonPointer(openApiSpec, ref.slice(1));
+  return resolved === undefined ? {} : resolved;
+}
+
+// Default number of nested $refs followed before a reference is left unexpanded
+export const DEFAULT_MAX_REF_DEPTH = 8;
+
+// Key that marks where reference resolution stopped because of recursion
+export const CIRCULAR_REF_KEY = 'x-circular-ref';
+
+// Key that marks where reference resolution stopped because `maxDepth` references were open
+export const TRUNCATED_REF_KEY = 'x-truncated-ref';
+
+export type ResolveOptions = {
+  maxDepth?: number;
+};
+
+/**
+ * Get the display name of a reference (the last JSON Pointer segment)
+ */
+export function getRefName(ref: string): string {
+  const segments = ref.split('/');
+  return decodePointerSegment(segments[segments.length - 1] || ref);
+}
+
+/**
+ * Check whether a resolved schema is a recursion marker
+ */
+export function isCircularRef(schema: any): boolean {
+  return !!schema && typeof schema === 'object' && typeof schema[CIRCULAR_REF_KEY] === 'string';
+}
+
+/**
+ * Check whether a resolved schema is a depth limit marker
+ */
+export function isTruncatedRef(schema: any): boolean {
+  return !!schema && typeof schema === 'object' && typeof schema[TRUNCATED_REF_KEY] === 'string';
+}
+
+/**
+ * Get the reference a recursion or depth limit marker stands for, or undefined for other schemas
+ */
+export function getUnexpandedRef(schema: any): string | undefined {
+  if (isCircularRef(schema)) return schema[CIRCULAR_REF_KEY];
+  if (isTruncatedRef(schema)) return schema[TRUNCATED_REF_KEY];
+  return undefined;
+}
+
+/**
+ * Check whether a resolved schema is a marker left where resolution stopped, for recursion
+ * or depth
+ */
+export function isUnexpandedRef(schema: any): boolean {
+  return getUnexpandedRef(schema) !== undefined;
+}
+
+/**
+ * Create the marker that replaces a reference which is not expanded: "↻ Category" where it
+ * would recurse, "⋯ Category" where the depth limit is reached
+ */
+function createRefMarker(key: string, ref: string, target: any): any {
+  return {
+    [key]: ref,
+    title: `${key === CIRCULAR_REF_KEY ? '↻' : '⋯'} ${getRefName(ref)}`,
+    ...(target && typeof target.type === 'string' ? { type: target.type } : {})
+  };
 }
 
 /**
- * Recursively resolve schema references in an object
+ * Recursively resolve references in an object.
+ * Self-referencing schemas are expanded until the reference repeats and then replaced by a
+ * recursion marker; references nested deeper than `maxDepth` get a depth limit marker.
  */
-export function resolveReferences(openApiSpec: OpenAPISpec, obj: any): any {
+export function resolveReferences(openApiSpec: OpenAPISpec, obj: any, options: ResolveOptions = {}): any {
+  return resolveReferencesWithStack(openApiSpec, obj, options.maxDepth ?? DEFAULT_MAX_REF_DEPTH, []);
+}
+
+// The reference each resolved object was read from (objects are recreated on every resolve)
+const resolvedRefs = new WeakMap<object, string>();
+
+function resolveReferencesWithStack(openApiSpec: OpenAPISpec, obj: any, maxDepth: number, refStack: string[]): any {
   if (!obj || typeof obj !== 'object') {
     return obj;
   }
 
   // If it's an array, resolve references for each item
   if (Array.isArray(obj)) {
-    return obj.map(item => resolveReferences(openApiSpec, item));
+    return obj.map(item => resolveReferencesWithStack(openApiSpec, item, maxDepth, refStack));
   }
 
   // If it has a $ref property, resolve it
   if (obj.$ref && typeof obj.$ref === 'string') {
-    const resolved = resolveSchemaRef(openApiSpec, obj.$ref);
-    // Merge the resolved schema with the original object (excluding $ref)
+    const resolved = resolveRef(openApiSpec, obj.$ref);
     const { $ref, ...rest } = obj;
-    // Recursively resolve any nested references in the resolved schema
-    const resolvedWithNestedRefs = resolveReferences(openApiSpec, resolved);
-    return { ...resolvedWithNestedRefs, ...rest };
-  }
 
-  // Special handling for objects with content and schema (request bodies and responses)
-  if (obj.content && typeof obj.content === 'object') {
-    const result = { ...obj };
-
-    // Process each content type (application/json, text/json, etc.)
-    for (const [contentType, contentValue] of Object.entries(obj.content)) {
-      // @ts-ignore
-      if (contentValue && typeof contentValue === 'object' && contentValue.schema) {
-        // Recursively resolve any references in the schema
-        result.content[contentType] = {
-          ...contentValue,
-          // @ts-ignore
-          schema: resolveReferences(openApiSpec, contentValue.schema)
-        };
-      }
+    // Stop at the recursion point instead of expanding forever, and at the depth limit
+    if (refStack.includes($ref)) {
+      return { ...createRefMarker(CIRCULAR_REF_KEY, $ref, resolved), ...rest };
+    }
+    if (refStack.length >= maxDepth) {
+      return { ...createRefMarker(TRUNCATED_REF_KEY, $ref, resolved), ...rest };
     }
 
+    // Recursively resolve any nested references in the resolved object
+    const nextStack = [...refStack, $ref];
+    const resolvedWithNestedRefs = resolveReferencesWithStack(openApiSpec, resolved, maxDepth, nextStack);
+    // Merge the resolved object with the original object (excluding $ref)
+    const result = { ...resolvedWithNestedRefs, ...resolveReferencesWithStack(openApiSpec, rest, maxDepth, refStack) };
+    resolvedRefs.set(result, $ref);
     return result;
   }
 
-  // Special handling for responses that might contain content
-  if (obj.responses && typeof obj.responses === 'object') {
-    const result = { ...obj };
+  // Otherwise, recursively resolve references for all properties
+  // (content schemas, response headers, examples, nested responses, ...)
+  const result: any = {};
+  for (const [key, value] of Object.entries(obj)) {
+    result[key] = key === 'allOf' && Array.isArray(value)
+      ? value.map(member => resolveAllOfMember(openApiSpec, member, maxDepth, refStack))
+      : resolveReferencesWithStack(openApiSpec, value, maxDepth, refStack);
+  }
 
-    // Process each response
-    for (const [statusCode, responseValue] of Object.entries(obj.responses)) {
-      if (responseValue && typeof responseValue === 'object') {
-        // Recursively resolve any references in the response
-        result.responses[statusCode] = resolveReferences(openApiSpec, responseValue);
-      }
-    }
+  return Array.isArray(result.allOf) ? mergeAllOf(result) : result;
+}
 
-    return result;
+// Keywords that make a schema a polymorphic base
+const POLYMORPHIC_KEYS = ['oneOf', 'anyOf', 'discriminator'];
+
+/**
+ * Copy an object without the given keys
+ */
+function omitKeys(obj: any, keys: string[]): any {
+  return Object.fromEntries(Object.entries(obj).filter(([key]) => !keys.includes(key)));
+}
+
+/**
+ * Resolve a member of an `allOf`. A subtype usually extends the base schema whose oneOf
+ * lists it, so a base that is already being resolved is expanded once more without its
+ * variants instead of being cut off, keeping the properties it contributes
+ */
+function resolveAllOfMember(openApiSpec: OpenAPISpec, member: any, maxDepth: number, refStack: string[]): any {
+  if (typeof member?.$ref !== 'string' || !refStack.includes(member.$ref) || refStack.length >= maxDepth) {
+    return resolveReferencesWithStack(openApiSpec, member, maxDepth, refStack);
   }
 
-  // Otherwise, recursively resolve references for all properties
+  const base = omitKeys(resolveRef(openApiSpec, member.$ref) || {}, POLYMORPHIC_KEYS);
+  return resolveReferencesWithStack(openApiSpec, base, maxDepth, [...refStack, member.$ref]);
+}
+
+/**
+ * Get the reference a resolved object was read from, e.g. to label oneOf variants
+ */
+export function getResolvedRef(obj: any): string | undefined {
+  if (isUnexpandedRef(obj)) {
+    return getUnexpandedRef(obj);
+  }
+  return obj && typeof obj === 'object' ? resolvedRefs.get(obj) : undefined;
+}
+
+/**
+ * Merge schemas into one: properties are combined (recursively when several schemas
+ * define the same property), `required` lists are joined and other keywords are taken
+ * from the last schema that sets them
+ */
+export function mergeSchemas(schemas: any[]): any {
   const result: any = {};
-  for (const [key, value] of Object.entries(obj)) {
-    result[key] = resolveReferences(openApiSpec, value);
+
+  for (const schema of schemas) {
+    // Recursion and depth limit markers have nothing to merge
+    if (!schema || typeof schema !== 'object' || isUnexpandedRef(schema)) {
+      continue;
+    }
+
+    const { properties, required, ...rest } = schema;
+    Object.assign(result, rest);
+
+    if (properties && typeof properties === 'object') {
+      result.properties = { ...result.properties };
+      for (const [name, property] of Object.entries<any>(properties)) {
+        const existing = result.properties[name];
+        result.properties[name] = existing && !isUnexpandedRef(existing) && !isUnexpandedRef(property)
+          ? mergeSchemas([existing, property])
+          : property;
+      }
+    }
+    if (Array.isArray(required)) {
+      result.required = [...new Set([...(result.required || []), ...required])];
+    }
   }
 
   return result;
 }
 
+/**
+ * Replace a schema's `allOf` by the single schema its members describe together
+ */
+function mergeAllOf(schema: any): any {
+  const { allOf, ...own } = schema;
+  // A member with a discriminator is a polymorphic base: its discriminator and the
+  // subtypes it lists describe the base, not the schema extending it
+  const members = allOf.map((member: any) =>
+    member && typeof member === 'object' && member.discriminator ? omitKeys(member, POLYMORPHIC_KEYS) : member
+  );
+
+  // Keywords next to allOf take precedence over the members'
+  return mergeSchemas([...members, own]);
+}
+
+/**
+ * Merge path-level parameters into an operation's parameters.
+ * An operation parameter overrides a path-level one with the same name and location.
+ */
+export function mergeParameters(pathParameters: Parameter[], operationParameters: Parameter[]): Parameter[] {
+  const operationKeys = new Set(operationParameters.map(param => `${param.name}:${param.in}`));
+  return [
+    ...pathParameters.filter(param => !operationKeys.has(`${param.name}:${param.in}`)),
+    ...operationParameters
+  ];
+}
+
 /**
  * Extract all information about a specific endpoint from OpenAPI specification
  */
-export function extractEndpointInfo(openApiSpec: OpenAPISpec, targetEndpoint: string): EndpointInfo {
+export function extractEndpointInfo(
+  openApiSpec: OpenAPISpec,
+  targetEndpoint: string,
+  options: ResolveOptions = {}
+): EndpointInfo {
   if (!openApiSpec.paths || !openApiSpec.paths[targetEndpoint]) {
     return {
       endpoint: targetEndpoint,
@@ -182,46 +507,44 @@ export function extractEndpointInfo(openApiSpec: OpenAPISpec, targetEndpoint: st
     };
   }
 
-  const pathInfo = openApiSpec.paths[targetEndpoint];
+  // Path items may themselves be references to a shared path item
+  const pathInfo: PathItem = resolveReferences(openApiSpec, openApiSpec.paths[targetEndpoint], options);
   const result: EndpointInfo = {
     endpoint: targetEndpoint,
+    ...(pathInfo.summary ? { summary: pathInfo.summary } : {}),
+    ...(pathInfo.description ? { description: pathInfo.description } : {}),
+    ...(pathInfo.servers ? { servers: pathInfo.servers } : {}),
     methods: {}
   };
 
-  // Extract information for each HTTP method
-  for (const [method, methodInfo] of Object.entries(pathInfo)) {
-    if (typeof methodInfo !== 'object') continue;
+  const pathParameters: Parameter[] = Array.isArray(pathInfo.parameters) ? pathInfo.parameters : [];
 
-    const methodData = {
+  // Extract information for each HTTP method, skipping the other path item fields
+  for (const [method, methodInfo] of Object.entries(pathInfo)) {
+    if (!HTTP_METHODS.includes(method.toLowerCase()) || !methodInfo || typeof methodInfo !== 'object') continue;
+
+    // Parameters, shared responses and request bodies are already resolved
+    // together with the path item, including their nested schema references
+    const extensions = Object.fromEntries(
+      Object.entries(methodInfo).filter(([key]) => key.startsWith('x-'))
+    );
+
+    result.methods[method.toUpperCase()] = {
+      ...(methodInfo.summary ? { summary: methodInfo.summary } : {}),
+      ...(methodInfo.description ? { description: methodInfo.description } : {}),
+      ...(methodInfo.operationId ? { operationId: methodInfo.operationId } : {}),
+      ...(methodInfo.deprecated ? { deprecated: true } : {}),
       tags: methodInfo.tags || [],
-      parameters: [],
+      parameters: mergeParameters(pathParameters, methodInfo.parameters || []),
       responses: methodInfo.responses || {},
       ...(methodInfo.requestBody ? {
-        requestBody: resolveReferences(openApiSpec, methodInfo.requestBody)
-      } : {})
+        requestBody: methodInfo.requestBody
+      } : {}),
+      ...(methodInfo.security ? { security: methodInfo.security } : {}),
+      ...(methodInfo.externalDocs ? { externalDocs: methodInfo.externalDocs } : {}),
+      ...(Array.isArray(methodInfo.servers) && methodInfo.servers.length > 0 ? { servers: methodInfo.servers } : {}),
+      ...(Object.keys(extensions).length > 0 ? { extensions } : {})
     };
-
-    // Process parameters and resolve any schema references
-    for (const param of (methodInfo.parameters || [])) {
-      const paramInfo = { ...param };
-
-      // If parameter schema is a reference, resolve it
-      if (paramInfo.schema && paramInfo.schema.$ref) {
-        const refSchema = resolveSchemaRef(openApiSpec, paramInfo.schema.$ref);
-        // Recursively resolve any nested references in the resolved schema
-        const resolvedWithNestedRefs = resolveReferences(openApiSpec, refSchema);
-        paramInfo.schema = { ...resolvedWithNestedRefs };
-
-        // Remove the $ref since we've resolved it
-        // @ts-ignore
-        delete paramInfo.schema.$ref;
-      }
-
-      // @ts-ignore
-      methodData.parameters.push(paramInfo);
-    }
-
-    result.methods[method.toUpperCase()] = methodData;
   }
 
   return result;
@@ -241,7 +564,8 @@ export function extractAllEndpoints(openApiSpec: OpenAPISpec): string[] {
 /**
  * Get detailed information for all endpoints
  */
-export function getAllEndpointsInfo(openApiSpec: OpenAPISpec): Record<string, EndpointInfo> {
+export function getAllEndpointsInfo(spec: OpenAPISpec, options: ResolveOptions = {}): Record<string, EndpointInfo> {
+  const openApiSpec = normalizeOpenAPISpec(spec);
   if (!openApiSpec.paths) {
     return {};
   }
@@ -250,53 +574,123 @@ export function getAllEndpointsInfo(openApiSpec: OpenAPISpec): Record<string, En
   const result: Record<string, EndpointInfo> = {};
 
   for (const endpoint of endpoints) {
-    result[endpoint] = extractEndpointInfo(openApiSpec, endpoint);
+    result[endpoint] = extractEndpointInfo(openApiSpec, endpoint, options);
+  }
+
+  return result;
+}
+
+/**
+ * Build a lightweight entry for an endpoint: summaries, tags and flags only.
+ * Schemas are not resolved, so indexing stays fast on specs with thousands of operations.
+ */
+export function indexEndpointInfo(openApiSpec: OpenAPISpec, targetEndpoint: string): EndpointInfo {
+  const rawPathInfo = openApiSpec.paths?.[targetEndpoint];
+  if (!rawPathInfo) {
+    return extractEndpointInfo(openApiSpec, targetEndpoint);
+  }
+
+  // Follow a shared path item reference one level; operations themselves cannot be references
+  const { $ref, ...pathFields } = rawPathInfo;
+  const pathInfo: PathItem = typeof $ref === 'string' ? { ...resolveRef(openApiSpec, $ref), ...pathFields } : rawPathInfo;
+
+  const result: EndpointInfo = {
+    endpoint: targetEndpoint,
+    ...(pathInfo.summary ? { summary: pathInfo.summary } : {}),
+    ...(pathInfo.description ? { description: pathInfo.description } : {}),
+    methods: {},
+    lazy: true
+  };
+
+  for (const [method, methodInfo] of Object.entries(pathInfo)) {
+    if (!HTTP_METHODS.includes(method.toLowerCase()) || !methodInfo || typeof methodInfo !== 'object') continue;
+
+    result.methods[method.toUpperCase()] = {
+      ...(methodInfo.summary ? { summary: methodInfo.summary } : {}),
+      ...(methodInfo.operationId ? { operationId: methodInfo.operationId } : {}),
+      ...(methodInfo.deprecated ? { deprecated: true } : {}),
+      tags: Array.isArray(methodInfo.tags) ? methodInfo.tags : [],
+      parameters: [],
+      responses: {},
+      // Security requirements never contain references, so the list can show locks right away
+      ...(Array.isArray(methodInfo.security) ? { security: methodInfo.security } : {})
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Index all endpoints without resolving their schemas
+ */
+export function indexAllEndpoints(spec: OpenAPISpec): Record<string, EndpointInfo> {
+  const openApiSpec = normalizeOpenAPISpec(spec);
+  const result: Record<string, EndpointInfo> = {};
+
+  for (const endpoint of extractAllEndpoints(openApiSpec)) {
+    result[endpoint] = indexEndpointInfo(openApiSpec, endpoint);
   }
 
   return result;
 }
 
+// Fully resolved endpoints, per spec object and then per depth and path
+const resolvedEndpointCache = new WeakMap<OpenAPISpec, Map<string, EndpointInfo>>();
+
+/**
+ * Get the fully resolved information for one endpoint, memoized per spec
+ * so expanding or copying the same endpoint again does not re-resolve it
+ */
+export function resolveEndpointInfo(
+  openApiSpec: OpenAPISpec,
+  targetEndpoint: string,
+  options: ResolveOptions = {}
+): EndpointInfo {
+  let cache = resolvedEndpointCache.get(openApiSpec);
+  if (!cache) {
+    cache = new Map();
+    resolvedEndpointCache.set(openApiSpec, cache);
+  }
+
+  const cacheKey = `${options.maxDepth ?? DEFAULT_MAX_REF_DEPTH}:${targetEndpoint}`;
+  let info = cache.get(cacheKey);
+  if (!info) {
+    info = extractEndpointInfo(openApiSpec, targetEndpoint, options);
+    cache.set(cacheKey, info);
+  }
+  return info;
+}
+
 /**
  * Simplify method info for copying to clipboard
- * Extracts essential information and simplifies request body format
+ * Extracts essential information and replaces the request body with an example payload,
+ * built from the given oneOf / anyOf selections, plus one with only the required properties
  */
-export function simplifyMethodInfoForCopy(methodInfo: any): any {
+export function simplifyMethodInfoForCopy(methodInfo: any, variants: VariantSelections = {}): any {
   // Create a copy of the method info to avoid modifying the original
   const simplifiedInfo = { ...methodInfo };
 
-  // Simplify request body if it exists
-  if (simplifiedInfo.requestBody && simplifiedInfo.requestBody.content) {
-    const contentTypes = Object.keys(simplifiedInfo.requestBody.content);
-
-    if (contentTypes.length > 0) {
-      // Get the first content type's schema
-      const firstContentType = contentTypes[0];
-      const schema = simplifiedInfo.requestBody.content[firstContentType].schema;
-
-      if (schema && schema.properties) {
-        // Create a simplified request body with just the properties
-        const simplifiedRequestBody: Record<string, any> = {};
-
-        // For each property, add it to the simplified request body with a simple value
-        Object.entries(schema.properties).forEach(([propName, propValue]: [string, any]) => {
-          // Use the property type to determine a simple value
-          let simpleValue: any = "string";
-
-          if (propValue.type === "integer" || propValue.type === "number") {
-            simpleValue = 0;
-          } else if (propValue.type === "boolean") {
-            simpleValue = false;
-          } else if (propValue.type === "array") {
-            simpleValue = [];
-          } else if (propValue.type === "object") {
-            simpleValue = {};
-          }
-
-          simplifiedRequestBody[propName] = simpleValue;
-        });
-
-        // Replace the original request body with the simplified one
-        simplifiedInfo.requestBody = simplifiedRequestBody;
+  // Replace the request body with an example payload for its first content type
+  const content = simplifiedInfo.requestBody?.content;
+  const contentTypes = Object.keys(content || {});
+
+  if (contentTypes.length > 0) {
+    const mediaType = content[contentTypes[0]];
+    const example = getMediaTypeExample(mediaType, { direction: 'request', variants });
+
+    if (example !== undefined) {
+      simplifiedInfo.requestBody = example;
+
+      // A smaller payload with just the required properties, when the schema has optional ones
+      const requiredOnly = generateExample(mediaType?.schema, { direction: 'request', requiredOnly: true, variants });
+      if (requiredOnly !== undefined && JSON.stringify(requiredOnly) !== JSON.stringify(example)) {
+        simplifiedInfo.requiredOnlyRequestBody = requiredOnly;
+      }
+
+      // List the oneOf / anyOf alternatives next to the example built from the chosen ones
+      const bodyVariants = describeVariants(mediaType?.schema, variants);
+      if (bodyVariants.length > 0) {
+        simplifiedInfo.requestBodyVariants = bodyVariants;
       }
     }
   }
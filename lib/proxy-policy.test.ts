@@ -0,0 +1,239 @@
+import { promises as dns } from 'dns';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  fetchWithPolicy,
+  getTokenPolicy,
+  isPrivateAddress,
+  matchesHostPattern,
+  normalizeHost,
+  ProxyPolicyError,
+  validateProxyUrl,
+  type ProxyPolicy
+} from '@/lib/proxy-policy';
+
+const policy = (overrides: Partial<ProxyPolicy> = {}): ProxyPolicy => ({
+  allowedHosts: [],
+  deniedHosts: ['169.254.169.254', 'metadata.google.internal'],
+  blockPrivateNetworks: true,
+  privateHosts: [],
+  maxRedirects: 5,
+  maxResponseBytes: 1024,
+  ...overrides,
+});
+
+describe('normalizeHost', () => {
+  it('reduces IPv6 addresses that embed an IPv4 address', () => {
+    expect(normalizeHost('[::ffff:7f00:1]')).toBe('127.0.0.1');
+    expect(normalizeHost('::ffff:127.0.0.1')).toBe('127.0.0.1');
+    expect(normalizeHost('::a9fe:a9fe')).toBe('169.254.169.254');
+    expect(normalizeHost('64:ff9b::a9fe:a9fe')).toBe('169.254.169.254');
+    expect(normalizeHost('64:ff9b::10.0.0.1')).toBe('10.0.0.1');
+  });
+
+  it('keeps other hosts as they are', () => {
+    expect(normalizeHost('::1')).toBe('::1');
+    expect(normalizeHost('::')).toBe('::');
+    expect(normalizeHost('2001:db8::1')).toBe('2001:db8::1');
+    expect(normalizeHost('API.Example.com')).toBe('api.example.com');
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '198.18.0.1', '198.19.255.255', '224.0.0.1', '239.255.255.250', '240.0.0.1', '255.255.255.255',
+    '::1', '::', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1',
+    '::ffff:7f00:1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', '::7f00:1', '64:ff9b::7f00:1',
+  ])('blocks %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '198.20.0.1', '203.0.113.10', '2001:db8::1', '::ffff:808:808', '64:ff9b::808:808'])('allows %s', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('matchesHostPattern', () => {
+  it('matches exact names, wildcards and CIDRs', () => {
+    expect(matchesHostPattern('api.example.com', 'api.example.com')).toBe(true);
+    expect(matchesHostPattern('a.b.example.org', '*.example.org')).toBe(true);
+    expect(matchesHostPattern('example.org', '*.example.org')).toBe(true);
+    expect(matchesHostPattern('badexample.org', '*.example.org')).toBe(false);
+    expect(matchesHostPattern('203.0.113.7', '203.0.113.0/24')).toBe(true);
+    expect(matchesHostPattern('203.0.114.7', '203.0.113.0/24')).toBe(false);
+  });
+
+  it('matches IPv6 forms of IPv4 addresses', () => {
+    expect(matchesHostPattern('[::ffff:a9fe:a9fe]', '169.254.169.254')).toBe(true);
+    expect(matchesHostPattern('64:ff9b::a9fe:a9fe', '169.254.0.0/16')).toBe(true);
+    expect(matchesHostPattern('169.254.169.254', '::ffff:169.254.169.254')).toBe(true);
+  });
+});
+
+describe('validateProxyUrl', () => {
+  const expectBlocked = (url: string, options?: Partial<ProxyPolicy>) => {
+    expect(() => validateProxyUrl(url, policy(options))).toThrow(ProxyPolicyError);
+  };
+
+  it('refuses IPv4-mapped loopback and metadata addresses in their URL-normalized form', () => {
+    // WHATWG URL rewrites these to [::ffff:7f00:1] and [::ffff:a9fe:a9fe]
+    expectBlocked('http://[::ffff:127.0.0.1]/');
+    expectBlocked('http://[::ffff:169.254.169.254]/latest');
+    expectBlocked('http://[::ffff:169.254.169.254]/latest', { blockPrivateNetworks: false });
+    expectBlocked('http://[64:ff9b::a9fe:a9fe]/', { blockPrivateNetworks: false });
+  });
+
+  it('refuses private, multicast and reserved literal addresses', () => {
+    expectBlocked('http://127.0.0.1/');
+    expectBlocked('http://2130706433/');
+    expectBlocked('http://198.18.0.1/');
+    expectBlocked('http://224.0.0.1/');
+    expectBlocked('http://[::1]/');
+  });
+
+  it('refuses other protocols and relative URLs', () => {
+    expectBlocked('file:///etc/passwd');
+    expect(() => validateProxyUrl('/spec.json', policy())).toThrow(/absolute URL/);
+  });
+
+  it('applies the allowlist to literal hosts', () => {
+    const allowed = { allowedHosts: ['api.example.com', '203.0.113.0/24'] };
+    expect(validateProxyUrl('https://api.example.com/spec', policy(allowed)).hostname).toBe('api.example.com');
+    expect(validateProxyUrl('http://203.0.113.5/', policy(allowed)).hostname).toBe('203.0.113.5');
+    expectBlocked('http://198.51.100.1/', allowed);
+    expectBlocked('http://[::ffff:c633:6401]/', allowed);
+    // Names are decided by the addresses they resolve to when the allowlist has addresses
+    expect(() => validateProxyUrl('https://other.example.net/', policy(allowed))).not.toThrow();
+    expectBlocked('https://other.example.net/', { allowedHosts: ['api.example.com'] });
+  });
+
+  it('lets exempt hosts use private networks but keeps the denylist', () => {
+    const exempt = { privateHosts: ['10.0.0.0/8', '169.254.169.254'] };
+    expect(validateProxyUrl('http://10.1.2.3/token', policy(exempt)).hostname).toBe('10.1.2.3');
+    expectBlocked('http://127.0.0.1/token', exempt);
+    expectBlocked('http://169.254.169.254/', exempt);
+  });
+
+  it('allows public hosts', () => {
+    expect(validateProxyUrl('https://petstore.swagger.io/v2/swagger.json', policy()).hostname).toBe('petstore.swagger.io');
+  });
+});
+
+describe('getTokenPolicy', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('adds the token hosts to the allowlist and the private network exemptions', () => {
+    process.env.PROXY_ALLOWED_HOSTS = 'api.example.com';
+    process.env.PROXY_TOKEN_HOSTS = 'auth.internal, 10.0.0.0/8';
+    expect(getTokenPolicy()).toMatchObject({
+      allowedHosts: ['api.example.com', 'auth.internal', '10.0.0.0/8'],
+      privateHosts: ['auth.internal', '10.0.0.0/8'],
+    });
+  });
+
+  it('leaves an empty allowlist open', () => {
+    delete process.env.PROXY_ALLOWED_HOSTS;
+    process.env.PROXY_TOKEN_HOSTS = 'auth.internal';
+    expect(getTokenPolicy().allowedHosts).toEqual([]);
+  });
+});
+
+describe('fetchWithPolicy', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+    vi.restoreAllMocks();
+  });
+
+  const resolveTo = (address: string) => {
+    vi.spyOn(dns, 'lookup').mockResolvedValue([{ address, family: address.includes(':') ? 6 : 4 }] as any);
+  };
+
+  it('refuses names that resolve to private or embedded private addresses', async () => {
+    process.env.PROXY_BLOCK_PRIVATE_NETWORKS = 'true';
+
+    resolveTo('10.0.0.5');
+    await expect(fetchWithPolicy('http://internal.example.test/')).rejects.toThrow(/private network address/);
+
+    resolveTo('::ffff:7f00:1');
+    await expect(fetchWithPolicy('http://internal.example.test/')).rejects.toThrow(/private network address/);
+  });
+
+  it('applies the denylist to resolved addresses', async () => {
+    resolveTo('::ffff:a9fe:a9fe');
+    await expect(fetchWithPolicy('http://metadata.example.test/')).rejects.toThrow(/denylist/);
+  });
+
+  it('applies the allowlist to resolved addresses', async () => {
+    const server = http.createServer((_request, response) => response.end('ok'));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      process.env.PROXY_ALLOWED_HOSTS = '127.0.0.0/8';
+      resolveTo('127.0.0.1');
+      const response = await fetchWithPolicy(`http://spec.example.test:${port}/`);
+      expect(response.data).toBe('ok');
+
+      process.env.PROXY_ALLOWED_HOSTS = '10.0.0.0/8';
+      await expect(fetchWithPolicy(`http://other.example.test:${port}/`)).rejects.toThrow(/not in the proxy allowlist/);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('reaches private token endpoints listed in PROXY_TOKEN_HOSTS with the token policy only', async () => {
+    const server = http.createServer((_request, response) => response.end('token'));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      process.env.PROXY_BLOCK_PRIVATE_NETWORKS = 'true';
+      process.env.PROXY_ALLOWED_HOSTS = 'api.example.com';
+      process.env.PROXY_TOKEN_HOSTS = 'auth.example.test';
+      resolveTo('127.0.0.1');
+
+      const response = await fetchWithPolicy(`http://auth.example.test:${port}/token`, { policy: getTokenPolicy() });
+      expect(response.data).toBe('token');
+      await expect(fetchWithPolicy(`http://auth.example.test:${port}/token`)).rejects.toThrow(/not in the proxy allowlist/);
+      await expect(fetchWithPolicy(`http://idp.example.test:${port}/token`, { policy: getTokenPolicy() })).rejects.toThrow(/not in the proxy allowlist/);
+
+      // Without an allowlist the exemption is what lets the request through
+      delete process.env.PROXY_ALLOWED_HOSTS;
+      await expect(fetchWithPolicy(`http://auth.example.test:${port}/token`)).rejects.toThrow(/private network address/);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('sends FormData as multipart with the boundary it is encoded with', async () => {
+    const server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => response.end(JSON.stringify({ contentType: request.headers['content-type'], body })));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      process.env.PROXY_ALLOWED_HOSTS = '127.0.0.1';
+      const formData = new FormData();
+      formData.append('note', 'hello');
+      const response = await fetchWithPolicy(`http://127.0.0.1:${port}/`, { method: 'POST', data: formData });
+
+      const { contentType, body } = JSON.parse(response.data);
+      const boundary = /^multipart\/form-data; boundary=(.+)$/.exec(contentType)?.[1];
+      expect(boundary).toBeTruthy();
+      expect(body).toContain(`--${boundary}\r\nContent-Disposition: form-data; name="note"\r\n\r\nhello\r\n--${boundary}--`);
+    } finally {
+      server.close();
+    }
+  });
+});
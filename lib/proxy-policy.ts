@@ -0,0 +1,373 @@
+import axios, { type AxiosResponse } from 'axios';
+import { promises as dns } from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+// Server-only: outbound request policy for the routes that fetch arbitrary URLs.
+//
+// Configured through environment variables:
+//   PROXY_ALLOWED_HOSTS            comma-separated host patterns / IPv4 CIDRs; when set, nothing else is fetched
+//                                  (names not listed pass when every address they resolve to is listed)
+//   PROXY_DENIED_HOSTS             comma-separated host patterns / IPv4 CIDRs that are never fetched
+//                                  (defaults to the common cloud metadata endpoints)
+//   PROXY_BLOCK_PRIVATE_NETWORKS   "true" to refuse loopback, private, link-local, unique-local, multicast
+//                                  and reserved addresses
+//   PROXY_MAX_REDIRECTS            redirects followed per request (default 5)
+//   PROXY_MAX_RESPONSE_BYTES       largest response body accepted (default 20 MB)
+//   PROXY_TOKEN_HOSTS              comma-separated host patterns / IPv4 CIDRs of OAuth2 token endpoints;
+//                                  token requests to them pass the allowlist and may use private networks
+//
+// Host patterns are exact names ("api.example.com") or wildcards ("*.example.com"). IPv6 addresses
+// that embed an IPv4 address (::ffff:7f00:1, 64:ff9b::a9fe:a9fe) are checked as that IPv4 address.
+
+const DEFAULT_DENIED_HOSTS = '169.254.169.254,169.254.170.2,metadata.google.internal,100.100.100.200,fd00:ec2::254';
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_MAX_RESPONSE_BYTES = 20 * 1024 * 1024;
+
+// Connections are not kept alive, so every request goes through the lookup of its own policy
+// instead of reusing a socket opened under another one (see getTokenPolicy)
+const httpAgent = new http.Agent({ keepAlive: false });
+const httpsAgent = new https.Agent({ keepAlive: false });
+
+export type ProxyPolicy = {
+  allowedHosts: string[];
+  deniedHosts: string[];
+  blockPrivateNetworks: boolean;
+  // Hosts that may be on private networks while blockPrivateNetworks is on
+  privateHosts: string[];
+  maxRedirects: number;
+  maxResponseBytes: number;
+};
+
+// Custom error for requests refused by the proxy policy
+export class ProxyPolicyError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 403) {
+    super(message);
+    this.name = 'ProxyPolicyError';
+    this.status = status;
+  }
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Read the proxy policy from the environment
+ */
+export function getProxyPolicy(): ProxyPolicy {
+  return {
+    allowedHosts: parseList(process.env.PROXY_ALLOWED_HOSTS),
+    deniedHosts: parseList(process.env.PROXY_DENIED_HOSTS ?? DEFAULT_DENIED_HOSTS),
+    blockPrivateNetworks: process.env.PROXY_BLOCK_PRIVATE_NETWORKS === 'true',
+    privateHosts: [],
+    maxRedirects: parsePositiveInt(process.env.PROXY_MAX_REDIRECTS, DEFAULT_MAX_REDIRECTS),
+    maxResponseBytes: parsePositiveInt(process.env.PROXY_MAX_RESPONSE_BYTES, DEFAULT_MAX_RESPONSE_BYTES),
+  };
+}
+
+/**
+ * Read the policy for OAuth2 token requests: the proxy policy, with the PROXY_TOKEN_HOSTS
+ * endpoints added to the allowlist and exempt from the private network check, so
+ * self-hosted identity providers work. The denylist still applies to them.
+ */
+export function getTokenPolicy(): ProxyPolicy {
+  const policy = getProxyPolicy();
+  const tokenHosts = parseList(process.env.PROXY_TOKEN_HOSTS);
+  return {
+    ...policy,
+    allowedHosts: policy.allowedHosts.length > 0 ? [...policy.allowedHosts, ...tokenHosts] : [],
+    privateHosts: tokenHosts,
+  };
+}
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((result, octet) => (result << 8) + Number(octet), 0) >>> 0;
+}
+
+function isInCidr(address: string, cidr: string): boolean {
+  const [range, bits] = cidr.split('/');
+  if (!net.isIPv4(address) || !net.isIPv4(range)) {
+    return false;
+  }
+
+  const prefixLength = Number(bits);
+  const mask = prefixLength === 0 ? 0 : (~0 << (32 - prefixLength)) >>> 0;
+  return (ipv4ToNumber(address) & mask) === (ipv4ToNumber(range) & mask);
+}
+
+/**
+ * Split an IPv6 address into its eight 16-bit groups, or return null for anything else
+ */
+function parseIpv6(address: string): number[] | null {
+  if (!net.isIPv6(address)) {
+    return null;
+  }
+
+  // A dotted IPv4 tail (::ffff:10.0.0.1) stands for the last two groups
+  let text = address.replace(/%.*$/, '');
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[2]);
+    text = `${dotted[1]}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeros = text.includes('::') ? 8 - headGroups.length - tailGroups.length : 0;
+  return [...headGroups, ...Array<string>(zeros).fill('0'), ...tailGroups].map(group => Number.parseInt(group, 16));
+}
+
+/**
+ * Get the IPv4 address carried by an IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96)
+ * or NAT64 (64:ff9b::/96) IPv6 address, which connects to that IPv4 host
+ */
+function getEmbeddedIpv4(address: string): string | undefined {
+  const groups = parseIpv6(address);
+  if (!groups) {
+    return undefined;
+  }
+
+  const isZero = (from: number, to: number) => groups.slice(from, to).every(group => group === 0);
+  const isMapped = isZero(0, 5) && groups[5] === 0xffff;
+  // :: and ::1 are IPv6's own unspecified and loopback addresses
+  const isCompatible = isZero(0, 6) && (groups[6] !== 0 || groups[7] > 1);
+  const isNat64 = groups[0] === 0x64 && groups[1] === 0xff9b && isZero(2, 6);
+  if (!isMapped && !isCompatible && !isNat64) {
+    return undefined;
+  }
+
+  return [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+}
+
+/**
+ * Normalize a host for comparison: lowercase, without IPv6 brackets, and IPv6 addresses
+ * that embed an IPv4 address reduced to that IPv4 address
+ */
+export function normalizeHost(host: string): string {
+  const normalized = host.toLowerCase().replace(/^\[|\]$/g, '');
+  return getEmbeddedIpv4(normalized) ?? normalized;
+}
+
+/**
+ * Check a host name or IP address against a pattern (exact, "*.domain" or IPv4 CIDR)
+ */
+export function matchesHostPattern(host: string, pattern: string): boolean {
+  const normalizedHost = normalizeHost(host);
+
+  if (pattern.includes('/')) {
+    return isInCidr(normalizedHost, pattern);
+  }
+
+  if (pattern.startsWith('*.')) {
+    const domain = pattern.slice(2);
+    return normalizedHost === domain || normalizedHost.endsWith(`.${domain}`);
+  }
+
+  return normalizedHost === normalizeHost(pattern);
+}
+
+const PRIVATE_IPV4_RANGES = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.168.0.0/16',
+  // Benchmarking, multicast and reserved (including broadcast)
+  '198.18.0.0/15',
+  '224.0.0.0/4',
+  '240.0.0.0/4',
+];
+
+/**
+ * Check whether an address is loopback, private, link-local, unique-local, multicast or
+ * reserved, including IPv4 addresses embedded in IPv6 ones
+ */
+export function isPrivateAddress(address: string): boolean {
+  const normalized = normalizeHost(address);
+
+  if (net.isIPv4(normalized)) {
+    return PRIVATE_IPV4_RANGES.some(range => isInCidr(normalized, range));
+  }
+
+  if (net.isIPv6(normalized)) {
+    return normalized === '::' || normalized === '::1' ||
+      /^f[cd][0-9a-f]{2}:/.test(normalized) ||
+      /^fe[89ab][0-9a-f]:/.test(normalized) ||
+      /^ff[0-9a-f]{2}:/.test(normalized);
+  }
+
+  return false;
+}
+
+function isAllowedHost(host: string, policy: ProxyPolicy): boolean {
+  return policy.allowedHosts.length === 0 || policy.allowedHosts.some(pattern => matchesHostPattern(host, pattern));
+}
+
+function isPrivateHostAllowed(host: string, policy: ProxyPolicy): boolean {
+  return policy.privateHosts.some(pattern => matchesHostPattern(host, pattern));
+}
+
+/**
+ * Check whether the allowlist has IP or CIDR entries, which a name can satisfy through
+ * the addresses it resolves to
+ */
+function allowsAddresses(policy: ProxyPolicy): boolean {
+  return policy.allowedHosts.some(pattern => pattern.includes('/') || net.isIP(normalizeHost(pattern)) !== 0);
+}
+
+/**
+ * Check a host name or resolved address against the denylist
+ */
+function checkHost(host: string, policy: ProxyPolicy): void {
+  if (policy.deniedHosts.some(pattern => matchesHostPattern(host, pattern))) {
+    throw new ProxyPolicyError(`Host ${host} is blocked by the proxy denylist`);
+  }
+}
+
+/**
+ * Validate a URL before it is requested: protocol, allowlist, denylist and literal IPs
+ */
+export function validateProxyUrl(url: string, policy: ProxyPolicy = getProxyPolicy()): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ProxyPolicyError('URL parameter must be an absolute URL', 400);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new ProxyPolicyError(`Protocol ${parsed.protocol} is not allowed; only http and https URLs can be fetched`);
+  }
+
+  // Names the allowlist does not list may still resolve to an allowed address; the lookup decides
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (!isAllowedHost(host, policy) && (net.isIP(host) || !allowsAddresses(policy))) {
+    throw new ProxyPolicyError(`Host ${host} is not in the proxy allowlist`);
+  }
+
+  checkHost(host, policy);
+
+  // Literal IPs never go through DNS, so check them here
+  if (net.isIP(host) && policy.blockPrivateNetworks && isPrivateAddress(host) && !isPrivateHostAllowed(host, policy)) {
+    throw new ProxyPolicyError(`Host ${host} is a private network address`);
+  }
+
+  return parsed;
+}
+
+/**
+ * DNS lookup that refuses addresses the policy does not allow, checked at
+ * connection time so a name cannot resolve to a different address later
+ */
+function createPolicyLookup(policy: ProxyPolicy) {
+  return async (hostname: string) => {
+    const addresses = await dns.lookup(hostname, { all: true });
+    const isHostAllowed = isAllowedHost(hostname, policy);
+    const isPrivateHost = isPrivateHostAllowed(hostname, policy);
+
+    for (const { address } of addresses) {
+      checkHost(address, policy);
+      if (!isHostAllowed && !isAllowedHost(address, policy)) {
+        throw new ProxyPolicyError(`Host ${hostname} resolves to ${address}, which is not in the proxy allowlist`);
+      }
+      if (policy.blockPrivateNetworks && isPrivateAddress(address) && !isPrivateHost && !isPrivateHostAllowed(address, policy)) {
+        throw new ProxyPolicyError(`Host ${hostname} resolves to a private network address`);
+      }
+    }
+
+    return [addresses] as [typeof addresses];
+  };
+}
+
+type PolicyRequestOptions = {
+  method?: string;
+  headers?: Record<string, string>;
+  // User-configured headers; only sent while the request stays on the original host
+  forwardedHeaders?: Record<string, string>;
+  // Text bodies are sent as they are; FormData is encoded as multipart with its boundary
+  data?: string | FormData;
+  timeout?: number;
+  // Return 4xx/5xx responses instead of throwing, for callers that show them as they are
+  acceptErrorStatus?: boolean;
+  // Policy to apply instead of the proxy policy (see getTokenPolicy)
+  policy?: ProxyPolicy;
+};
+
+/**
+ * Request a URL as text under the proxy policy (GET unless another method is given).
+ * Redirects are followed manually so every hop is validated, and forwarded headers
+ * are dropped when a redirect leaves the original host.
+ */
+export async function fetchWithPolicy(
+  url: string,
+  { method = 'GET', headers = {}, forwardedHeaders = {}, data, timeout = 10000, acceptErrorStatus = false, policy = getProxyPolicy() }: PolicyRequestOptions = {}
+): Promise<AxiosResponse<string> & { finalUrl: string }> {
+  const originalHost = validateProxyUrl(url, policy).host;
+  const lookup = createPolicyLookup(policy);
+  let currentUrl = url;
+  let currentMethod = method.toUpperCase();
+  let currentData = data;
+
+  for (let redirects = 0; ; redirects++) {
+    const currentHost = validateProxyUrl(currentUrl, policy).host;
+
+    let response: AxiosResponse<string>;
+    try {
+      response = await axios.request<string>({
+        url: currentUrl,
+        method: currentMethod,
+        data: currentData,
+        headers: {
+          ...headers,
+          ...(currentHost === originalHost ? forwardedHeaders : {}),
+        },
+        timeout,
+        responseType: 'text',
+        maxRedirects: 0,
+        maxContentLength: policy.maxResponseBytes,
+        validateStatus: status => status >= 200 && (acceptErrorStatus || status < 400),
+        lookup,
+        httpAgent,
+        httpsAgent,
+      });
+    } catch (error) {
+      // The lookup error is wrapped by axios; surface the policy violation itself
+      if (axios.isAxiosError(error) && error.cause instanceof ProxyPolicyError) {
+        throw error.cause;
+      }
+      if (axios.isAxiosError(error) && /maxContentLength/.test(error.message)) {
+        throw new ProxyPolicyError(`Response is larger than the ${policy.maxResponseBytes} byte limit`, 413);
+      }
+      throw error;
+    }
+
+    const location = response.headers['location'];
+    if (response.status < 300 || !location) {
+      return Object.assign(response, { finalUrl: currentUrl });
+    }
+
+    if (redirects >= policy.maxRedirects) {
+      throw new ProxyPolicyError(`Too many redirects (limit is ${policy.maxRedirects})`, 508);
+    }
+
+    currentUrl = new URL(location, currentUrl).href;
+
+    // Like browsers: 303 (and 301/302 after a POST) continue as a GET without the body
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && currentMethod === 'POST')) {
+      currentMethod = currentMethod === 'HEAD' ? 'HEAD' : 'GET';
+      currentData = undefined;
+    }
+  }
+}
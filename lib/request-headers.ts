@@ -0,0 +1,113 @@
+export type HeaderPair = {
+  key: string;
+  value: string;
+};
+
+// localStorage key holding the custom headers remembered for each spec host
+const STORAGE_KEY = 'swagger-headers';
+
+// Headers that must never be forwarded by the proxy
+const FORBIDDEN_HEADERS = ['host', 'content-length', 'connection', 'transfer-encoding', 'upgrade', 'keep-alive'];
+
+/**
+ * Check whether a header usually carries a credential and should be masked
+ */
+export function isSensitiveHeader(name: string): boolean {
+  return /authorization|cookie|token|secret|api[-_]?key|password|session|credential/i.test(name);
+}
+
+/**
+ * Mask a header value for display or logging, keeping a short hint of the start
+ */
+export function maskHeaderValue(value: string): string {
+  if (value.length <= 8) {
+    return '•'.repeat(value.length);
+  }
+  return `${value.slice(0, 4)}${'•'.repeat(8)}`;
+}
+
+/**
+ * Get the host a URL points at, or null for anything that is not an absolute URL
+ */
+export function getUrlHost(url: string): string | null {
+  try {
+    return new URL(url).host || null;
+  } catch {
+    return null;
+  }
+}
+
+function readStoredHeaders(): Record<string, HeaderPair[]> {
+  if (typeof window === 'undefined') {
+    return {};
+  }
+
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (err) {
+    console.error('Error parsing saved headers:', err instanceof Error ? err.message : err);
+    localStorage.removeItem(STORAGE_KEY);
+    return {};
+  }
+}
+
+/**
+ * Load the headers remembered for a host
+ */
+export function loadHostHeaders(host: string): HeaderPair[] {
+  return readStoredHeaders()[host] || [];
+}
+
+/**
+ * Remember the headers for a host (an empty list forgets them)
+ */
+export function saveHostHeaders(host: string, headers: HeaderPair[]): void {
+  const stored = readStoredHeaders();
+  const nonEmpty = headers.filter(header => header.key.trim() || header.value);
+
+  if (nonEmpty.length > 0) {
+    stored[host] = nonEmpty;
+  } else {
+    delete stored[host];
+  }
+
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+/**
+ * Turn header pairs into a headers object, dropping blank names and forbidden headers
+ */
+export function toHeaderRecord(headers: HeaderPair[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const { key, value } of headers) {
+    const name = key.trim();
+    if (name && !FORBIDDEN_HEADERS.includes(name.toLowerCase())) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Get the custom headers to send along when fetching a URL, based on its host
+ */
+export function getHeadersForUrl(url: string): Record<string, string> {
+  const host = getUrlHost(url);
+  return host ? toHeaderRecord(loadHostHeaders(host)) : {};
+}
+
+/**
+ * Validate headers received by a server route, keeping only string values
+ */
+export function sanitizeForwardedHeaders(headers: unknown): Record<string, string> {
+  if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
+    return {};
+  }
+
+  return toHeaderRecord(
+    Object.entries(headers as Record<string, unknown>)
+      .filter(([, value]) => typeof value === 'string')
+      .map(([key, value]) => ({ key, value: value as string }))
+  );
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { EndpointMethodInfo } from '@/lib/openapi';
+import { buildRunnerRequest, getExampleBody, getFormFields } from '@/lib/request-runner';
+
+const methodInfo = {
+  parameters: [],
+  responses: {},
+  requestBody: {
+    content: {
+      'application/json': {
+        schema: { type: 'object', properties: { name: { type: 'string', example: 'Rex' } } },
+      },
+      'application/x-www-form-urlencoded': {
+        schema: {
+          type: 'object',
+          properties: { grant: { type: 'string', example: 'code' }, scope: { type: 'array', items: { type: 'string', example: 'read' } } },
+        },
+      },
+      'multipart/form-data': {
+        schema: { type: 'object', properties: { note: { type: 'string', example: 'hello' } } },
+      },
+      'text/plain': { example: 'plain text' },
+    },
+  },
+} as unknown as EndpointMethodInfo;
+
+const build = (body: string, contentType: string) => buildRunnerRequest({
+  method: 'post',
+  baseUrl: 'https://api.example.com',
+  path: '/pets',
+  parameters: [],
+  values: {},
+  body,
+  contentType,
+});
+
+describe('getExampleBody', () => {
+  it('generates the example from the schema of the given content type', () => {
+    expect(JSON.parse(getExampleBody(methodInfo, 'application/json'))).toEqual({ name: 'Rex' });
+    expect(getExampleBody(methodInfo, 'application/x-www-form-urlencoded')).toBe('grant=code&scope=read');
+    expect(JSON.parse(getExampleBody(methodInfo, 'multipart/form-data'))).toEqual({ note: 'hello' });
+    expect(getExampleBody(methodInfo, 'text/plain')).toBe('plain text');
+  });
+
+  it('returns an empty body for content types the operation does not declare', () => {
+    expect(getExampleBody(methodInfo, 'application/xml')).toBe('');
+  });
+});
+
+describe('getFormFields', () => {
+  it('reads JSON objects, repeating array fields and serializing nested objects', () => {
+    expect(getFormFields('{"a": 1, "b": ["x", "y"], "c": {"d": true}}')).toEqual([
+      ['a', '1'], ['b', 'x'], ['b', 'y'], ['c', '{"d":true}'],
+    ]);
+  });
+
+  it('reads URL-encoded fields', () => {
+    expect(getFormFields('a=1&b=two%20words')).toEqual([['a', '1'], ['b', 'two words']]);
+  });
+
+  it('refuses JSON that is not an object', () => {
+    expect(() => getFormFields('[1, 2]')).toThrow(/JSON object of fields/);
+  });
+});
+
+describe('buildRunnerRequest', () => {
+  it('URL-encodes form bodies', () => {
+    const request = build('{"name": "Rex & co", "tags": ["a", "b"]}', 'application/x-www-form-urlencoded');
+    expect(request.body).toBe('name=Rex+%26+co&tags=a&tags=b');
+    expect(request.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+  });
+
+  it('sends multipart bodies as fields, leaving the Content-Type to the encoder', () => {
+    const request = build('{"note": "hello"}', 'multipart/form-data');
+    expect(request.formData).toEqual([['note', 'hello']]);
+    expect(request.body).toBeUndefined();
+    expect(request.headers).not.toHaveProperty('Content-Type');
+  });
+
+  it('sends other bodies as they are', () => {
+    const request = build('{"name": "Rex"}', 'application/json');
+    expect(request.body).toBe('{"name": "Rex"}');
+    expect(request.headers['Content-Type']).toBe('application/json');
+  });
+});
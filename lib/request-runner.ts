@@ -0,0 +1,204 @@
+import {
+  ProxyBlockedError,
+  type EndpointMethodInfo,
+  type Parameter
+} from '@/lib/openapi';
+import { getHeadersForUrl } from '@/lib/request-headers';
+import { getMediaTypeExample } from '@/lib/schema-example';
+import type { VariantSelections } from '@/lib/schema-variants';
+
+// A request built from an operation, sent through /api/request
+export type RunnerRequest = {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  // multipart/form-data fields, encoded by the route so the boundary matches the Content-Type it sends
+  formData?: [string, string][];
+};
+
+export type RunnerResponse = {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  size: number;
+  durationMs: number;
+  finalUrl: string;
+};
+
+// Values entered for an operation's parameters, keyed by getParameterKey
+export type ParameterValues = Record<string, string>;
+
+/**
+ * Key of a parameter in ParameterValues ("query:limit", "path:id", ...)
+ */
+export function getParameterKey(parameter: Parameter): string {
+  return `${parameter.in}:${parameter.name}`;
+}
+
+/**
+ * Split a form body into fields. The body is either a JSON object (arrays repeat the field,
+ * nested objects are sent as JSON) or already URL-encoded (a=1&b=2).
+ */
+export function getFormFields(body: string): [string, string][] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return [...new URLSearchParams(body.trim())];
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Form bodies must be a JSON object of fields or URL-encoded fields');
+  }
+
+  const toFieldValue = (value: unknown) => (value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value));
+  return Object.entries(parsed).flatMap(([name, value]) =>
+    Array.isArray(value)
+      ? value.map((item): [string, string] => [name, toFieldValue(item)])
+      : [[name, toFieldValue(value)] as [string, string]]
+  );
+}
+
+/**
+ * Example request body for a content type, generated from that content type's own
+ * example or schema and serialized for it (JSON, form fields, or text as it is)
+ */
+export function getExampleBody(methodInfo: EndpointMethodInfo, contentType: string, variants?: VariantSelections): string {
+  const example = getMediaTypeExample(methodInfo.requestBody?.content?.[contentType], { direction: 'request', variants });
+  if (example === undefined) {
+    return '';
+  }
+
+  // Text payloads (XML, plain text) are documented as strings and sent as they are
+  if (typeof example === 'string' && !/json/i.test(contentType)) {
+    return example;
+  }
+
+  if (/x-www-form-urlencoded/i.test(contentType) && example && typeof example === 'object') {
+    return new URLSearchParams(getFormFields(JSON.stringify(example))).toString();
+  }
+
+  return JSON.stringify(example, null, 2);
+}
+
+/**
+ * Build the request for an operation from the entered parameter values and body.
+ * Form bodies are encoded for their content type. Throws when a required parameter
+ * has no value or a form body cannot be read as fields.
+ */
+export function buildRunnerRequest({
+  method,
+  baseUrl,
+  path,
+  parameters,
+  values,
+  body,
+  contentType
+}: {
+  method: string;
+  baseUrl: string;
+  path: string;
+  parameters: Parameter[];
+  values: ParameterValues;
+  body?: string;
+  contentType?: string;
+}): RunnerRequest {
+  let resolvedPath = path;
+  const query = new URLSearchParams();
+  const headers: Record<string, string> = {};
+  const cookies: string[] = [];
+
+  for (const parameter of parameters) {
+    const value = values[getParameterKey(parameter)] ?? '';
+    if (value === '') {
+      if (parameter.required) {
+        throw new Error(`Missing required ${parameter.in} parameter ${parameter.name}`);
+      }
+      continue;
+    }
+
+    switch (parameter.in) {
+      case 'path':
+        resolvedPath = resolvedPath.split(`{${parameter.name}}`).join(encodeURIComponent(value));
+        break;
+      case 'query':
+        // Arrays are entered comma-separated and sent exploded (?id=1&id=2), the OpenAPI default
+        if (parameter.schema?.type === 'array') {
+          value.split(',').map(item => item.trim()).filter(Boolean).forEach(item => query.append(parameter.name, item));
+        } else {
+          query.append(parameter.name, value);
+        }
+        break;
+      case 'header':
+        headers[parameter.name] = value;
+        break;
+      case 'cookie':
+        cookies.push(`${parameter.name}=${encodeURIComponent(value)}`);
+        break;
+    }
+  }
+
+  if (cookies.length > 0) {
+    headers['Cookie'] = cookies.join('; ');
+  }
+
+  const hasBody = body !== undefined && body.trim() !== '';
+  let encodedBody: Pick<RunnerRequest, 'body' | 'formData'> = hasBody ? { body } : {};
+  if (hasBody && /multipart\/form-data/i.test(contentType || '')) {
+    // The Content-Type with its boundary is set where the fields are encoded
+    encodedBody = { formData: getFormFields(body) };
+  } else if (hasBody && contentType) {
+    headers['Content-Type'] = contentType;
+    if (/x-www-form-urlencoded/i.test(contentType)) {
+      encodedBody = { body: new URLSearchParams(getFormFields(body)).toString() };
+    }
+  }
+
+  const queryString = query.toString();
+  return {
+    method: method.toUpperCase(),
+    url: `${baseUrl}${resolvedPath}${queryString ? `?${queryString}` : ''}`,
+    headers,
+    ...encodedBody
+  };
+}
+
+/**
+ * Send a request through the runner route; API error statuses are returned, not thrown.
+ * Headers remembered for the target host are sent along, under the request's own headers.
+ */
+export async function sendRunnerRequest(request: RunnerRequest): Promise<RunnerResponse> {
+  const response = await fetch('/api/request', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...request, headers: { ...getHeadersForUrl(request.url), ...request.headers } })
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const errorMessage = data.error || `Request failed: ${response.statusText}`;
+    if (data.blocked === true) {
+      throw new ProxyBlockedError(errorMessage);
+    }
+    throw new Error(errorMessage);
+  }
+
+  return data;
+}
+
+/**
+ * Pretty-print JSON response bodies, leaving anything else as it is
+ */
+export function formatResponseBody(body: string, contentType: string = ''): string {
+  if (!/json/i.test(contentType) && !/^\s*[[{]/.test(body)) {
+    return body;
+  }
+
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
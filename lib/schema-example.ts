@@ -0,0 +1,354 @@
+import { isUnexpandedRef } from '@/lib/openapi';
+import { getSchemaVariants, getSelectedVariant, getVariantLocation, type VariantSelections } from '@/lib/schema-variants';
+
+export type ExampleOptions = {
+  // Requests leave out readOnly properties, responses writeOnly ones
+  direction?: 'request' | 'response';
+  // Leave out optional properties
+  requiredOnly?: boolean;
+  maxDepth?: number;
+  // oneOf / anyOf alternative to use per schema location (the first by default)
+  variants?: VariantSelections;
+};
+
+// Nesting depth after which objects and arrays are left empty
+const DEFAULT_MAX_DEPTH = 10;
+
+// Sample values that are valid for each string format
+const FORMAT_EXAMPLES: Record<string, string> = {
+  'date-time': '2024-01-15T09:30:00Z',
+  'date': '2024-01-15',
+  'time': '09:30:00',
+  'duration': 'P1D',
+  'uuid': '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  'email': 'user@example.com',
+  'idn-email': 'user@example.com',
+  'uri': 'https://example.com',
+  'url': 'https://example.com',
+  'uri-reference': '/example',
+  'iri': 'https://example.com',
+  'hostname': 'example.com',
+  'idn-hostname': 'example.com',
+  'ipv4': '192.168.0.1',
+  'ipv6': '2001:db8::1',
+  'byte': 'ZXhhbXBsZQ==',
+  'binary': '<binary>',
+  'password': 'password',
+};
+
+// Characters tried, in order, for character classes in patterns
+const PATTERN_CANDIDATES = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789_-. @:/+';
+
+/**
+ * Get the value a schema documents itself: example, examples, const, default or the first enum value
+ */
+function getDocumentedValue(schema: any): any {
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.const !== undefined) return schema.const;
+  if (schema.default !== undefined) return schema.default;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  return undefined;
+}
+
+/**
+ * Get the type of a schema, inferring it from its keywords when `type` is missing
+ * (OpenAPI 3.1 type arrays use their first non-null type)
+ */
+function getSchemaType(schema: any): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find((type: string) => type !== 'null') ?? 'null';
+  }
+  if (typeof schema.type === 'string') return schema.type;
+  if (schema.properties || schema.additionalProperties) return 'object';
+  if (schema.items) return 'array';
+  return undefined;
+}
+
+/**
+ * Produce one character matching a character class or escape such as `[a-f0-9]` or `\d`
+ */
+function sampleCharacterClass(source: string): string | undefined {
+  const matcher = new RegExp(`^${source}$`);
+  return [...PATTERN_CANDIDATES].find(candidate => matcher.test(candidate));
+}
+
+/**
+ * Produce a string for a regular expression, walking its alternatives, groups, classes and
+ * quantifiers and always taking the first alternative and the smallest non-zero repetition
+ */
+function sampleRegex(pattern: string): string {
+  let pos = 0;
+
+  const parseAlternatives = (): string => {
+    const first = parseSequence();
+    while (pattern[pos] === '|') {
+      pos++;
+      parseSequence();
+    }
+    return first;
+  };
+
+  const parseAtom = (): string => {
+    const char = pattern[pos];
+
+    if (char === '(') {
+      pos++;
+      let discard = false;
+      if (pattern[pos] === '?') {
+        // Lookarounds contribute no characters; named and non-capturing groups do
+        const lookaround = /^\?(=|!|<=|<!)/.exec(pattern.slice(pos));
+        if (lookaround) {
+          discard = true;
+          pos += lookaround[0].length;
+        } else if (pattern[pos + 1] === '<') {
+          pos = pattern.indexOf('>', pos) + 1;
+        } else {
+          pos += 2;
+        }
+      }
+      const value = parseAlternatives();
+      if (pattern[pos] !== ')') throw new Error('Unclosed group');
+      pos++;
+      return discard ? '' : value;
+    }
+
+    if (char === '[') {
+      const start = pos;
+      pos++;
+      if (pattern[pos] === '^') pos++;
+      if (pattern[pos] === ']') pos++;
+      while (pos < pattern.length && pattern[pos] !== ']') {
+        pos += pattern[pos] === '\\' ? 2 : 1;
+      }
+      if (pattern[pos] !== ']') throw new Error('Unclosed character class');
+      pos++;
+      const value = sampleCharacterClass(pattern.slice(start, pos));
+      if (value === undefined) throw new Error('No sample for character class');
+      return value;
+    }
+
+    if (char === '\\') {
+      const escaped = pattern[pos + 1];
+      pos += 2;
+      if (escaped === 'b' || escaped === 'B') return '';
+      if ('dDwWsS'.includes(escaped)) {
+        const value = sampleCharacterClass(`\\${escaped}`);
+        if (value === undefined) throw new Error('No sample for escape');
+        return value;
+      }
+      if (escaped === 'u' && /^[\da-f]{4}/i.test(pattern.slice(pos))) {
+        pos += 4;
+        return String.fromCharCode(parseInt(pattern.slice(pos - 4, pos), 16));
+      }
+      return escaped;
+    }
+
+    pos++;
+    if (char === '^' || char === '$') return '';
+    return char === '.' ? 'a' : char;
+  };
+
+  const parseRepetitions = (): number => {
+    const char = pattern[pos];
+    let count = 1;
+
+    if (char === '*' || char === '+' || char === '?') {
+      pos++;
+    } else if (char === '{') {
+      const quantifier = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(pos));
+      if (!quantifier) return 1;
+      pos += quantifier[0].length;
+      const min = Number(quantifier[1]);
+      const max = quantifier[3] ? Number(quantifier[3]) : Infinity;
+      count = quantifier[2] ? Math.min(Math.max(min, 1), max) : min;
+    } else {
+      return 1;
+    }
+
+    // Lazy quantifiers
+    if (pattern[pos] === '?') pos++;
+    return count;
+  };
+
+  const parseSequence = (): string => {
+    let result = '';
+    while (pos < pattern.length && pattern[pos] !== '|' && pattern[pos] !== ')') {
+      const atom = parseAtom();
+      result += atom.repeat(parseRepetitions());
+    }
+    return result;
+  };
+
+  const result = parseAlternatives();
+  if (pos < pattern.length) throw new Error('Unbalanced group');
+  return result;
+}
+
+/**
+ * Produce a string matching a schema's `pattern`, or undefined when that is not possible
+ */
+function generateFromPattern(pattern: string): string | undefined {
+  try {
+    const value = sampleRegex(pattern);
+    return new RegExp(pattern).test(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function generateString(schema: any): string {
+  const formatted = FORMAT_EXAMPLES[schema.format];
+  if (formatted !== undefined) return formatted;
+
+  if (typeof schema.pattern === 'string') {
+    const value = generateFromPattern(schema.pattern);
+    if (value !== undefined) return value;
+  }
+
+  let value = 'string';
+  if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+    value = value.padEnd(schema.minLength, 'x');
+  }
+  if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+    value = value.slice(0, schema.maxLength);
+  }
+  return value;
+}
+
+/**
+ * Pick a number within a schema's bounds (OpenAPI 3.0 boolean and 3.1 numeric exclusive
+ * bounds), rounded up to `multipleOf`
+ */
+function generateNumber(schema: any, isInteger: boolean): number {
+  let low: number | undefined = typeof schema.minimum === 'number' ? schema.minimum : undefined;
+  let high: number | undefined = typeof schema.maximum === 'number' ? schema.maximum : undefined;
+  let lowExclusive = schema.exclusiveMinimum === true;
+  let highExclusive = schema.exclusiveMaximum === true;
+  if (typeof schema.exclusiveMinimum === 'number' && (low === undefined || schema.exclusiveMinimum >= low)) {
+    low = schema.exclusiveMinimum;
+    lowExclusive = true;
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && (high === undefined || schema.exclusiveMaximum <= high)) {
+    high = schema.exclusiveMaximum;
+    highExclusive = true;
+  }
+
+  let value = low ?? (high !== undefined ? Math.min(0, high) : 0);
+  const step = isInteger ? 1 : high !== undefined && low !== undefined ? (high - low) / 2 : 1;
+  if (lowExclusive && value === low) value += step;
+  if (highExclusive && value === high) value -= step;
+
+  if (isInteger) value = Math.ceil(value);
+  if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+    // toPrecision drops the floating point noise of e.g. 0.1 * 3
+    value = Number((Math.ceil(value / schema.multipleOf) * schema.multipleOf).toPrecision(12));
+  }
+  return value;
+}
+
+/**
+ * Generate a property or item value; schemas that give none (e.g. `true`) become a string,
+ * while null stays null
+ */
+function generateNested(schema: any, options: Required<ExampleOptions>, depth: number, location: string): any {
+  const value = generate(schema, options, depth, location);
+  return value === undefined ? 'string' : value;
+}
+
+function generate(schema: any, options: Required<ExampleOptions>, depth: number, location: string): any {
+  if (!schema || typeof schema !== 'object') {
+    return undefined;
+  }
+
+  const type = getSchemaType(schema);
+  if (isUnexpandedRef(schema)) {
+    // Recursive and too deeply nested schemas stop at an empty value so the example stays finite
+    return type === 'array' ? [] : {};
+  }
+
+  const documented = getDocumentedValue(schema);
+  if (documented !== undefined) {
+    return documented;
+  }
+
+  const variants = getSchemaVariants(schema);
+  if (variants && depth < options.maxDepth) {
+    const selected = getSelectedVariant(variants, options.variants, location);
+    return generate(selected.schema, options, depth + 1, getVariantLocation(variants, options.variants, location));
+  }
+
+  switch (type) {
+    case 'object': {
+      const result: Record<string, any> = {};
+      if (depth >= options.maxDepth) return result;
+
+      const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+      for (const [name, property] of Object.entries<any>(schema.properties || {})) {
+        if (options.requiredOnly && !required.has(name)) continue;
+        if (options.direction === 'request' && property?.readOnly) continue;
+        if (options.direction === 'response' && property?.writeOnly) continue;
+        result[name] = generateNested(property, options, depth + 1, `${location}.${name}`);
+      }
+      // Required properties the schema does not describe
+      for (const name of required) {
+        if (!(name in result) && !schema.properties?.[name]) result[name] = 'string';
+      }
+      // Maps show one entry
+      if (!schema.properties && schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        result.key = generateNested(schema.additionalProperties, options, depth + 1, `${location}.key`);
+      }
+      return result;
+    }
+    case 'array': {
+      if (depth >= options.maxDepth || schema.maxItems === 0) return [];
+      const item = generateNested(schema.items, options, depth + 1, `${location}[]`);
+      const count = Math.max(1, typeof schema.minItems === 'number' ? schema.minItems : 0);
+      return Array.from({ length: count }, () => item);
+    }
+    case 'integer':
+      return generateNumber(schema, true);
+    case 'number':
+      return generateNumber(schema, false);
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return generateString(schema);
+  }
+}
+
+/**
+ * Generate an example value for a (resolved) schema: documented examples, defaults and enum
+ * values are used as they are, and everything else is built from the schema's type, format
+ * and constraints, with one item per array and the selected oneOf / anyOf alternative
+ */
+export function generateExample(schema: any, options: ExampleOptions = {}): any {
+  return generate(schema, {
+    direction: options.direction ?? 'request',
+    requiredOnly: options.requiredOnly ?? false,
+    maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+    variants: options.variants ?? {}
+  }, 0, '$');
+}
+
+/**
+ * Get the example for a media type object: its own `example`, the first of its `examples`,
+ * or one generated from its schema
+ */
+export function getMediaTypeExample(mediaType: any, options: ExampleOptions = {}): any {
+  if (!mediaType || typeof mediaType !== 'object') {
+    return undefined;
+  }
+  if (mediaType.example !== undefined) {
+    return mediaType.example;
+  }
+
+  const namedExample = Object.values<any>(mediaType.examples || {}).find(example => example?.value !== undefined);
+  if (namedExample) {
+    return namedExample.value;
+  }
+
+  return generateExample(mediaType.schema, options);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { generateExample } from '@/lib/schema-example';
+import { describeVariants, getSchemaVariants, getVariantLocation } from '@/lib/schema-variants';
+
+// A oneOf whose second alternative is itself a oneOf, and whose first one has a nested oneOf property
+const schema = {
+  oneOf: [
+    {
+      title: 'Card',
+      type: 'object',
+      properties: { network: { oneOf: [{ title: 'Visa', type: 'string', example: 'visa' }, { title: 'Amex', type: 'string', example: 'amex' }] } },
+    },
+    {
+      title: 'Transfer',
+      oneOf: [
+        { title: 'Iban', type: 'object', properties: { iban: { type: 'string', example: 'DE00' } } },
+        { title: 'Ach', type: 'object', properties: { routing: { type: 'string', example: '0110' } } },
+      ],
+    },
+  ],
+};
+
+describe('getVariantLocation', () => {
+  it('appends the chosen index to the location', () => {
+    const variants = getSchemaVariants(schema)!;
+    expect(getVariantLocation(variants, {}, '$')).toBe('$/0');
+    expect(getVariantLocation(variants, { $: 1 }, '$')).toBe('$/1');
+    expect(getVariantLocation(variants, { $: 7 }, '$')).toBe('$/0');
+  });
+});
+
+describe('describeVariants', () => {
+  it('gives a oneOf directly inside a chosen variant a location of its own', () => {
+    expect(describeVariants(schema, { $: 1, '$/1': 1 })).toEqual([
+      { location: '$', kind: 'oneOf', options: ['Card', 'Transfer'], selected: 'Transfer' },
+      { location: '$/1', kind: 'oneOf', options: ['Iban', 'Ach'], selected: 'Ach' },
+    ]);
+  });
+
+  it('keys properties of a chosen variant under the variant', () => {
+    expect(describeVariants(schema, { '$/0.network': 1 })).toEqual([
+      { location: '$', kind: 'oneOf', options: ['Card', 'Transfer'], selected: 'Card' },
+      { location: '$/0.network', kind: 'oneOf', options: ['Visa', 'Amex'], selected: 'Amex' },
+    ]);
+  });
+});
+
+describe('generateExample', () => {
+  it('follows the selections made at nested variant locations', () => {
+    expect(generateExample(schema, { variants: { $: 1, '$/1': 1 } })).toEqual({ routing: '0110' });
+    expect(generateExample(schema, { variants: { $: 1 } })).toEqual({ iban: 'DE00' });
+    expect(generateExample(schema, { variants: { '$/0.network': 1 } })).toEqual({ network: 'amex' });
+  });
+});
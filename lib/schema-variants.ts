@@ -0,0 +1,149 @@
+import { getRefName, getResolvedRef, isUnexpandedRef, mergeSchemas } from '@/lib/openapi';
+
+// One alternative of a oneOf / anyOf schema
+export type SchemaVariant = {
+  label: string;
+  // The alternative merged with the keywords it shares with its parent
+  schema: any;
+};
+
+export type SchemaVariants = {
+  kind: 'oneOf' | 'anyOf';
+  variants: SchemaVariant[];
+};
+
+// Chosen variant index per schema location, e.g. { "$": 1, "$/1.items[]": 0 }; locations inside
+// a chosen variant continue from the variant's own location (see getVariantLocation)
+export type VariantSelections = Record<string, number>;
+
+// A oneOf / anyOf in a schema with the variant chosen for the copy output
+export type VariantDescription = {
+  location: string;
+  kind: 'oneOf' | 'anyOf';
+  options: string[];
+  selected: string;
+};
+
+// Nesting depth after which variants are no longer looked for
+const MAX_VARIANT_DEPTH = 10;
+
+/**
+ * Describe a variant by its type when nothing names it, e.g. "string" or "array"
+ */
+function describeType(schema: any): string | undefined {
+  if (Array.isArray(schema.type)) return schema.type.join(' | ');
+  if (typeof schema.type === 'string') return schema.type;
+  return undefined;
+}
+
+/**
+ * Get the alternatives of a oneOf / anyOf schema, labelled by their discriminator mapping
+ * value, discriminator property, title or schema name. Selecting an alternative with a
+ * discriminator sets the discriminator property's example to the alternative's value
+ */
+export function getSchemaVariants(schema: any): SchemaVariants | null {
+  if (!schema || typeof schema !== 'object' || isUnexpandedRef(schema)) {
+    return null;
+  }
+
+  const kind = Array.isArray(schema.oneOf) && schema.oneOf.length > 0 ? 'oneOf'
+    : Array.isArray(schema.anyOf) && schema.anyOf.length > 0 ? 'anyOf'
+      : null;
+  if (!kind) {
+    return null;
+  }
+
+  const { [kind]: members, discriminator, ...shared } = schema;
+  const propertyName: string | undefined = discriminator?.propertyName;
+  const mapping: Record<string, string> = discriminator?.mapping || {};
+
+  const variants = (members as any[]).map((member, index): SchemaVariant => {
+    if (!member || typeof member !== 'object') {
+      return { label: `Option ${index + 1}`, schema: member };
+    }
+
+    const ref = getResolvedRef(member);
+    const refName = ref ? getRefName(ref) : undefined;
+    const discriminatorProperty = propertyName ? member.properties?.[propertyName] : undefined;
+
+    // The mapping names each subtype; unmapped subtypes use their schema name (implicit mapping)
+    let discriminatorValue: string | undefined;
+    if (propertyName) {
+      discriminatorValue = Object.keys(mapping).find(value =>
+        mapping[value] === ref || (refName !== undefined && getRefName(mapping[value]) === refName)
+      ) ?? discriminatorProperty?.const ?? discriminatorProperty?.enum?.[0] ?? refName;
+    }
+
+    const label = discriminatorValue ?? member.title ?? refName ?? describeType(member) ?? `Option ${index + 1}`;
+
+    if (isUnexpandedRef(member)) {
+      return { label, schema: member };
+    }
+
+    const merged = mergeSchemas([shared, member]);
+    if (propertyName && discriminatorValue !== undefined && merged.properties?.[propertyName]) {
+      merged.properties = {
+        ...merged.properties,
+        [propertyName]: { ...merged.properties[propertyName], example: discriminatorValue }
+      };
+    }
+    return { label, schema: merged };
+  });
+
+  return { kind, variants };
+}
+
+/**
+ * Index of the variant chosen at a location (the first by default)
+ */
+function getSelectedIndex(variants: SchemaVariants, selections: VariantSelections, location: string): number {
+  const index = selections[location] ?? 0;
+  return variants.variants[index] ? index : 0;
+}
+
+/**
+ * Get the variant chosen at a location (the first by default)
+ */
+export function getSelectedVariant(variants: SchemaVariants, selections: VariantSelections, location: string): SchemaVariant {
+  return variants.variants[getSelectedIndex(variants, selections, location)];
+}
+
+/**
+ * Location of the chosen variant's schema, e.g. "$.pet/1", so a oneOf / anyOf directly
+ * inside the variant and the variant's properties get selections of their own
+ */
+export function getVariantLocation(variants: SchemaVariants, selections: VariantSelections, location: string): string {
+  return `${location}/${getSelectedIndex(variants, selections, location)}`;
+}
+
+/**
+ * List the oneOf / anyOf schemas reachable through the chosen variants, for the copy output
+ */
+export function describeVariants(schema: any, selections: VariantSelections = {}, location: string = '$', depth: number = 0): VariantDescription[] {
+  if (!schema || typeof schema !== 'object' || isUnexpandedRef(schema) || depth >= MAX_VARIANT_DEPTH) {
+    return [];
+  }
+
+  const variants = getSchemaVariants(schema);
+  if (variants) {
+    const selected = getSelectedVariant(variants, selections, location);
+    return [
+      {
+        location,
+        kind: variants.kind,
+        options: variants.variants.map(variant => variant.label),
+        selected: selected.label
+      },
+      ...describeVariants(selected.schema, selections, getVariantLocation(variants, selections, location), depth + 1)
+    ];
+  }
+
+  const result: VariantDescription[] = [];
+  for (const [name, property] of Object.entries<any>(schema.properties || {})) {
+    result.push(...describeVariants(property, selections, `${location}.${name}`, depth + 1));
+  }
+  if (schema.items) {
+    result.push(...describeVariants(schema.items, selections, `${location}[]`, depth + 1));
+  }
+  return result;
+}
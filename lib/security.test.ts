@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { RunnerRequest } from '@/lib/request-runner';
+import { canRenewToken, needsClientSecret, renewToken } from '@/lib/oauth';
+import {
+  applySecurity,
+  findAuthorizedRequirement,
+  getOperationSecurity,
+  getSecuritySchemes,
+  loadCredentials,
+  requiresAuthentication,
+  saveCredentials,
+  type SecurityRequirement,
+  type SecurityScheme
+} from '@/lib/security';
+
+const schemes: Record<string, SecurityScheme> = {
+  headerKey: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+  queryKey: { type: 'apiKey', name: 'api_key', in: 'query' },
+  cookieKey: { type: 'apiKey', name: 'session', in: 'cookie' },
+  basic: { type: 'http', scheme: 'basic' },
+  bearer: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+  oauth: { type: 'oauth2', flows: {} },
+};
+
+const request: RunnerRequest = {
+  method: 'GET',
+  url: 'https://api.example.com/pets?limit=5',
+  headers: { Accept: 'application/json' },
+};
+
+const apply = (name: string, credentials: any, target: RunnerRequest = request) =>
+  applySecurity(target, [{ [name]: [] }], schemes, { [name]: credentials });
+
+describe('applySecurity', () => {
+  it('sends header API keys', () => {
+    expect(apply('headerKey', { value: 'k1' }).headers).toEqual({ Accept: 'application/json', 'X-API-Key': 'k1' });
+  });
+
+  it('adds query API keys to the URL, keeping relative URLs relative', () => {
+    expect(apply('queryKey', { value: 'a b&c' }).url).toBe('https://api.example.com/pets?limit=5&api_key=a+b%26c');
+    expect(apply('queryKey', { value: 'k2' }, { ...request, url: '/pets' }).url).toBe('/pets?api_key=k2');
+  });
+
+  it('appends cookie API keys to existing cookies', () => {
+    const withCookie = { ...request, headers: { Cookie: 'theme=dark' } };
+    expect(apply('cookieKey', { value: 'a;b' }, withCookie).headers.Cookie).toBe('theme=dark; session=a%3Bb');
+  });
+
+  it('sends basic credentials as UTF-8 base64', () => {
+    expect(apply('basic', { username: 'user', password: 'pässword' }).headers.Authorization)
+      .toBe(`Basic ${Buffer.from('user:pässword').toString('base64')}`);
+  });
+
+  it('sends bearer and OAuth2 tokens', () => {
+    expect(apply('bearer', { value: 't1' }).headers.Authorization).toBe('Bearer t1');
+    expect(apply('oauth', { value: 't2' }).headers.Authorization).toBe('Bearer t2');
+  });
+
+  it('applies every scheme of the first satisfied requirement', () => {
+    const applied = applySecurity(
+      request,
+      [{ bearer: [] }, { headerKey: [], queryKey: [] }],
+      schemes,
+      { headerKey: { value: 'k1' }, queryKey: { value: 'k2' } }
+    );
+    expect(applied.headers['X-API-Key']).toBe('k1');
+    expect(applied.url).toContain('api_key=k2');
+    expect(applied.headers).not.toHaveProperty('Authorization');
+  });
+
+  it('leaves the request alone without matching credentials', () => {
+    expect(applySecurity(request, [{ bearer: [] }], schemes, { headerKey: { value: 'k1' } })).toBe(request);
+  });
+});
+
+describe('findAuthorizedRequirement', () => {
+  it('needs credentials for every scheme of a requirement', () => {
+    const requirements: SecurityRequirement[] = [{ headerKey: [], bearer: [] }, { basic: [] }];
+    expect(findAuthorizedRequirement(requirements, schemes, { headerKey: { value: 'k' } })).toBeNull();
+    expect(findAuthorizedRequirement(requirements, schemes, { basic: { username: 'user' } })).toEqual({ basic: [] });
+  });
+});
+
+describe('requiresAuthentication', () => {
+  it('treats an empty requirement as optional authentication', () => {
+    expect(requiresAuthentication([{ bearer: [] }])).toBe(true);
+    expect(requiresAuthentication([{ bearer: [] }, {}])).toBe(false);
+    expect(requiresAuthentication([])).toBe(false);
+  });
+});
+
+describe('getSecuritySchemes', () => {
+  it('reads declared schemes and skips incomplete ones', () => {
+    const spec: any = {
+      components: {
+        securitySchemes: {
+          key: { type: 'apiKey', name: 'X-Key', in: 'header' },
+          token: { type: 'http', scheme: 'Bearer' },
+          broken: { type: 'apiKey', in: 'body' },
+        },
+      },
+    };
+    expect(getSecuritySchemes(spec)).toEqual({
+      key: { type: 'apiKey', name: 'X-Key', in: 'header', description: undefined },
+      token: { type: 'http', scheme: 'bearer', bearerFormat: undefined, description: undefined },
+    });
+  });
+});
+
+describe('getOperationSecurity', () => {
+  it('lets an operation override the document requirements, including with none', () => {
+    const spec: any = { security: [{ bearer: [] }] };
+    expect(getOperationSecurity(spec, { parameters: [], responses: {} } as any)).toEqual([{ bearer: [] }]);
+    expect(getOperationSecurity(spec, { parameters: [], responses: {}, security: [] } as any)).toEqual([]);
+  });
+});
+
+describe('saveCredentials', () => {
+  const storage = new Map<string, string>();
+
+  const stubBrowser = () => {
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('sessionStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+  };
+
+  const credentials = {
+    oauth: {
+      value: 'token',
+      oauth: {
+        flow: 'clientCredentials' as const,
+        clientId: 'app',
+        clientSecret: 's3cret',
+        scopes: [],
+        tokenUrl: 'https://auth.example.com/token',
+        expiresAt: 0,
+      },
+    },
+  };
+
+  afterEach(() => {
+    storage.clear();
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it('keeps OAuth2 client secrets out of session storage', () => {
+    stubBrowser();
+    saveCredentials('spec', credentials);
+    expect(storage.get('swagger-credentials')).not.toContain('s3cret');
+    expect(loadCredentials('spec')).toEqual({
+      oauth: { ...credentials.oauth, oauth: { ...credentials.oauth.oauth, hasClientSecret: true } },
+    });
+  });
+
+  it('asks for the client secret again after a reload', async () => {
+    stubBrowser();
+    saveCredentials('spec', credentials);
+    vi.resetModules();
+    const reloaded = await import('@/lib/security');
+
+    const loaded = reloaded.loadCredentials('spec');
+    expect(loaded.oauth.oauth?.clientSecret).toBeUndefined();
+    expect(needsClientSecret(loaded.oauth)).toBe(true);
+    expect(canRenewToken(loaded.oauth)).toBe(false);
+    await expect(renewToken(loaded.oauth)).rejects.toThrow(/client secret/);
+  });
+});
@@ -0,0 +1,297 @@
+import { resolveRef, type EndpointMethodInfo, type OpenAPISpec } from '@/lib/openapi';
+import type { OAuthTokenState } from '@/lib/oauth';
+import type { RunnerRequest } from '@/lib/request-runner';
+
+export type OAuthFlow = {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes: Record<string, string>;
+};
+
+// The security schemes the Authorize dialog understands (components.securitySchemes;
+// Swagger 2 securityDefinitions are converted into these by normalizeOpenAPISpec)
+export type SecurityScheme =
+  | { type: 'apiKey'; name: string; in: 'header' | 'query' | 'cookie'; description?: string }
+  | { type: 'http'; scheme: string; bearerFormat?: string; description?: string }
+  | { type: 'oauth2'; flows: Record<string, OAuthFlow>; description?: string }
+  | { type: 'openIdConnect'; openIdConnectUrl: string; description?: string };
+
+// Alternatives of schemes (by name) with their required scopes; any one alternative is enough
+export type SecurityRequirement = Record<string, string[]>;
+
+// What the user entered for one scheme in the Authorize dialog
+export type SchemeCredentials = {
+  // API key, bearer token or OAuth2 / OpenID Connect access token
+  value?: string;
+  username?: string;
+  password?: string;
+  // Set when the token came from an OAuth2 flow, so it can be renewed on expiry
+  oauth?: OAuthTokenState;
+};
+
+// Credentials for a spec, keyed by scheme name
+export type Credentials = Record<string, SchemeCredentials>;
+
+// Credentials are secrets, so they are kept for the browser session only
+const CREDENTIALS_KEY = 'swagger-credentials';
+
+// OAuth2 client secrets are not stored at all; they live in memory until the page is
+// reloaded, keyed by spec and scheme
+const clientSecrets = new Map<string, string>();
+
+const getClientSecretKey = (specId: string, schemeName: string) => `${specId}\n${schemeName}`;
+
+/**
+ * Validate one scheme object, returning null for unknown or incomplete schemes
+ */
+function parseSecurityScheme(scheme: any): SecurityScheme | null {
+  if (!scheme || typeof scheme !== 'object') {
+    return null;
+  }
+
+  const description = typeof scheme.description === 'string' ? scheme.description : undefined;
+  switch (scheme.type) {
+    case 'apiKey':
+      return typeof scheme.name === 'string' && ['header', 'query', 'cookie'].includes(scheme.in)
+        ? { type: 'apiKey', name: scheme.name, in: scheme.in, description }
+        : null;
+    case 'http':
+      return typeof scheme.scheme === 'string'
+        ? { type: 'http', scheme: scheme.scheme.toLowerCase(), bearerFormat: scheme.bearerFormat, description }
+        : null;
+    case 'oauth2':
+      return { type: 'oauth2', flows: scheme.flows && typeof scheme.flows === 'object' ? scheme.flows : {}, description };
+    case 'openIdConnect':
+      return typeof scheme.openIdConnectUrl === 'string'
+        ? { type: 'openIdConnect', openIdConnectUrl: scheme.openIdConnectUrl, description }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the security schemes a spec declares, by name
+ */
+export function getSecuritySchemes(spec: OpenAPISpec | null | undefined): Record<string, SecurityScheme> {
+  const result: Record<string, SecurityScheme> = {};
+  if (!spec) return result;
+
+  for (const [name, value] of Object.entries<any>(spec.components?.securitySchemes || {})) {
+    const scheme = parseSecurityScheme(typeof value?.$ref === 'string' ? resolveRef(spec, value.$ref) : value);
+    if (scheme) {
+      result[name] = scheme;
+    }
+  }
+  return result;
+}
+
+/**
+ * Get the security requirements of an operation: its own, or the document's
+ */
+export function getOperationSecurity(spec: OpenAPISpec | null | undefined, methodInfo: EndpointMethodInfo): SecurityRequirement[] {
+  if (Array.isArray(methodInfo.security)) {
+    return methodInfo.security;
+  }
+  return Array.isArray(spec?.security) ? spec.security : [];
+}
+
+/**
+ * Check whether an operation needs credentials (an empty requirement makes them optional)
+ */
+export function requiresAuthentication(requirements: SecurityRequirement[]): boolean {
+  return requirements.length > 0 && requirements.every(requirement => Object.keys(requirement).length > 0);
+}
+
+/**
+ * Check whether credentials were entered for a scheme
+ */
+export function isSchemeAuthorized(scheme: SecurityScheme, credentials: SchemeCredentials | undefined): boolean {
+  if (!credentials) return false;
+  if (scheme.type === 'http' && scheme.scheme === 'basic') {
+    return !!credentials.username;
+  }
+  return !!credentials.value;
+}
+
+/**
+ * Find the first requirement whose schemes all have credentials
+ */
+export function findAuthorizedRequirement(
+  requirements: SecurityRequirement[],
+  schemes: Record<string, SecurityScheme>,
+  credentials: Credentials
+): SecurityRequirement | null {
+  return requirements.find(requirement =>
+    Object.keys(requirement).length > 0 &&
+    Object.keys(requirement).every(name => schemes[name] && isSchemeAuthorized(schemes[name], credentials[name]))
+  ) ?? null;
+}
+
+/**
+ * Add the credentials of the first satisfied requirement to a request
+ */
+export function applySecurity(
+  request: RunnerRequest,
+  requirements: SecurityRequirement[],
+  schemes: Record<string, SecurityScheme>,
+  credentials: Credentials
+): RunnerRequest {
+  const requirement = findAuthorizedRequirement(requirements, schemes, credentials);
+  if (!requirement) {
+    return request;
+  }
+
+  const headers = { ...request.headers };
+  const url = new URL(request.url, 'http://placeholder');
+  const isRelative = !/^[a-z][a-z\d+.-]*:/i.test(request.url);
+  const cookies: string[] = headers['Cookie'] ? [headers['Cookie']] : [];
+
+  for (const name of Object.keys(requirement)) {
+    const scheme = schemes[name];
+    const { value = '', username = '', password = '' } = credentials[name] || {};
+
+    switch (scheme.type) {
+      case 'apiKey':
+        if (scheme.in === 'header') {
+          headers[scheme.name] = value;
+        } else if (scheme.in === 'query') {
+          url.searchParams.set(scheme.name, value);
+        } else {
+          cookies.push(`${scheme.name}=${encodeURIComponent(value)}`);
+        }
+        break;
+      case 'http':
+        if (scheme.scheme === 'basic') {
+          const bytes = new TextEncoder().encode(`${username}:${password}`);
+          headers['Authorization'] = `Basic ${btoa(String.fromCharCode(...bytes))}`;
+        } else {
+          // Bearer and other HTTP schemes send the token under the scheme's name
+          const schemeName = scheme.scheme === 'bearer' ? 'Bearer' : scheme.scheme;
+          headers['Authorization'] = `${schemeName} ${value}`;
+        }
+        break;
+      case 'oauth2':
+      case 'openIdConnect':
+        headers['Authorization'] = `Bearer ${value}`;
+        break;
+    }
+  }
+
+  if (cookies.length > 0) {
+    headers['Cookie'] = cookies.join('; ');
+  }
+
+  return {
+    ...request,
+    url: isRelative ? `${url.pathname}${url.search}` : url.href,
+    headers
+  };
+}
+
+/**
+ * Describe how a scheme is sent, without any credential values
+ */
+export function describeSecurityScheme(scheme: SecurityScheme): string {
+  switch (scheme.type) {
+    case 'apiKey':
+      if (scheme.in === 'header') return `Header ${scheme.name}: <api key>`;
+      if (scheme.in === 'query') return `Query parameter ${scheme.name}=<api key>`;
+      return `Cookie ${scheme.name}=<api key>`;
+    case 'http':
+      if (scheme.scheme === 'basic') return 'Authorization: Basic <base64 of username:password>';
+      if (scheme.scheme === 'bearer') return `Authorization: Bearer <${scheme.bearerFormat || 'token'}>`;
+      return `Authorization: ${scheme.scheme} <credentials>`;
+    case 'oauth2': {
+      const flows = Object.keys(scheme.flows);
+      return `Authorization: Bearer <access token>${flows.length > 0 ? ` (OAuth2 ${flows.join(', ')})` : ' (OAuth2)'}`;
+    }
+    case 'openIdConnect':
+      return `Authorization: Bearer <access token> (OpenID Connect, ${scheme.openIdConnectUrl})`;
+  }
+}
+
+/**
+ * Describe an operation's security requirements for the copy output: each alternative
+ * lists its schemes, how they are sent and the scopes needed
+ */
+export function describeSecurity(
+  requirements: SecurityRequirement[],
+  schemes: Record<string, SecurityScheme>
+): { scheme: string; type: string; usage: string; scopes?: string[] }[][] {
+  return requirements
+    .filter(requirement => Object.keys(requirement).length > 0)
+    .map(requirement => Object.entries(requirement).map(([name, scopes]) => {
+      const scheme = schemes[name];
+      return {
+        scheme: name,
+        type: scheme ? (scheme.type === 'http' ? `http ${scheme.scheme}` : scheme.type) : 'unknown',
+        usage: scheme ? describeSecurityScheme(scheme) : 'Scheme not declared in the specification',
+        ...(scopes.length > 0 ? { scopes } : {})
+      };
+    }));
+}
+
+/**
+ * Load the credentials entered for a spec in this browser session
+ */
+export function loadCredentials(specId: string): Credentials {
+  if (typeof window === 'undefined') {
+    return {};
+  }
+
+  try {
+    const saved = sessionStorage.getItem(CREDENTIALS_KEY);
+    const credentials: Credentials = (saved ? JSON.parse(saved) : {})[specId] || {};
+    return Object.fromEntries(Object.entries(credentials).map(([name, value]) => {
+      const clientSecret = clientSecrets.get(getClientSecretKey(specId, name));
+      return [name, value.oauth && clientSecret ? { ...value, oauth: { ...value.oauth, clientSecret } } : value];
+    }));
+  } catch (err) {
+    console.error('Error parsing saved credentials:', err instanceof Error ? err.message : err);
+    sessionStorage.removeItem(CREDENTIALS_KEY);
+    return {};
+  }
+}
+
+/**
+ * Keep OAuth2 client secrets in memory and mark the tokens they were used for, so that
+ * renewing them after a reload asks for the secret again
+ */
+function withoutClientSecrets(specId: string, credentials: Credentials): Credentials {
+  for (const key of clientSecrets.keys()) {
+    if (key.startsWith(getClientSecretKey(specId, ''))) {
+      clientSecrets.delete(key);
+    }
+  }
+
+  return Object.fromEntries(Object.entries(credentials).map(([name, value]) => {
+    if (!value.oauth?.clientSecret) {
+      return [name, value];
+    }
+    clientSecrets.set(getClientSecretKey(specId, name), value.oauth.clientSecret);
+    return [name, { ...value, oauth: { ...value.oauth, clientSecret: undefined, hasClientSecret: true } }];
+  }));
+}
+
+/**
+ * Remember the credentials for a spec for this browser session (empty credentials forget them);
+ * OAuth2 client secrets are only remembered until the page is reloaded
+ */
+export function saveCredentials(specId: string, credentials: Credentials): void {
+  let stored: Record<string, Credentials> = {};
+  try {
+    stored = JSON.parse(sessionStorage.getItem(CREDENTIALS_KEY) || '{}');
+  } catch {
+    // Start over from corrupt data
+  }
+
+  const storable = withoutClientSecrets(specId, credentials);
+  if (Object.keys(storable).length > 0) {
+    stored[specId] = storable;
+  } else {
+    delete stored[specId];
+  }
+  sessionStorage.setItem(CREDENTIALS_KEY, JSON.stringify(stored));
+}
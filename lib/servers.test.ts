@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { ServerObject } from '@/lib/openapi';
+import {
+  expandServerUrl,
+  findSelectedServer,
+  getEffectiveServers,
+  getOperationBaseUrl,
+  getServerVariableValue,
+  resolveServerUrl
+} from '@/lib/servers';
+
+const regional: ServerObject = {
+  url: 'https://{region}.api.example.com/{version}',
+  variables: {
+    region: { default: 'eu', enum: ['eu', 'us'] },
+    version: { default: 'v1' },
+  },
+};
+
+describe('getServerVariableValue', () => {
+  it('uses the entered value, or the default when nothing is entered', () => {
+    expect(getServerVariableValue(regional, 'region', { region: 'us' })).toBe('us');
+    expect(getServerVariableValue(regional, 'region', { region: '' })).toBe('eu');
+    expect(getServerVariableValue(regional, 'version')).toBe('v1');
+  });
+
+  it('falls back to the default for values outside the enum', () => {
+    expect(getServerVariableValue(regional, 'region', { region: 'evil.example.net/' })).toBe('eu');
+  });
+
+  it('accepts any value for variables without an enum', () => {
+    expect(getServerVariableValue(regional, 'version', { version: 'v2' })).toBe('v2');
+  });
+});
+
+describe('expandServerUrl', () => {
+  it('fills in declared variables and leaves undeclared ones as they are', () => {
+    expect(expandServerUrl(regional, { region: 'us' })).toBe('https://us.api.example.com/v1');
+    expect(expandServerUrl({ url: 'https://{tenant}.example.com' })).toBe('https://{tenant}.example.com');
+  });
+});
+
+describe('resolveServerUrl', () => {
+  const specUrl = 'https://docs.example.com/specs/openapi.json';
+
+  it('resolves relative servers against the spec URL', () => {
+    expect(resolveServerUrl({ url: '/v1' }, {}, specUrl)).toBe('https://docs.example.com/v1');
+    expect(resolveServerUrl({ url: 'api' }, {}, specUrl)).toBe('https://docs.example.com/specs/api');
+    expect(resolveServerUrl({ url: '/' }, {}, specUrl)).toBe('https://docs.example.com');
+  });
+
+  it('keeps absolute servers and drops the trailing slash', () => {
+    expect(resolveServerUrl({ url: 'https://api.example.com/v1/' }, {}, specUrl)).toBe('https://api.example.com/v1');
+  });
+
+  it('keeps relative servers relative when there is no spec URL', () => {
+    expect(resolveServerUrl({ url: '/' })).toBe('');
+    expect(resolveServerUrl({ url: '/v1/' })).toBe('/v1');
+  });
+});
+
+describe('getEffectiveServers', () => {
+  const spec: any = { servers: [{ url: 'https://document.example.com' }] };
+
+  it('prefers operation servers, then path servers, then the document', () => {
+    const pathServers = [{ url: 'https://path.example.com' }];
+    const operationServers = [{ url: 'https://operation.example.com' }];
+    expect(getEffectiveServers(spec, { servers: pathServers } as any, { servers: operationServers } as any))
+      .toEqual({ servers: operationServers, level: 'operation' });
+    expect(getEffectiveServers(spec, { servers: pathServers } as any, {} as any)).toEqual({ servers: pathServers, level: 'path' });
+    expect(getEffectiveServers(spec)).toEqual({ servers: spec.servers, level: 'document' });
+  });
+
+  it('uses the spec location when the document declares no servers', () => {
+    expect(getEffectiveServers({} as any).servers).toEqual([{ url: '/' }]);
+  });
+});
+
+describe('findSelectedServer', () => {
+  const servers = [{ url: 'https://a.example.com' }, { url: 'https://b.example.com' }];
+
+  it('finds the selected server, or the first when the selection does not apply', () => {
+    expect(findSelectedServer(servers, { url: 'https://b.example.com', variables: {} })).toBe(servers[1]);
+    expect(findSelectedServer(servers, { url: 'https://elsewhere.example.com', variables: {} })).toBe(servers[0]);
+    expect(findSelectedServer(servers, null)).toBe(servers[0]);
+  });
+
+  it('uses a custom URL as it is', () => {
+    expect(findSelectedServer(servers, { url: 'http://localhost:8080', variables: {}, custom: true })).toEqual({ url: 'http://localhost:8080' });
+  });
+});
+
+describe('getOperationBaseUrl', () => {
+  it('expands the selected server with its variables', () => {
+    const spec: any = { servers: [{ url: 'https://fallback.example.com' }, regional] };
+    const selection = { url: regional.url, variables: { region: 'us', version: 'v3' } };
+    expect(getOperationBaseUrl(spec, selection)).toBe('https://us.api.example.com/v3');
+  });
+});
@@ -0,0 +1,106 @@
+import type { EndpointInfo, EndpointMethodInfo, OpenAPISpec, ServerObject } from '@/lib/openapi';
+
+// The server picked in the UI: the url template of one of the spec's servers with
+// values for its {variables}, or a custom base URL typed in by the user
+export type ServerSelection = {
+  url: string;
+  variables: Record<string, string>;
+  custom?: boolean;
+};
+
+// Servers an operation is served from, and where in the document they were declared
+export type EffectiveServers = {
+  servers: ServerObject[];
+  level: 'document' | 'path' | 'operation';
+};
+
+// Used when a spec declares no servers: the API lives next to the spec
+const DEFAULT_SERVER: ServerObject = { url: '/' };
+
+/**
+ * Get the servers declared at the document level (Swagger 2 host / basePath / schemes
+ * are converted into these by normalizeOpenAPISpec)
+ */
+export function getDocumentServers(spec: OpenAPISpec | null | undefined): ServerObject[] {
+  return Array.isArray(spec?.servers) && spec.servers.length > 0 ? spec.servers : [DEFAULT_SERVER];
+}
+
+/**
+ * Get the servers that apply to an operation: its own, then its path's, then the document's
+ */
+export function getEffectiveServers(
+  spec: OpenAPISpec | null | undefined,
+  endpointInfo?: EndpointInfo,
+  methodInfo?: EndpointMethodInfo
+): EffectiveServers {
+  if (methodInfo?.servers?.length) {
+    return { servers: methodInfo.servers, level: 'operation' };
+  }
+  if (endpointInfo?.servers?.length) {
+    return { servers: endpointInfo.servers, level: 'path' };
+  }
+  return { servers: getDocumentServers(spec), level: 'document' };
+}
+
+/**
+ * Get the value used for a server variable: the selected one when the variable allows it, else its default
+ */
+export function getServerVariableValue(server: ServerObject, name: string, values: Record<string, string> = {}): string {
+  const variable = server.variables?.[name];
+  const value = values[name];
+  if (value === undefined || value === '') {
+    return variable?.default ?? '';
+  }
+  if (variable?.enum && variable.enum.length > 0 && !variable.enum.includes(value)) {
+    return variable.default;
+  }
+  return value;
+}
+
+/**
+ * Fill in a server URL's {variables}
+ */
+export function expandServerUrl(server: ServerObject, values: Record<string, string> = {}): string {
+  return server.url.replace(/\{([^}]+)\}/g, (match, name: string) =>
+    (server.variables?.[name] ? getServerVariableValue(server, name, values) : match));
+}
+
+/**
+ * Find the server a selection points at among the servers that apply.
+ * Servers declared for the path or operation win over a selection made among the document's.
+ */
+export function findSelectedServer(servers: ServerObject[], selection: ServerSelection | null | undefined): ServerObject {
+  if (selection?.custom) {
+    return { url: selection.url };
+  }
+  return servers.find(server => server.url === selection?.url) ?? servers[0] ?? DEFAULT_SERVER;
+}
+
+/**
+ * Build the full base URL (without a trailing slash) for a server,
+ * resolving relative server URLs against the URL the spec was loaded from
+ */
+export function resolveServerUrl(server: ServerObject, values: Record<string, string> = {}, specUrl?: string): string {
+  const expanded = expandServerUrl(server, values);
+
+  try {
+    return new URL(expanded, specUrl).href.replace(/\/$/, '');
+  } catch {
+    // Relative server URL and no spec URL to resolve it against (uploaded specs)
+    return expanded === '/' ? '' : expanded.replace(/\/$/, '');
+  }
+}
+
+/**
+ * Base URL of an operation under the current selection
+ */
+export function getOperationBaseUrl(
+  spec: OpenAPISpec | null | undefined,
+  selection: ServerSelection | null | undefined,
+  specUrl?: string,
+  endpointInfo?: EndpointInfo,
+  methodInfo?: EndpointMethodInfo
+): string {
+  const { servers } = getEffectiveServers(spec, endpointInfo, methodInfo);
+  return resolveServerUrl(findSelectedServer(servers, selection), selection?.variables, specUrl);
+}
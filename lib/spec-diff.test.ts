@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import type { EndpointMethodInfo } from '@/lib/openapi';
+import { diffOperations, diffSpecs, type SpecChange } from '@/lib/spec-diff';
+
+const operation = (overrides: Partial<EndpointMethodInfo> = {}): EndpointMethodInfo => ({
+  parameters: [],
+  responses: {},
+  ...overrides,
+}) as EndpointMethodInfo;
+
+const jsonBody = (schema: any) => ({ content: { 'application/json': { schema } } });
+
+/**
+ * Diff one schema change in the request body and in the 200 response
+ */
+function diffBothWays(oldSchema: any, newSchema: any): { request: SpecChange[]; response: SpecChange[] } {
+  return {
+    request: diffOperations(operation({ requestBody: jsonBody(oldSchema) }), operation({ requestBody: jsonBody(newSchema) })),
+    response: diffOperations(
+      operation({ responses: { '200': { description: 'ok', ...jsonBody(oldSchema) } } }),
+      operation({ responses: { '200': { description: 'ok', ...jsonBody(newSchema) } } })
+    ),
+  };
+}
+
+const object = (properties: Record<string, any>, required: string[] = []) => ({ type: 'object', properties, required });
+
+describe('diffOperations', () => {
+  it('breaks response readers, not request writers, when a field is removed', () => {
+    const { request, response } = diffBothWays(object({ id: { type: 'integer' }, name: { type: 'string' } }), object({ id: { type: 'integer' } }));
+    expect(request).toEqual([{ location: 'request body: name', message: 'Field removed', breaking: false }]);
+    expect(response).toEqual([{ location: 'response 200: name', message: 'Field removed', breaking: true }]);
+  });
+
+  it('breaks request writers when a required field is added', () => {
+    const { request, response } = diffBothWays(object({}), object({ name: { type: 'string' } }, ['name']));
+    expect(request).toEqual([{ location: 'request body: name', message: 'Required field added', breaking: true }]);
+    expect(response[0].breaking).toBe(false);
+  });
+
+  it('treats new required parameters as breaking and optional ones as safe', () => {
+    const changes = diffOperations(operation(), operation({
+      parameters: [
+        { name: 'limit', in: 'query', required: true, schema: { type: 'integer' } },
+        { name: 'offset', in: 'query', schema: { type: 'integer' } },
+      ],
+    }));
+    expect(changes).toEqual([
+      { location: 'query parameter limit', message: 'Required parameter added', breaking: true },
+      { location: 'query parameter offset', message: 'Optional parameter added', breaking: false },
+    ]);
+  });
+
+  it('breaks request writers when an enum is narrowed and response readers when it grows', () => {
+    const narrowed = diffBothWays({ type: 'string', enum: ['a', 'b'] }, { type: 'string', enum: ['a'] });
+    expect(narrowed.request).toEqual([{ location: 'request body', message: 'Enum values removed: "b"', breaking: true }]);
+    expect(narrowed.response[0].breaking).toBe(false);
+
+    const widened = diffBothWays({ type: 'string', enum: ['a'] }, { type: 'string', enum: ['a', 'b'] });
+    expect(widened.request[0].breaking).toBe(false);
+    expect(widened.response[0].breaking).toBe(true);
+  });
+
+  it('judges nullable flips by direction', () => {
+    const becameNullable = diffBothWays({ type: 'string' }, { type: 'string', nullable: true });
+    expect(becameNullable.request).toEqual([{ location: 'request body', message: 'Became nullable', breaking: false }]);
+    expect(becameNullable.response).toEqual([{ location: 'response 200', message: 'Became nullable', breaking: true }]);
+
+    const noLongerNullable = diffBothWays({ type: 'string', nullable: true }, { type: 'string' });
+    expect(noLongerNullable.request[0].breaking).toBe(true);
+    expect(noLongerNullable.response[0].breaking).toBe(false);
+  });
+
+  it('judges type widening and narrowing by direction', () => {
+    const widened = diffBothWays({ type: 'integer' }, { type: 'number' });
+    expect(widened.request).toEqual([{ location: 'request body', message: 'Type changed from integer to number', breaking: false }]);
+    expect(widened.response[0].breaking).toBe(true);
+
+    const formatAdded = diffBothWays({ type: 'string' }, { type: 'string', format: 'email' });
+    expect(formatAdded.request[0].breaking).toBe(true);
+    expect(formatAdded.response[0].breaking).toBe(false);
+
+    const unrelated = diffBothWays(object({ id: { type: 'integer' } }), { type: 'string' });
+    expect(unrelated.request).toEqual([{ location: 'request body', message: 'Type changed from object to string', breaking: true }]);
+    expect(unrelated.response).toEqual([{ location: 'response 200', message: 'Type changed from object to string', breaking: true }]);
+  });
+
+  it('treats removed responses and media types as breaking', () => {
+    const changes = diffOperations(
+      operation({
+        requestBody: { content: { 'application/json': {}, 'application/xml': {} } },
+        responses: {
+          '200': { description: 'ok', content: { 'application/json': {}, 'text/csv': {} } },
+          '404': { description: 'missing' },
+        },
+      }),
+      operation({
+        requestBody: { content: { 'application/json': {} } },
+        responses: { '200': { description: 'ok', content: { 'application/json': {} } } },
+      })
+    );
+    expect(changes).toEqual([
+      { location: 'request body', message: 'Media types removed: application/xml', breaking: true },
+      { location: 'response 404', message: 'Response removed', breaking: true },
+      { location: 'response 200', message: 'Media types removed: text/csv', breaking: true },
+    ]);
+  });
+});
+
+describe('diffSpecs', () => {
+  const spec = (payment: any[], request: any): any => ({
+    openapi: '3.0.3',
+    paths: {
+      '/payments': {
+        post: {
+          requestBody: jsonBody(request),
+          responses: { '200': { description: 'ok', ...jsonBody({ oneOf: payment }) } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Card: object({ number: { type: 'string' }, brand: { type: 'string' } }),
+        Transfer: object({ iban: { type: 'string' } }),
+        Cash: object({ amount: { type: 'number' } }),
+      },
+    },
+  });
+  const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+  it('matches oneOf variants by the schema they refer to', () => {
+    const oldSpec = spec([ref('Card'), ref('Transfer')], { type: 'object' });
+    const newSpec = spec([ref('Transfer'), ref('Card')], { type: 'object' });
+    expect(diffSpecs(oldSpec, newSpec).operations).toEqual([]);
+  });
+
+  it('flags removed response variants and changes inside matched ones', () => {
+    const oldSpec = spec([ref('Card'), ref('Transfer')], { type: 'object' });
+    const newSpec = spec([ref('Card')], { type: 'object' });
+    newSpec.components.schemas.Card = object({ number: { type: 'string' } });
+
+    expect(diffSpecs(oldSpec, newSpec).operations[0].changes).toEqual([
+      { location: 'response 200', message: 'oneOf variant removed: Transfer', breaking: true },
+      { location: 'response 200: oneOf[Card].brand', message: 'Field removed', breaking: true },
+    ]);
+  });
+
+  it('flags request variants that a body now has to match', () => {
+    const added = diffSpecs(
+      spec([ref('Card')], { anyOf: [ref('Card')] }),
+      spec([ref('Card')], { anyOf: [ref('Card'), ref('Cash')] })
+    );
+    expect(added.operations[0].changes).toEqual([
+      { location: 'request body', message: 'anyOf variant added: Cash', breaking: false },
+    ]);
+
+    const introduced = diffSpecs(
+      spec([ref('Card')], { type: 'object' }),
+      spec([ref('Card')], { type: 'object', oneOf: [ref('Card'), ref('Cash')] })
+    );
+    expect(introduced.operations[0].changes.every(change => change.breaking)).toBe(true);
+    expect(introduced.summary.breaking).toBe(1);
+  });
+});
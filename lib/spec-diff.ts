@@ -0,0 +1,410 @@
+import {
+  getAllEndpointsInfo,
+  getRefName,
+  getResolvedRef,
+  getUnexpandedRef,
+  isUnexpandedRef,
+  type EndpointMethodInfo,
+  type OpenAPISpec,
+  type Parameter
+} from '@/lib/openapi';
+
+// A single difference between two versions of an operation
+export type SpecChange = {
+  // Where the change is, e.g. "query parameter limit", "request body: user.email", "response 200: [].id"
+  location: string;
+  message: string;
+  // Whether existing clients may break: removed fields, new required inputs, narrowed enums, ...
+  breaking: boolean;
+};
+
+export type OperationDiff = {
+  endpoint: string;
+  method: string;
+  status: 'added' | 'removed' | 'changed';
+  changes: SpecChange[];
+};
+
+export type SpecDiff = {
+  operations: OperationDiff[];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    breaking: number;
+  };
+};
+
+// Schemas are compared this many levels deep; deeper nesting is left out of the diff
+const MAX_SCHEMA_DEPTH = 10;
+
+// Requests and responses break in opposite directions: a field removed from a
+// response breaks readers, while a field becoming required in a request breaks writers
+type SchemaDirection = 'request' | 'response';
+
+function describeType(schema: any): string {
+  if (!schema || typeof schema !== 'object') return 'none';
+  if (isUnexpandedRef(schema)) return schema.title;
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type || 'any';
+  return schema.format ? `${type} (${schema.format})` : type;
+}
+
+/**
+ * The JSON types a schema allows, or null when it allows any
+ */
+function getTypes(schema: any): string[] | null {
+  if (Array.isArray(schema.type)) return schema.type;
+  return typeof schema.type === 'string' ? [schema.type] : null;
+}
+
+/**
+ * Check whether every value of the narrower schema's types and format is also valid
+ * for the wider one (integers are numbers, a missing format allows any)
+ */
+function acceptsAll(wider: any, narrower: any): boolean {
+  const widerTypes = getTypes(wider);
+  const narrowerTypes = getTypes(narrower);
+  const typesAccepted = widerTypes === null || (narrowerTypes !== null && narrowerTypes.every(type =>
+    widerTypes.includes(type) || (type === 'integer' && widerTypes.includes('number'))
+  ));
+  return typesAccepted && (!wider.format || wider.format === narrower.format);
+}
+
+/**
+ * Key the members of a oneOf / anyOf by the schema they refer to, or their position when inline
+ */
+function getVariantMembers(members: unknown): Map<string, any> {
+  const result = new Map<string, any>();
+  if (!Array.isArray(members)) return result;
+
+  members.forEach((member, index) => {
+    const ref = getResolvedRef(member);
+    result.set(ref ? getRefName(ref) : `#${index + 1}`, member);
+  });
+  return result;
+}
+
+/**
+ * Compare the oneOf / anyOf members of two schemas. Removed variants break both sides:
+ * writers that send them and readers that handle them. Added variants break response
+ * readers, and request writers when the schema had no alternatives before, since a
+ * body now has to match one of them.
+ */
+function diffVariants(
+  oldSchema: any,
+  newSchema: any,
+  prefix: string,
+  direction: SchemaDirection,
+  changes: SpecChange[],
+  path: string,
+  depth: number
+): void {
+  const location = path ? `${prefix}: ${path}` : prefix;
+
+  for (const kind of ['oneOf', 'anyOf'] as const) {
+    const oldMembers = getVariantMembers(oldSchema[kind]);
+    const newMembers = getVariantMembers(newSchema[kind]);
+    if (oldMembers.size === 0 && newMembers.size === 0) continue;
+
+    for (const name of oldMembers.keys()) {
+      if (!newMembers.has(name)) {
+        changes.push({ location, message: `${kind} variant removed: ${name}`, breaking: true });
+      }
+    }
+
+    for (const [name, member] of newMembers) {
+      if (!oldMembers.has(name)) {
+        changes.push({
+          location,
+          message: `${kind} variant added: ${name}`,
+          breaking: direction === 'response' || oldMembers.size === 0
+        });
+        continue;
+      }
+
+      const variantPath = `${path ? `${path}.` : ''}${kind}[${name}]`;
+      diffSchemas(oldMembers.get(name), member, prefix, direction, changes, variantPath, depth + 1);
+    }
+  }
+}
+
+function formatValues(values: any[]): string {
+  return values.map(value => JSON.stringify(value)).join(', ');
+}
+
+/**
+ * Compare two resolved schemas, collecting changes under `prefix`.
+ * `path` is the field path inside the schema, e.g. "items[].owner.name"
+ */
+function diffSchemas(
+  oldSchema: any,
+  newSchema: any,
+  prefix: string,
+  direction: SchemaDirection,
+  changes: SpecChange[],
+  path: string = '',
+  depth: number = 0
+): void {
+  if (depth > MAX_SCHEMA_DEPTH || oldSchema === newSchema) return;
+  const location = path ? `${prefix}: ${path}` : prefix;
+
+  const oldIsObject = !!oldSchema && typeof oldSchema === 'object';
+  const newIsObject = !!newSchema && typeof newSchema === 'object';
+  if (!oldIsObject || !newIsObject) {
+    if (oldIsObject !== newIsObject) {
+      changes.push({
+        location,
+        message: newIsObject ? 'Schema added' : 'Schema removed',
+        breaking: !newIsObject && direction === 'response'
+      });
+    }
+    return;
+  }
+
+  // Recursion points and depth limits are compared by the schema they refer to
+  if (isUnexpandedRef(oldSchema) || isUnexpandedRef(newSchema)) {
+    if (getUnexpandedRef(oldSchema) !== getUnexpandedRef(newSchema)) {
+      changes.push({ location, message: `Schema changed from ${describeType(oldSchema)} to ${describeType(newSchema)}`, breaking: true });
+    }
+    return;
+  }
+
+  // Widening (integer to number, a format dropped) only breaks response readers,
+  // narrowing only request writers; unrelated types break both and end the comparison
+  const oldType = describeType(oldSchema);
+  const newType = describeType(newSchema);
+  if (oldType !== newType) {
+    const widened = acceptsAll(newSchema, oldSchema);
+    const narrowed = acceptsAll(oldSchema, newSchema);
+    changes.push({
+      location,
+      message: `Type changed from ${oldType} to ${newType}`,
+      breaking: direction === 'request' ? !widened : !narrowed
+    });
+    if (!widened && !narrowed) return;
+  }
+
+  // Enums: removing a value breaks clients that send it, adding one is safe for requests
+  if (Array.isArray(oldSchema.enum) || Array.isArray(newSchema.enum)) {
+    const oldValues: any[] = Array.isArray(oldSchema.enum) ? oldSchema.enum : [];
+    const newValues: any[] = Array.isArray(newSchema.enum) ? newSchema.enum : [];
+    const removed = oldValues.filter(value => !newValues.some(candidate => JSON.stringify(candidate) === JSON.stringify(value)));
+    const added = newValues.filter(value => !oldValues.some(candidate => JSON.stringify(candidate) === JSON.stringify(value)));
+
+    if (!Array.isArray(newSchema.enum) && oldValues.length > 0) {
+      changes.push({ location, message: 'Enum restriction removed', breaking: direction === 'response' });
+    } else if (!Array.isArray(oldSchema.enum) && newValues.length > 0) {
+      changes.push({ location, message: `Restricted to enum values ${formatValues(newValues)}`, breaking: direction === 'request' });
+    } else {
+      if (removed.length > 0) {
+        changes.push({ location, message: `Enum values removed: ${formatValues(removed)}`, breaking: direction === 'request' });
+      }
+      if (added.length > 0) {
+        changes.push({ location, message: `Enum values added: ${formatValues(added)}`, breaking: direction === 'response' });
+      }
+    }
+  }
+
+  if (!!oldSchema.nullable !== !!newSchema.nullable) {
+    changes.push({
+      location,
+      message: newSchema.nullable ? 'Became nullable' : 'No longer nullable',
+      breaking: direction === 'response' ? !!newSchema.nullable : !newSchema.nullable
+    });
+  }
+
+  diffVariants(oldSchema, newSchema, prefix, direction, changes, path, depth);
+
+  // Object properties
+  const oldProperties: Record<string, any> = oldSchema.properties || {};
+  const newProperties: Record<string, any> = newSchema.properties || {};
+  const oldRequired = new Set<string>(Array.isArray(oldSchema.required) ? oldSchema.required : []);
+  const newRequired = new Set<string>(Array.isArray(newSchema.required) ? newSchema.required : []);
+  const fieldPath = (name: string) => (path ? `${path}.${name}` : name);
+  const fieldLocation = (name: string) => `${prefix}: ${fieldPath(name)}`;
+
+  for (const name of Object.keys(oldProperties)) {
+    if (!(name in newProperties)) {
+      changes.push({ location: fieldLocation(name), message: 'Field removed', breaking: direction === 'response' });
+    }
+  }
+
+  for (const [name, propertySchema] of Object.entries(newProperties)) {
+    if (!(name in oldProperties)) {
+      const required = newRequired.has(name);
+      changes.push({
+        location: fieldLocation(name),
+        message: required ? 'Required field added' : 'Field added',
+        breaking: direction === 'request' && required
+      });
+      continue;
+    }
+
+    if (oldRequired.has(name) !== newRequired.has(name)) {
+      const nowRequired = newRequired.has(name);
+      changes.push({
+        location: fieldLocation(name),
+        message: nowRequired ? 'Field became required' : 'Field became optional',
+        breaking: direction === 'request' ? nowRequired : !nowRequired
+      });
+    }
+
+    diffSchemas(oldProperties[name], propertySchema, prefix, direction, changes, fieldPath(name), depth + 1);
+  }
+
+  // Array items
+  if (oldSchema.items || newSchema.items) {
+    diffSchemas(oldSchema.items, newSchema.items, prefix, direction, changes, `${path}[]`, depth + 1);
+  }
+}
+
+/**
+ * Pick the schema of the first JSON-like media type (or the first one) of a content map
+ */
+function getContentSchema(content: Record<string, any> | undefined): any {
+  if (!content) return undefined;
+  const mediaTypes = Object.keys(content);
+  const mediaType = mediaTypes.find(type => /json/i.test(type)) || mediaTypes[0];
+  return mediaType ? content[mediaType]?.schema : undefined;
+}
+
+function describeParameter(parameter: Parameter): string {
+  return `${parameter.in} parameter ${parameter.name}`;
+}
+
+/**
+ * Compare two versions of one operation
+ */
+export function diffOperations(oldMethod: EndpointMethodInfo, newMethod: EndpointMethodInfo): SpecChange[] {
+  const changes: SpecChange[] = [];
+
+  if (!oldMethod.deprecated && newMethod.deprecated) {
+    changes.push({ location: 'operation', message: 'Deprecated', breaking: false });
+  }
+
+  // Security requirements
+  if (JSON.stringify(oldMethod.security ?? null) !== JSON.stringify(newMethod.security ?? null)) {
+    changes.push({ location: 'security', message: 'Security requirements changed', breaking: true });
+  }
+
+  // Parameters, matched by location and name
+  const key = (parameter: Parameter) => `${parameter.in}:${parameter.name}`;
+  const oldParameters = new Map(oldMethod.parameters.map(parameter => [key(parameter), parameter]));
+  const newParameters = new Map(newMethod.parameters.map(parameter => [key(parameter), parameter]));
+
+  for (const [parameterKey, parameter] of oldParameters) {
+    if (!newParameters.has(parameterKey)) {
+      changes.push({ location: describeParameter(parameter), message: 'Parameter removed', breaking: parameter.in === 'path' });
+    }
+  }
+
+  for (const [parameterKey, parameter] of newParameters) {
+    const oldParameter = oldParameters.get(parameterKey);
+    const location = describeParameter(parameter);
+
+    if (!oldParameter) {
+      changes.push({
+        location,
+        message: parameter.required ? 'Required parameter added' : 'Optional parameter added',
+        breaking: !!parameter.required
+      });
+      continue;
+    }
+
+    if (!oldParameter.required && parameter.required) {
+      changes.push({ location, message: 'Parameter became required', breaking: true });
+    } else if (oldParameter.required && !parameter.required) {
+      changes.push({ location, message: 'Parameter became optional', breaking: false });
+    }
+
+    diffSchemas(oldParameter.schema, parameter.schema, location, 'request', changes);
+  }
+
+  // Request body
+  const oldBody = oldMethod.requestBody;
+  const newBody = newMethod.requestBody;
+  if (oldBody && !newBody) {
+    changes.push({ location: 'request body', message: 'Request body removed', breaking: true });
+  } else if (!oldBody && newBody) {
+    changes.push({ location: 'request body', message: newBody.required ? 'Required request body added' : 'Request body added', breaking: !!newBody.required });
+  } else if (oldBody && newBody) {
+    if (!oldBody.required && newBody.required) {
+      changes.push({ location: 'request body', message: 'Request body became required', breaking: true });
+    }
+
+    const oldTypes = Object.keys(oldBody.content || {});
+    const newTypes = Object.keys(newBody.content || {});
+    const removedTypes = oldTypes.filter(type => !newTypes.includes(type));
+    if (removedTypes.length > 0) {
+      changes.push({ location: 'request body', message: `Media types removed: ${removedTypes.join(', ')}`, breaking: true });
+    }
+
+    diffSchemas(getContentSchema(oldBody.content), getContentSchema(newBody.content), 'request body', 'request', changes);
+  }
+
+  // Responses, matched by status code
+  for (const code of Object.keys(oldMethod.responses)) {
+    if (!(code in newMethod.responses)) {
+      changes.push({ location: `response ${code}`, message: 'Response removed', breaking: true });
+    }
+  }
+
+  for (const [code, response] of Object.entries(newMethod.responses)) {
+    const oldResponse = oldMethod.responses[code];
+    if (!oldResponse) {
+      changes.push({ location: `response ${code}`, message: 'Response added', breaking: false });
+      continue;
+    }
+
+    // Clients that ask for a media type the response no longer has get something else
+    const removedTypes = Object.keys(oldResponse.content || {}).filter(type => !(type in (response.content || {})));
+    if (removedTypes.length > 0) {
+      changes.push({ location: `response ${code}`, message: `Media types removed: ${removedTypes.join(', ')}`, breaking: true });
+    }
+
+    diffSchemas(getContentSchema(oldResponse.content), getContentSchema(response.content), `response ${code}`, 'response', changes);
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two specifications operation by operation
+ */
+export function diffSpecs(oldSpec: OpenAPISpec, newSpec: OpenAPISpec): SpecDiff {
+  const oldEndpoints = getAllEndpointsInfo(oldSpec);
+  const newEndpoints = getAllEndpointsInfo(newSpec);
+  const operations: OperationDiff[] = [];
+
+  const endpoints = Array.from(new Set([...Object.keys(oldEndpoints), ...Object.keys(newEndpoints)])).sort();
+  for (const endpoint of endpoints) {
+    const oldMethods = oldEndpoints[endpoint]?.methods || {};
+    const newMethods = newEndpoints[endpoint]?.methods || {};
+
+    for (const method of Array.from(new Set([...Object.keys(oldMethods), ...Object.keys(newMethods)]))) {
+      const oldMethod = oldMethods[method];
+      const newMethod = newMethods[method];
+
+      if (!newMethod) {
+        operations.push({ endpoint, method, status: 'removed', changes: [{ location: 'operation', message: 'Operation removed', breaking: true }] });
+      } else if (!oldMethod) {
+        operations.push({ endpoint, method, status: 'added', changes: [] });
+      } else {
+        const changes = diffOperations(oldMethod, newMethod);
+        if (changes.length > 0) {
+          operations.push({ endpoint, method, status: 'changed', changes });
+        }
+      }
+    }
+  }
+
+  return {
+    operations,
+    summary: {
+      added: operations.filter(operation => operation.status === 'added').length,
+      removed: operations.filter(operation => operation.status === 'removed').length,
+      changed: operations.filter(operation => operation.status === 'changed').length,
+      breaking: operations.filter(operation => operation.changes.some(change => change.breaking)).length
+    }
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { detectSpecFormat, getSourceSnippet, parseSpecText, SpecParseError } from '@/lib/spec-parser';
+
+/**
+ * Parse text that is expected to fail and return the error
+ */
+function parseError(text: string, options = {}): SpecParseError {
+  try {
+    parseSpecText(text, options);
+  } catch (error) {
+    if (error instanceof SpecParseError) return error;
+    throw error;
+  }
+  throw new Error('Expected the document to fail parsing');
+}
+
+describe('detectSpecFormat', () => {
+  it('treats text that starts like JSON as JSON', () => {
+    expect(detectSpecFormat('  {"openapi": "3.0.0"}', { contentType: 'application/yaml' })).toBe('json');
+  });
+
+  it('uses the content type or file name for other text', () => {
+    expect(detectSpecFormat('openapi: 3.0.0', { fileName: 'spec.yml' })).toBe('yaml');
+    expect(detectSpecFormat('openapi: 3.0.0', { contentType: 'application/vnd.oai.openapi' })).toBe('yaml');
+    expect(detectSpecFormat('openapi: 3.0.0')).toBe('yaml');
+  });
+});
+
+describe('parseSpecText', () => {
+  it('parses JSON and YAML documents', () => {
+    expect(parseSpecText('{"openapi": "3.0.0"}')).toEqual({ openapi: '3.0.0' });
+    expect(parseSpecText('openapi: 3.0.0\ninfo:\n  title: Pets\n')).toEqual({ openapi: '3.0.0', info: { title: 'Pets' } });
+  });
+
+  it('reports the line and column of a JSON syntax error', () => {
+    const error = parseError('{\n  "openapi": "3.0.0",\n  "info": }\n}');
+    expect(error.format).toBe('json');
+    expect(error.line).toBe(3);
+    expect(error.column).toBe(11);
+    expect(error.message).toMatch(/^Invalid JSON at line 3, column 11: /);
+  });
+
+  it('points at the end of a truncated JSON document', () => {
+    const error = parseError('{\n  "openapi": "3.0.0",\n  "info": {');
+    expect(error.line).toBe(3);
+    expect(error.column).toBe(12);
+  });
+
+  it('reports the line and column of a YAML syntax error', () => {
+    const error = parseError('openapi: 3.0.0\ninfo:\n  title: Pets\n  title: Dogs\n', { fileName: 'spec.yaml' });
+    expect(error.format).toBe('yaml');
+    expect(error.line).toBe(4);
+    expect(error.column).toBe(3);
+    expect(error.reason).toMatch(/unique/);
+  });
+
+  it('falls back to YAML for declared YAML documents that are not strict JSON', () => {
+    expect(parseSpecText("{openapi: '3.0.0'}", { contentType: 'application/yaml' })).toEqual({ openapi: '3.0.0' });
+  });
+
+  it('rejects empty documents', () => {
+    expect(parseError('  \n').reason).toBe('Document is empty');
+  });
+});
+
+describe('getSourceSnippet', () => {
+  it('shows the surrounding lines with a caret under the column', () => {
+    const text = 'a\nb\nc: oops\nd\ne\nf';
+    expect(getSourceSnippet(text, 3, 4)).toBe([
+      '  1 | a',
+      '  2 | b',
+      '> 3 | c: oops',
+      '    |    ^',
+      '  4 | d',
+      '  5 | e',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,179 @@
+import { parse as parseYaml, YAMLParseError } from 'yaml';
+
+export type SpecFormat = 'json' | 'yaml';
+
+// Custom error for specification documents that cannot be parsed
+export class SpecParseError extends Error {
+  format: SpecFormat;
+  line?: number;
+  column?: number;
+  reason: string;
+
+  constructor(format: SpecFormat, reason: string, line?: number, column?: number) {
+    const location = line !== undefined ? ` at line ${line}, column ${column ?? 1}` : '';
+    super(`Invalid ${format.toUpperCase()}${location}: ${reason}`);
+    this.name = 'SpecParseError';
+    this.format = format;
+    this.reason = reason;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type ParseSpecOptions = {
+  contentType?: string;
+  fileName?: string;
+};
+
+/**
+ * Check whether a content type or file name declares a YAML document
+ */
+export function isYamlSource({ contentType, fileName }: ParseSpecOptions): boolean {
+  if (contentType && (/ya?ml/i.test(contentType) || /vnd\.oai\.openapi(?!\+json)/i.test(contentType))) {
+    return true;
+  }
+
+  return !!fileName && /\.ya?ml$/i.test(fileName);
+}
+
+/**
+ * Detect the format of a specification document.
+ * Text that starts like a JSON value is treated as JSON even when it is
+ * served with a YAML content type, since YAML is a superset of JSON.
+ */
+export function detectSpecFormat(text: string, options: ParseSpecOptions = {}): SpecFormat {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return 'json';
+  }
+
+  if (isYamlSource(options)) {
+    return 'yaml';
+  }
+
+  if (options.contentType && /json/i.test(options.contentType)) {
+    return 'json';
+  }
+
+  return options.fileName && /\.json$/i.test(options.fileName) ? 'json' : 'yaml';
+}
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+function offsetToLineColumn(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Render the lines around a position with line numbers and a caret under the column,
+ * e.g. for showing where a pasted document failed to parse
+ */
+export function getSourceSnippet(text: string, line: number, column: number = 1, contextLines: number = 2): string {
+  const lines = text.split(/\r?\n/);
+  const target = Math.min(Math.max(line, 1), lines.length);
+  const first = Math.max(target - contextLines, 1);
+  const last = Math.min(target + contextLines, lines.length);
+  const gutterWidth = String(last).length;
+
+  const snippet: string[] = [];
+  for (let current = first; current <= last; current++) {
+    const marker = current === target ? '>' : ' ';
+    snippet.push(`${marker} ${String(current).padStart(gutterWidth)} | ${lines[current - 1]}`);
+    if (current === target) {
+      snippet.push(`  ${' '.repeat(gutterWidth)} | ${' '.repeat(Math.max(column - 1, 0))}^`);
+    }
+  }
+  return snippet.join('\n');
+}
+
+/**
+ * Parse JSON text, translating engine-specific error messages into a line and column
+ */
+function parseJsonText(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // Firefox: "... at line 3 column 5 of the JSON data"
+    const lineColumnMatch = message.match(/line (\d+) column (\d+)/);
+    if (lineColumnMatch) {
+      throw new SpecParseError('json', cleanJsonMessage(message), Number(lineColumnMatch[1]), Number(lineColumnMatch[2]));
+    }
+
+    // V8 / JavaScriptCore: "... in JSON at position 42"
+    const positionMatch = message.match(/position (\d+)/);
+    if (positionMatch) {
+      const { line, column } = offsetToLineColumn(text, Number(positionMatch[1]));
+      throw new SpecParseError('json', cleanJsonMessage(message), line, column);
+    }
+
+    // Newer V8: "Unexpected token '}', ..."b": }"... is not valid JSON" quotes
+    // up to 10 characters of context on each side of the offending token
+    const contextMatch = message.match(/^Unexpected token '([\s\S])', (\.\.\.)?"([\s\S]*)"(\.\.\.)? is not valid JSON$/);
+    if (contextMatch) {
+      const [, token, leading, context, trailing] = contextMatch;
+      const contextStart = text.indexOf(context);
+      if (contextStart !== -1) {
+        const tokenIndex = leading ? 10 : trailing ? context.length - 11 : context.lastIndexOf(token);
+        const { line, column } = offsetToLineColumn(text, contextStart + Math.max(tokenIndex, 0));
+        throw new SpecParseError('json', `Unexpected token '${token}'`, line, column);
+      }
+    }
+
+    // Truncated documents report no position, so point at the end of the text
+    const { line, column } = offsetToLineColumn(text, text.length);
+    throw new SpecParseError('json', cleanJsonMessage(message), line, column);
+  }
+}
+
+/**
+ * Strip the location suffix that engines append to JSON error messages
+ */
+function cleanJsonMessage(message: string): string {
+  return message
+    .replace(/^(JSON\.parse: |JSON Parse error: )/, '')
+    .replace(/ (in JSON )?at position \d+.*$/, '')
+    .replace(/ at line \d+ column \d+ of the JSON data$/, '');
+}
+
+/**
+ * Parse YAML text, reporting the first syntax error with its position
+ */
+function parseYamlText(text: string): any {
+  try {
+    return parseYaml(text, { merge: true, prettyErrors: false });
+  } catch (error) {
+    if (error instanceof YAMLParseError) {
+      const { line, column } = offsetToLineColumn(text, error.pos[0]);
+      throw new SpecParseError('yaml', error.message.split('\n')[0], line, column);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse the raw text of an OpenAPI/Swagger document in either JSON or YAML
+ */
+export function parseSpecText(text: string, options: ParseSpecOptions = {}): any {
+  if (!text || !text.trim()) {
+    throw new SpecParseError(detectSpecFormat(text || '', options), 'Document is empty');
+  }
+
+  if (detectSpecFormat(text, options) === 'yaml') {
+    return parseYamlText(text);
+  }
+
+  try {
+    return parseJsonText(text);
+  } catch (error) {
+    // A document declared as YAML may still use flow syntax that is not strict JSON
+    if (isYamlSource(options)) {
+      return parseYamlText(text);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+import { indexAllEndpoints, normalizeOpenAPISpec, type EndpointInfo, type OpenAPISpec } from '@/lib/openapi';
+import { parseSpecText, SpecParseError, type SpecFormat } from '@/lib/spec-parser';
+import { diffSpecs } from '@/lib/spec-diff';
+
+// CPU-heavy spec work that runs in the spec worker (lib/spec.worker.ts),
+// or on the main thread when workers are unavailable
+
+export type SpecProcessingRequest =
+  | { type: 'parse'; text: string; contentType?: string; fileName?: string }
+  | { type: 'index'; spec: OpenAPISpec }
+  | { type: 'diff'; base: OpenAPISpec; target: OpenAPISpec };
+
+export type IndexedSpec = {
+  spec: OpenAPISpec;
+  endpoints: Record<string, EndpointInfo>;
+};
+
+// Errors cross the worker boundary as plain data and are rebuilt on the other side
+export type SerializedError =
+  | { name: 'SpecParseError'; format: SpecFormat; reason: string; line?: number; column?: number }
+  | { name: string; message: string };
+
+export type SpecWorkerMessage = { id: number } & SpecProcessingRequest;
+
+export type SpecWorkerReply =
+  | { id: number; result: any }
+  | { id: number; error: SerializedError };
+
+/**
+ * Run a processing request synchronously
+ */
+export function processSpecRequest(request: SpecProcessingRequest): any {
+  switch (request.type) {
+    case 'parse':
+      return parseSpecText(request.text, { contentType: request.contentType, fileName: request.fileName });
+    case 'index': {
+      const spec = normalizeOpenAPISpec(request.spec);
+      return { spec, endpoints: indexAllEndpoints(spec) } satisfies IndexedSpec;
+    }
+    case 'diff':
+      return diffSpecs(normalizeOpenAPISpec(request.base), normalizeOpenAPISpec(request.target));
+  }
+}
+
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof SpecParseError) {
+    return { name: 'SpecParseError', format: error.format, reason: error.reason, line: error.line, column: error.column };
+  }
+  return {
+    name: error instanceof Error ? error.name : 'Error',
+    message: error instanceof Error ? error.message : String(error)
+  };
+}
+
+export function deserializeError(error: SerializedError): Error {
+  if ('format' in error) {
+    return new SpecParseError(error.format, error.reason, error.line, error.column);
+  }
+  const result = new Error(error.message);
+  result.name = error.name;
+  return result;
+}
@@ -0,0 +1,240 @@
+// Browser storage for uploaded and pasted spec documents.
+// Specs can be several megabytes, far beyond what localStorage holds, so they
+// live in IndexedDB (gzip-compressed where the browser supports it); the
+// workspace (lib/workspace) refers to them by key.
+
+const DB_NAME = 'easy-swagger';
+const DB_VERSION = 1;
+const STORE_NAME = 'specs';
+
+// Legacy localStorage key that held the raw text of the last uploaded spec
+const LEGACY_FILE_KEY = 'swagger-file';
+
+// Oldest entries are evicted beyond these limits
+const MAX_STORED_SPECS = 20;
+const MAX_STORED_BYTES = 100 * 1024 * 1024;
+
+// A stored spec document: the root text plus, for multi-file uploads, the files its $refs point to
+export type StoredSpecDocument = {
+  text: string;
+  baseUrl?: string;
+  files?: Record<string, string>;
+};
+
+// Metadata about a stored spec, available without decompressing it
+export type StoredSpecInfo = {
+  key: string;
+  name: string;
+  // Size of the document text (and referenced files) before compression
+  size: number;
+  // Bytes actually taken in IndexedDB
+  storedSize: number;
+  compressed: boolean;
+  // Number of documents stored: the root plus any files its $refs point to
+  fileCount: number;
+  lastUsedAt: number;
+};
+
+type StoredSpecRecord = StoredSpecInfo & {
+  // Compressed JSON of the document, or the JSON string itself when compression is unavailable
+  payload: Blob | string;
+};
+
+// Custom error for spec documents that cannot be saved or read
+export class SpecStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpecStorageError';
+  }
+}
+
+/**
+ * Build the storage key for a spec source, e.g. `file:specs/openapi.yaml` or `paste`
+ */
+export function getSpecStorageKey(kind: 'file' | 'paste', name?: string): string {
+  return name ? `${kind}:${name}` : kind;
+}
+
+/**
+ * Format a byte count for display (e.g. "1.4 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function isCompressionSupported(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+async function compress(text: string): Promise<Blob> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).blob();
+}
+
+async function decompress(blob: Blob): Promise<string> {
+  const stream = blob.stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+/**
+ * Translate IndexedDB failures into messages that can be shown to the user
+ */
+function toStorageError(error: unknown): SpecStorageError {
+  if (error instanceof SpecStorageError) {
+    return error;
+  }
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return new SpecStorageError('Browser storage is full');
+  }
+  return new SpecStorageError(error instanceof Error ? error.message : String(error));
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new SpecStorageError('IndexedDB is not available in this browser'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      // Private browsing modes may refuse to open databases at all
+      request.onerror = () => reject(new SpecStorageError(request.error?.message || 'IndexedDB could not be opened'));
+      request.onblocked = () => reject(new SpecStorageError('IndexedDB is blocked by another tab'));
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a single request against the spec store and resolve with its result
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(toStorageError(transaction.error || request.error));
+    transaction.onabort = () => reject(toStorageError(transaction.error || request.error));
+  });
+}
+
+function toInfo(record: StoredSpecRecord): StoredSpecInfo {
+  const { key, name, size, storedSize, compressed, fileCount, lastUsedAt } = record;
+  return { key, name, size, storedSize, compressed, fileCount: fileCount ?? 1, lastUsedAt };
+}
+
+/**
+ * List the stored specs, most recently used first
+ */
+export async function listStoredSpecs(): Promise<StoredSpecInfo[]> {
+  const records = await withStore<StoredSpecRecord[]>('readonly', store => store.getAll());
+  return records.map(toInfo).sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+}
+
+/**
+ * Drop the least recently used specs until the count and size limits are met
+ */
+async function evictOldSpecs(keepKey: string): Promise<void> {
+  const specs = await listStoredSpecs();
+  let totalSize = specs.reduce((total, spec) => total + spec.storedSize, 0);
+  let count = specs.length;
+
+  for (const spec of [...specs].reverse()) {
+    if (count <= MAX_STORED_SPECS && totalSize <= MAX_STORED_BYTES) break;
+    if (spec.key === keepKey) continue;
+
+    await deleteStoredSpec(spec.key);
+    count--;
+    totalSize -= spec.storedSize;
+  }
+}
+
+/**
+ * Save a spec document under a key, compressing it when possible
+ */
+export async function saveStoredSpec(key: string, name: string, document: StoredSpecDocument): Promise<StoredSpecInfo> {
+  try {
+    const json = JSON.stringify(document);
+    const size = new Blob([json]).size;
+    const compressed = isCompressionSupported();
+    const payload = compressed ? await compress(json) : json;
+
+    const record: StoredSpecRecord = {
+      key,
+      name,
+      size,
+      storedSize: typeof payload === 'string' ? size : payload.size,
+      compressed,
+      fileCount: document.files ? Object.keys(document.files).length : 1,
+      lastUsedAt: Date.now(),
+      payload,
+    };
+
+    await withStore('readwrite', store => store.put(record));
+    await evictOldSpecs(key);
+    return toInfo(record);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+}
+
+/**
+ * Read the metadata of a stored spec without decompressing it
+ */
+export async function getStoredSpecInfo(key: string): Promise<StoredSpecInfo | null> {
+  const record = await withStore<StoredSpecRecord | undefined>('readonly', store => store.get(key));
+  return record ? toInfo(record) : null;
+}
+
+/**
+ * Load a stored spec document and mark it as recently used
+ */
+export async function loadStoredSpec(key: string): Promise<StoredSpecDocument | null> {
+  try {
+    const record = await withStore<StoredSpecRecord | undefined>('readonly', store => store.get(key));
+    if (!record) {
+      return null;
+    }
+
+    const json = typeof record.payload === 'string' ? record.payload : await decompress(record.payload);
+    await withStore('readwrite', store => store.put({ ...record, lastUsedAt: Date.now() }));
+    return JSON.parse(json);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+}
+
+/**
+ * Remove a stored spec
+ */
+export async function deleteStoredSpec(key: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(key));
+}
+
+/**
+ * Move a spec saved by older versions in localStorage into IndexedDB,
+ * returning the key it was stored under
+ */
+export async function migrateLegacyStoredSpec(): Promise<string | null> {
+  const legacyText = localStorage.getItem(LEGACY_FILE_KEY);
+  if (!legacyText) {
+    return null;
+  }
+
+  const key = getSpecStorageKey('file', 'restored');
+  await saveStoredSpec(key, 'Restored specification', { text: legacyText });
+  localStorage.removeItem(LEGACY_FILE_KEY);
+  return key;
+}
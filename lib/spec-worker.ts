@@ -0,0 +1,110 @@
+import type { OpenAPISpec } from '@/lib/openapi';
+import {
+  deserializeError,
+  processSpecRequest,
+  type IndexedSpec,
+  type SpecProcessingRequest,
+  type SpecWorkerReply
+} from '@/lib/spec-processing';
+import type { SpecDiff } from '@/lib/spec-diff';
+
+type PendingRequest = {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+};
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, PendingRequest>();
+
+/**
+ * Start the shared spec worker, or return null where workers cannot be used
+ */
+function getWorker(): Worker | null {
+  if (workerUnavailable || typeof window === 'undefined' || typeof Worker === 'undefined') {
+    return null;
+  }
+
+  if (!worker) {
+    try {
+      worker = new Worker(new URL('./spec.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.warn('Spec worker unavailable, processing on the main thread:', error);
+      workerUnavailable = true;
+      return null;
+    }
+
+    worker.onmessage = (event: MessageEvent<SpecWorkerReply>) => {
+      const reply = event.data;
+      const pending = pendingRequests.get(reply.id);
+      if (!pending) return;
+
+      pendingRequests.delete(reply.id);
+      if ('error' in reply) {
+        pending.reject(deserializeError(reply.error));
+      } else {
+        pending.resolve(reply.result);
+      }
+    };
+
+    // A worker that fails to load cannot be relied on; fall back for this and later requests
+    worker.onerror = (event) => {
+      console.warn('Spec worker failed, processing on the main thread:', event.message);
+      worker?.terminate();
+      worker = null;
+      workerUnavailable = true;
+
+      const requests = Array.from(pendingRequests.values());
+      pendingRequests.clear();
+      requests.forEach(pending => pending.reject(new Error('Spec worker failed')));
+    };
+  }
+
+  return worker;
+}
+
+/**
+ * Run a processing request in the worker, or on the main thread as a fallback
+ */
+async function runSpecRequest<T>(request: SpecProcessingRequest): Promise<T> {
+  const specWorker = getWorker();
+  if (!specWorker) {
+    return processSpecRequest(request);
+  }
+
+  const id = nextRequestId++;
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      pendingRequests.set(id, { resolve, reject });
+      specWorker.postMessage({ id, ...request });
+    });
+  } catch (error) {
+    // The worker itself broke (rather than the request failing): redo the work here
+    if (workerUnavailable && error instanceof Error && error.message === 'Spec worker failed') {
+      return processSpecRequest(request);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse JSON or YAML spec text off the main thread (throws SpecParseError like parseSpecText)
+ */
+export function parseSpecTextInWorker(text: string, options: { contentType?: string; fileName?: string } = {}): Promise<any> {
+  return runSpecRequest({ type: 'parse', text, ...options });
+}
+
+/**
+ * Normalize a spec and build its lazy endpoint index off the main thread
+ */
+export function indexSpecInWorker(spec: OpenAPISpec): Promise<IndexedSpec> {
+  return runSpecRequest({ type: 'index', spec });
+}
+
+/**
+ * Compare two specs off the main thread, resolving every operation of both
+ */
+export function diffSpecsInWorker(base: OpenAPISpec, target: OpenAPISpec): Promise<SpecDiff> {
+  return runSpecRequest({ type: 'diff', base, target });
+}
@@ -0,0 +1,15 @@
+import { processSpecRequest, serializeError, type SpecWorkerMessage, type SpecWorkerReply } from '@/lib/spec-processing';
+
+// Web Worker entry: parses and indexes specs off the main thread
+
+self.onmessage = (event: MessageEvent<SpecWorkerMessage>) => {
+  const { id, ...request } = event.data;
+
+  let reply: SpecWorkerReply;
+  try {
+    reply = { id, result: processSpecRequest(request) };
+  } catch (error) {
+    reply = { id, error: serializeError(error) };
+  }
+  self.postMessage(reply);
+};
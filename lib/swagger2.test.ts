@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { convertSwagger2ToOpenAPI3, isSwagger2Spec } from '@/lib/swagger2';
+
+const swagger2Spec: any = {
+  swagger: '2.0',
+  info: { title: 'Pets', version: '1.0' },
+  host: 'api.example.com',
+  basePath: '/v1',
+  schemes: ['https'],
+  consumes: ['application/json'],
+  produces: ['application/json'],
+  tags: [{ name: 'pets' }],
+  'x-logo': 'logo.png',
+  definitions: {
+    Pet: { type: 'object', properties: { owner: { $ref: '#/definitions/Owner' } } },
+    Owner: { type: 'object' },
+  },
+  parameters: {
+    Limit: { name: 'limit', in: 'query', type: 'integer' },
+    PetBody: { name: 'pet', in: 'body', schema: { $ref: '#/definitions/Pet' } },
+  },
+  securityDefinitions: {
+    key: { type: 'apiKey', name: 'X-Key', in: 'header' },
+    oauth: { type: 'oauth2', flow: 'accessCode', authorizationUrl: 'https://auth', tokenUrl: 'https://token', scopes: { read: 'Read' } },
+  },
+  paths: {
+    '/pets': {
+      parameters: [{ $ref: '#/parameters/Limit' }],
+      post: {
+        parameters: [{ $ref: '#/parameters/PetBody' }],
+        responses: { '200': { description: 'ok', schema: { $ref: '#/definitions/Pet' } } },
+      },
+      put: {
+        consumes: ['multipart/form-data'],
+        parameters: [
+          { name: 'file', in: 'formData', type: 'file', required: true },
+          { name: 'note', in: 'formData', type: 'string' },
+        ],
+        responses: { '204': { description: 'none' } },
+      },
+    },
+  },
+};
+
+describe('isSwagger2Spec', () => {
+  it('recognizes Swagger 2.0 documents only', () => {
+    expect(isSwagger2Spec(swagger2Spec)).toBe(true);
+    expect(isSwagger2Spec({ openapi: '3.0.3' })).toBe(false);
+  });
+});
+
+describe('convertSwagger2ToOpenAPI3', () => {
+  const converted = convertSwagger2ToOpenAPI3(swagger2Spec);
+
+  it('replaces the Swagger 2.0 top-level keys and keeps the rest', () => {
+    expect(converted.openapi).toBe('3.0.3');
+    for (const key of ['swagger', 'host', 'basePath', 'schemes', 'consumes', 'produces', 'definitions', 'parameters', 'securityDefinitions']) {
+      expect(converted).not.toHaveProperty(key);
+    }
+    expect(converted.info).toEqual({ title: 'Pets', version: '1.0' });
+    expect(converted.tags).toEqual([{ name: 'pets' }]);
+    expect(converted['x-logo']).toBe('logo.png');
+  });
+
+  it('builds servers from host, basePath and schemes', () => {
+    expect(converted.servers).toEqual([{ url: 'https://api.example.com/v1' }]);
+  });
+
+  it('moves definitions and shared parameters into components and rewrites their refs', () => {
+    expect(converted.components?.schemas?.Pet.properties.owner).toEqual({ $ref: '#/components/schemas/Owner' });
+    expect(converted.components?.parameters?.Limit).toEqual({ name: 'limit', in: 'query', schema: { type: 'integer' } });
+    expect(converted.components?.requestBodies?.PetBody.content).toEqual({
+      'application/json': { schema: { $ref: '#/components/schemas/Pet' } },
+    });
+  });
+
+  it('turns body parameters into request bodies and response schemas into content', () => {
+    const post = converted.paths?.['/pets'].post;
+    expect(post.requestBody).toEqual({ $ref: '#/components/requestBodies/PetBody' });
+    expect(post.parameters).toEqual([{ $ref: '#/components/parameters/Limit' }]);
+    expect(post.responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Pet' });
+  });
+
+  it('turns formData parameters into a form request body', () => {
+    const put = converted.paths?.['/pets'].put;
+    expect(put.requestBody).toEqual({
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: { file: { type: 'string', format: 'binary' }, note: { type: 'string' } },
+            required: ['file'],
+          },
+        },
+      },
+    });
+    expect(put.responses['204']).toEqual({ description: 'none' });
+  });
+
+  it('converts security definitions into security schemes', () => {
+    expect(converted.components?.securitySchemes).toEqual({
+      key: { type: 'apiKey', name: 'X-Key', in: 'header' },
+      oauth: {
+        type: 'oauth2',
+        flows: { authorizationCode: { authorizationUrl: 'https://auth', tokenUrl: 'https://token', scopes: { read: 'Read' } } },
+      },
+    });
+  });
+});
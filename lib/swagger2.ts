@@ -0,0 +1,474 @@
+import type { OpenAPISpec } from '@/lib/openapi';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+// Keys of a Swagger 2.0 non-body parameter that belong in an OpenAPI 3 schema
+const PARAMETER_SCHEMA_KEYS = [
+  'type', 'format', 'items', 'collectionFormat', 'default', 'maximum', 'exclusiveMaximum',
+  'minimum', 'exclusiveMinimum', 'maxLength', 'minLength', 'pattern', 'maxItems',
+  'minItems', 'uniqueItems', 'enum', 'multipleOf', 'allowEmptyValue'
+];
+
+const FORM_CONTENT_TYPES = ['multipart/form-data', 'application/x-www-form-urlencoded'];
+
+// Top-level Swagger 2.0 keys that are converted into their OpenAPI 3 form or dropped
+const SWAGGER2_ONLY_KEYS = [
+  'swagger',
+  'host',
+  'basePath',
+  'schemes',
+  'consumes',
+  'produces',
+  'definitions',
+  'parameters',
+  'responses',
+  'securityDefinitions',
+  'paths',
+];
+
+/**
+ * Check whether a document is a Swagger 2.0 specification
+ */
+export function isSwagger2Spec(spec: OpenAPISpec): boolean {
+  return !!spec && typeof spec.swagger === 'string' && spec.swagger.startsWith('2');
+}
+
+/**
+ * Rewrite a Swagger 2.0 local reference to its OpenAPI 3 location
+ */
+function convertRef(ref: string, bodyParameterNames: Set<string>): string {
+  if (ref.startsWith('#/definitions/')) {
+    return ref.replace('#/definitions/', '#/components/schemas/');
+  }
+  if (ref.startsWith('#/parameters/')) {
+    const name = ref.slice('#/parameters/'.length);
+    return bodyParameterNames.has(name)
+      ? `#/components/requestBodies/${name}`
+      : `#/components/parameters/${name}`;
+  }
+  if (ref.startsWith('#/responses/')) {
+    return ref.replace('#/responses/', '#/components/responses/');
+  }
+  return ref;
+}
+
+/**
+ * Convert a Swagger 2.0 schema object (and any nested schemas) to OpenAPI 3
+ */
+function convertSchema(schema: any, bodyParameterNames: Set<string>): any {
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  if (Array.isArray(schema)) {
+    return schema.map(item => convertSchema(item, bodyParameterNames));
+  }
+
+  const result: any = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$ref' && typeof value === 'string') {
+      result.$ref = convertRef(value, bodyParameterNames);
+    } else if (key === 'x-nullable') {
+      result.nullable = value;
+    } else if (key === 'discriminator' && typeof value === 'string') {
+      result.discriminator = { propertyName: value };
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = convertSchemaMap(value as Record<string, any>, bodyParameterNames);
+    } else if (key === 'example' || key === 'enum' || key === 'default') {
+      result[key] = value;
+    } else {
+      result[key] = convertSchema(value, bodyParameterNames);
+    }
+  }
+
+  // Swagger 2.0 file uploads become binary strings
+  if (result.type === 'file') {
+    result.type = 'string';
+    result.format = 'binary';
+  }
+
+  return result;
+}
+
+/**
+ * Convert every schema in a name-to-schema map
+ */
+function convertSchemaMap(schemas: Record<string, any>, bodyParameterNames: Set<string>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [name, schema] of Object.entries(schemas)) {
+    result[name] = convertSchema(schema, bodyParameterNames);
+  }
+  return result;
+}
+
+/**
+ * Translate collectionFormat into the OpenAPI 3 style/explode pair
+ */
+function convertCollectionFormat(collectionFormat: string | undefined): { style?: string; explode?: boolean } {
+  switch (collectionFormat) {
+    case 'multi':
+      return { style: 'form', explode: true };
+    case 'ssv':
+      return { style: 'spaceDelimited', explode: false };
+    case 'pipes':
+      return { style: 'pipeDelimited', explode: false };
+    case 'csv':
+    case 'tsv':
+      return { style: 'form', explode: false };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Build an OpenAPI 3 schema from the type keywords of a Swagger 2.0 parameter or header
+ */
+function extractParameterSchema(source: any, bodyParameterNames: Set<string>): any {
+  const schema: any = {};
+  for (const key of PARAMETER_SCHEMA_KEYS) {
+    if (key in source && key !== 'collectionFormat' && key !== 'allowEmptyValue') {
+      schema[key] = source[key];
+    }
+  }
+  if (source['x-nullable'] !== undefined) {
+    schema['x-nullable'] = source['x-nullable'];
+  }
+  return convertSchema(schema, bodyParameterNames);
+}
+
+/**
+ * Convert a Swagger 2.0 non-body parameter into an OpenAPI 3 parameter
+ */
+function convertParameter(param: any, bodyParameterNames: Set<string>): any {
+  if (param.$ref) {
+    return { $ref: convertRef(param.$ref, bodyParameterNames) };
+  }
+
+  const result: any = {};
+  for (const [key, value] of Object.entries(param)) {
+    if (!PARAMETER_SCHEMA_KEYS.includes(key) && key !== 'x-nullable') {
+      result[key] = value;
+    }
+  }
+  if (param.allowEmptyValue !== undefined) {
+    result.allowEmptyValue = param.allowEmptyValue;
+  }
+
+  result.schema = extractParameterSchema(param, bodyParameterNames);
+  if (param.type === 'array') {
+    Object.assign(result, convertCollectionFormat(param.collectionFormat));
+  }
+
+  return result;
+}
+
+/**
+ * Build an OpenAPI 3 request body from a Swagger 2.0 `in: body` parameter
+ */
+function convertBodyParameter(param: any, consumes: string[], bodyParameterNames: Set<string>): any {
+  const schema = convertSchema(param.schema || {}, bodyParameterNames);
+  const content: Record<string, any> = {};
+  for (const contentType of consumes) {
+    content[contentType] = {
+      schema,
+      ...(param['x-examples']?.[contentType] !== undefined ? { example: param['x-examples'][contentType] } : {})
+    };
+  }
+
+  return {
+    ...(param.description ? { description: param.description } : {}),
+    ...(param.required !== undefined ? { required: param.required } : {}),
+    content,
+    'x-codegen-request-body-name': param.name
+  };
+}
+
+/**
+ * Build an OpenAPI 3 request body from Swagger 2.0 `in: formData` parameters
+ */
+function convertFormDataParameters(params: any[], consumes: string[], bodyParameterNames: Set<string>): any {
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+
+  for (const param of params) {
+    properties[param.name] = {
+      ...extractParameterSchema(param, bodyParameterNames),
+      ...(param.description ? { description: param.description } : {})
+    };
+    if (param.required) {
+      required.push(param.name);
+    }
+  }
+
+  const schema = {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {})
+  };
+
+  // Files can only be sent as multipart, otherwise prefer the declared form encoding
+  const hasFile = params.some(param => param.type === 'file');
+  const formTypes = consumes.filter(contentType => FORM_CONTENT_TYPES.includes(contentType));
+  const contentTypes = hasFile
+    ? ['multipart/form-data']
+    : formTypes.length > 0 ? formTypes : ['application/x-www-form-urlencoded'];
+
+  const content: Record<string, any> = {};
+  for (const contentType of contentTypes) {
+    content[contentType] = { schema };
+  }
+
+  return {
+    ...(required.length > 0 ? { required: true } : {}),
+    content
+  };
+}
+
+/**
+ * Convert a Swagger 2.0 response object into OpenAPI 3
+ */
+function convertResponse(response: any, produces: string[], bodyParameterNames: Set<string>): any {
+  if (!response || typeof response !== 'object') {
+    return response;
+  }
+
+  if (response.$ref) {
+    return { $ref: convertRef(response.$ref, bodyParameterNames) };
+  }
+
+  const { schema, headers, examples, ...rest } = response;
+  const result: any = { ...rest, description: response.description || '' };
+
+  if (schema) {
+    const convertedSchema = convertSchema(schema, bodyParameterNames);
+    result.content = {};
+    for (const contentType of produces) {
+      result.content[contentType] = {
+        schema: convertedSchema,
+        ...(examples?.[contentType] !== undefined ? { example: examples[contentType] } : {})
+      };
+    }
+  }
+
+  if (headers && typeof headers === 'object') {
+    result.headers = {};
+    for (const [name, header] of Object.entries<any>(headers)) {
+      result.headers[name] = {
+        ...(header.description ? { description: header.description } : {}),
+        schema: extractParameterSchema(header, bodyParameterNames)
+      };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert Swagger 2.0 security definitions into OpenAPI 3 security schemes
+ */
+function convertSecurityDefinitions(securityDefinitions: Record<string, any>): Record<string, any> {
+  const flowNames: Record<string, string> = {
+    implicit: 'implicit',
+    password: 'password',
+    application: 'clientCredentials',
+    accessCode: 'authorizationCode'
+  };
+
+  const result: Record<string, any> = {};
+  for (const [name, definition] of Object.entries(securityDefinitions)) {
+    const { type, flow, authorizationUrl, tokenUrl, scopes, ...rest } = definition;
+
+    if (type === 'basic') {
+      result[name] = { ...rest, type: 'http', scheme: 'basic' };
+    } else if (type === 'oauth2') {
+      result[name] = {
+        ...rest,
+        type: 'oauth2',
+        flows: {
+          [flowNames[flow] || flow]: {
+            ...(authorizationUrl ? { authorizationUrl } : {}),
+            ...(tokenUrl ? { tokenUrl } : {}),
+            scopes: scopes || {}
+          }
+        }
+      };
+    } else {
+      result[name] = { ...definition };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build the OpenAPI 3 servers array from host, basePath and schemes
+ * (the document's, or the schemes an operation overrides them with)
+ */
+function convertServers(spec: OpenAPISpec, operationSchemes?: string[]): { url: string }[] {
+  const basePath = spec.basePath && spec.basePath !== '/' ? spec.basePath.replace(/\/$/, '') : '';
+
+  if (!spec.host) {
+    return [{ url: basePath || '/' }];
+  }
+
+  const schemes: string[] = Array.isArray(operationSchemes) && operationSchemes.length > 0
+    ? operationSchemes
+    : Array.isArray(spec.schemes) && spec.schemes.length > 0 ? spec.schemes : ['https'];
+  return schemes.map(scheme => ({ url: `${scheme}://${spec.host}${basePath}` }));
+}
+
+/**
+ * Convert the parameters of an operation (merged with path-level body and form
+ * parameters) into OpenAPI 3 parameters and a request body
+ */
+function convertOperation(
+  operation: any,
+  pathParameters: any[],
+  spec: OpenAPISpec,
+  bodyParameterNames: Set<string>
+): any {
+  const { consumes, produces, parameters, responses, schemes, ...rest } = operation;
+  const operationConsumes: string[] = consumes || spec.consumes || ['application/json'];
+  const operationProduces: string[] = produces || spec.produces || ['application/json'];
+
+  // Look through $refs so shared body/formData parameters are recognized
+  const lookup = (param: any) => {
+    if (param?.$ref?.startsWith('#/parameters/')) {
+      return spec.parameters?.[param.$ref.slice('#/parameters/'.length)] || param;
+    }
+    return param;
+  };
+
+  // Operation parameters override path-level ones with the same name and location
+  const operationParameters: any[] = parameters || [];
+  const operationKeys = new Set(operationParameters.map(param => {
+    const resolved = lookup(param);
+    return `${resolved.name}:${resolved.in}`;
+  }));
+  const allParameters = [
+    ...pathParameters.filter(param => {
+      const resolved = lookup(param);
+      return !operationKeys.has(`${resolved.name}:${resolved.in}`);
+    }),
+    ...operationParameters
+  ];
+
+  const result: any = { ...rest };
+  const convertedParameters: any[] = [];
+  const formDataParameters: any[] = [];
+
+  for (const param of allParameters) {
+    const resolved = lookup(param);
+    if (resolved.in === 'body') {
+      result.requestBody = param.$ref
+        ? { $ref: convertRef(param.$ref, bodyParameterNames) }
+        : convertBodyParameter(param, operationConsumes, bodyParameterNames);
+    } else if (resolved.in === 'formData') {
+      formDataParameters.push(resolved);
+    } else {
+      convertedParameters.push(convertParameter(param, bodyParameterNames));
+    }
+  }
+
+  if (formDataParameters.length > 0) {
+    result.requestBody = convertFormDataParameters(formDataParameters, operationConsumes, bodyParameterNames);
+  }
+
+  if (convertedParameters.length > 0) {
+    result.parameters = convertedParameters;
+  }
+
+  result.responses = {};
+  for (const [statusCode, response] of Object.entries(responses || {})) {
+    result.responses[statusCode] = convertResponse(response, operationProduces, bodyParameterNames);
+  }
+
+  // Operations served over other schemes than the document get their own servers
+  if (Array.isArray(schemes) && schemes.length > 0 && spec.host) {
+    result.servers = convertServers(spec, schemes);
+  }
+
+  return result;
+}
+
+/**
+ * Convert a Swagger 2.0 document into the OpenAPI 3 shape used by the rest of the app
+ */
+export function convertSwagger2ToOpenAPI3(spec: OpenAPISpec): OpenAPISpec {
+  const { consumes, produces, definitions, parameters, responses, securityDefinitions, paths } = spec;
+
+  // Everything else (info, tags, security, extensions…) is kept as it is
+  const rest: OpenAPISpec = { ...spec };
+  for (const key of SWAGGER2_ONLY_KEYS) {
+    delete rest[key];
+  }
+
+  // Shared body parameters become request bodies, so their refs move too
+  const bodyParameterNames = new Set(
+    Object.entries<any>(parameters || {})
+      .filter(([, param]) => param.in === 'body')
+      .map(([name]) => name)
+  );
+
+  const components: Record<string, any> = {};
+
+  if (definitions) {
+    components.schemas = convertSchemaMap(definitions, bodyParameterNames);
+  }
+
+  if (parameters) {
+    const defaultConsumes: string[] = consumes || ['application/json'];
+    for (const [name, param] of Object.entries<any>(parameters)) {
+      if (param.in === 'body') {
+        components.requestBodies = components.requestBodies || {};
+        components.requestBodies[name] = convertBodyParameter(param, defaultConsumes, bodyParameterNames);
+      } else if (param.in !== 'formData') {
+        components.parameters = components.parameters || {};
+        components.parameters[name] = convertParameter(param, bodyParameterNames);
+      }
+    }
+  }
+
+  if (responses) {
+    const defaultProduces: string[] = produces || ['application/json'];
+    components.responses = {};
+    for (const [name, response] of Object.entries(responses)) {
+      components.responses[name] = convertResponse(response, defaultProduces, bodyParameterNames);
+    }
+  }
+
+  if (securityDefinitions) {
+    components.securitySchemes = convertSecurityDefinitions(securityDefinitions);
+  }
+
+  const convertedPaths: Record<string, any> = {};
+  for (const [path, pathItem] of Object.entries<any>(paths || {})) {
+    if (!pathItem || typeof pathItem !== 'object') continue;
+
+    const pathParameters: any[] = pathItem.parameters || [];
+    const convertedPathItem: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries<any>(pathItem)) {
+      if (HTTP_METHODS.includes(key) && value && typeof value === 'object') {
+        convertedPathItem[key] = convertOperation(value, pathParameters, spec, bodyParameterNames);
+      } else if (key === '$ref' && typeof value === 'string') {
+        convertedPathItem.$ref = value;
+      } else if (key !== 'parameters') {
+        convertedPathItem[key] = value;
+      }
+    }
+
+    convertedPaths[path] = convertedPathItem;
+  }
+
+  return {
+    ...rest,
+    openapi: '3.0.3',
+    servers: convertServers(spec),
+    paths: convertedPaths,
+    components: {
+      ...(rest.components || {}),
+      ...components
+    }
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { generateEndpointTypes, generateSpecTypes, getTypesFileName } from '@/lib/typescript-types';
+
+const spec: any = {
+  openapi: '3.0.3',
+  info: { title: 'Pet Store', version: '1.0' },
+  paths: {
+    '/pets/{id}': {
+      get: {
+        operationId: 'getPet',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+          { name: 'verbose', in: 'query', schema: { type: 'boolean' } },
+        ],
+        responses: {
+          '200': { description: 'ok', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+          '404': { description: 'missing' },
+        },
+      },
+      put: {
+        requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+        responses: { '204': { description: 'none' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        description: 'A pet',
+        required: ['id', 'name'],
+        properties: {
+          id: { type: 'integer', format: 'int64' },
+          name: { type: 'string' },
+          'tag-name': { type: 'string', nullable: true },
+          status: { type: 'string', enum: ['available', 'sold'] },
+          category: { $ref: '#/components/schemas/Category' },
+          shape: { oneOf: [{ $ref: '#/components/schemas/Category' }, { type: 'string' }] },
+        },
+      },
+      Category: {
+        type: 'object',
+        properties: { name: { type: 'string' }, parent: { $ref: '#/components/schemas/Category' } },
+      },
+      Tags: { type: 'array', items: { type: 'string' } },
+    },
+  },
+};
+
+describe('generateSpecTypes', () => {
+  const output = generateSpecTypes(spec);
+
+  it('writes component schemas as interfaces and aliases', () => {
+    expect(output).toContain([
+      '/** A pet */',
+      'export interface Pet {',
+      '  id: number;',
+      '  name: string;',
+      '  "tag-name"?: string | null;',
+      '  status?: "available" | "sold";',
+      '  category?: Category;',
+      '  shape?: Category | string;',
+      '}',
+    ].join('\n'));
+    expect(output).toContain('export type Tags = string[];');
+  });
+
+  it('refers to recursive schemas by name', () => {
+    expect(output).toContain('export interface Category {\n  name?: string;\n  parent?: Category;\n}');
+  });
+
+  it('writes parameter, request body and response types per operation', () => {
+    expect(output).toContain([
+      '// GET /pets/{id}',
+      '',
+      'export interface GetPetParams {',
+      '  path: {',
+      '    id: number;',
+      '  };',
+      '  query?: {',
+      '    verbose?: boolean;',
+      '  };',
+      '}',
+      '',
+      'export type GetPetResponse200 = Pet;',
+      '',
+      'export type GetPetResponse404 = void;',
+    ].join('\n'));
+    // Operations without an operationId are named after their method and path
+    expect(output).toContain('export type PutPetsIdRequestBody = Pet;');
+    expect(output).toContain('export type PutPetsIdResponse204 = void;');
+  });
+});
+
+describe('generateEndpointTypes', () => {
+  it('includes only the component schemas the endpoint uses', () => {
+    const output = generateEndpointTypes(spec, '/pets/{id}');
+    expect(output).toContain('export interface Pet {');
+    expect(output).toContain('export interface Category {');
+    expect(output).not.toContain('Tags');
+  });
+});
+
+describe('getTypesFileName', () => {
+  it('names the file after the spec title', () => {
+    expect(getTypesFileName(spec)).toBe('pet-store.types.ts');
+  });
+});
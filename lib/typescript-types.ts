@@ -0,0 +1,309 @@
+import {
+  getComponentSchemaName,
+  getContentSchema,
+  getGeneratedFileName,
+  getGeneratedHeader,
+  resolveObject,
+  toDocComment,
+  toPropertyKey,
+  toStatusName,
+  toTypeName
+} from '@/lib/codegen';
+import {
+  HTTP_METHODS,
+  mergeParameters,
+  resolveRef,
+  type OpenAPISpec,
+  type Parameter
+} from '@/lib/openapi';
+
+// Parameter locations, in the order they appear in Params types
+const PARAMETER_LOCATIONS = ['path', 'query', 'header', 'cookie'];
+
+// Names the generated code uses itself, which schemas must not shadow
+const RESERVED_NAMES = new Set(['Array', 'Blob', 'Record']);
+
+type TypeContext = {
+  spec: OpenAPISpec;
+  // Type name of each component schema
+  schemaNames: Map<string, string>;
+  usedNames: Set<string>;
+  // Component schemas referenced by the generated types
+  referenced: Set<string>;
+  // Other references being inlined, to stop at recursion
+  inlining: string[];
+};
+
+/**
+ * Reserve a unique type name, numbering names that are already taken
+ */
+function reserveName(ctx: TypeContext, name: string): string {
+  let candidate = RESERVED_NAMES.has(name) ? `${name}Schema` : name;
+  for (let index = 2; ctx.usedNames.has(candidate); index++) {
+    candidate = `${name}${index}`;
+  }
+  ctx.usedNames.add(candidate);
+  return candidate;
+}
+
+function createContext(spec: OpenAPISpec): TypeContext {
+  const ctx: TypeContext = {
+    spec,
+    schemaNames: new Map(),
+    usedNames: new Set(),
+    referenced: new Set(),
+    inlining: []
+  };
+  for (const name of Object.keys(spec.components?.schemas || {})) {
+    ctx.schemaNames.set(name, reserveName(ctx, toTypeName(name)));
+  }
+  return ctx;
+}
+
+/**
+ * Check whether a type has a union or intersection at its top level, so it needs
+ * parentheses inside arrays, unions and intersections
+ */
+function isCompositeType(type: string): boolean {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let index = 0; index < type.length; index++) {
+    const char = type[index];
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ('{([<'.includes(char)) {
+      depth++;
+    } else if ('})]>'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && (char === '|' || char === '&')) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function wrap(type: string): string {
+  return isCompositeType(type) ? `(${type})` : type;
+}
+
+function toLiteral(value: any): string {
+  return value === null || typeof value !== 'object' ? JSON.stringify(value) ?? 'unknown' : 'unknown';
+}
+
+function refToType(ref: string, ctx: TypeContext, indent: string): string {
+  // Component schemas are referenced by name
+  const schemaName = getComponentSchemaName(ref);
+  if (schemaName !== undefined) {
+    const typeName = ctx.schemaNames.get(schemaName);
+    if (!typeName) return 'unknown';
+    ctx.referenced.add(schemaName);
+    return typeName;
+  }
+
+  // Anything else is written out in place
+  if (ctx.inlining.includes(ref)) return 'unknown';
+  ctx.inlining.push(ref);
+  try {
+    return schemaToType(resolveRef(ctx.spec, ref), ctx, indent);
+  } finally {
+    ctx.inlining.pop();
+  }
+}
+
+function objectToType(schema: any, ctx: TypeContext, indent: string): string {
+  const inner = `${indent}  `;
+  const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+  const properties = Object.entries<any>(schema.properties || {});
+  const lines = properties.map(([name, property]) =>
+    `${toDocComment(property, inner)}${inner}${toPropertyKey(name)}${required.has(name) ? '' : '?'}: ${schemaToType(property, ctx, inner)};`
+  );
+
+  const additional = schema.additionalProperties;
+  if (additional === true || (additional && typeof additional === 'object')) {
+    // Declared properties must fit the index signature, so it is only typed for pure maps
+    const valueType = properties.length > 0 || additional === true ? 'unknown' : schemaToType(additional, ctx, inner);
+    lines.push(`${inner}[key: string]: ${valueType};`);
+  }
+
+  if (lines.length === 0) return 'Record<string, unknown>';
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function getSchemaType(schema: any): string | undefined {
+  if (typeof schema.type === 'string') return schema.type;
+  if (schema.properties || schema.additionalProperties) return 'object';
+  if (schema.items) return 'array';
+  return undefined;
+}
+
+function baseSchemaToType(schema: any, ctx: TypeContext, indent: string): string {
+  if (schema.const !== undefined) return toLiteral(schema.const);
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return [...new Set(schema.enum.map(toLiteral))].join(' | ');
+  }
+
+  const hasOwnShape = !!(schema.properties || schema.additionalProperties);
+
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+    const parts = schema.allOf.map((member: any) => wrap(schemaToType(member, ctx, indent)));
+    if (hasOwnShape) parts.push(objectToType(schema, ctx, indent));
+    return parts.join(' & ');
+  }
+
+  const alternatives = Array.isArray(schema.oneOf) && schema.oneOf.length > 0 ? schema.oneOf
+    : Array.isArray(schema.anyOf) && schema.anyOf.length > 0 ? schema.anyOf
+      : null;
+  if (alternatives) {
+    const union = [...new Set(alternatives.map((member: any) => wrap(schemaToType(member, ctx, indent))))].join(' | ');
+    return hasOwnShape ? `(${union}) & ${objectToType(schema, ctx, indent)}` : union;
+  }
+
+  // OpenAPI 3.1 type arrays, e.g. ["string", "null"]
+  if (Array.isArray(schema.type)) {
+    return [...new Set(schema.type.map((type: string) => wrap(baseSchemaToType({ ...schema, type }, ctx, indent))))].join(' | ');
+  }
+
+  switch (getSchemaType(schema)) {
+    case 'object':
+      return objectToType(schema, ctx, indent);
+    case 'array':
+      return `${wrap(schemaToType(schema.items, ctx, indent))}[]`;
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Write a schema as a TypeScript type, indenting nested object types from `indent`
+ */
+function schemaToType(schema: any, ctx: TypeContext, indent: string = ''): string {
+  if (schema === false) return 'never';
+  if (!schema || typeof schema !== 'object') return 'unknown';
+  if (typeof schema.$ref === 'string') return refToType(schema.$ref, ctx, indent);
+
+  const type = baseSchemaToType(schema, ctx, indent);
+  return schema.nullable === true && type !== 'unknown' && !type.split(' | ').includes('null') ? `${type} | null` : type;
+}
+
+/**
+ * Declare a named type: an interface for plain object types, a type alias otherwise
+ */
+function declareType(name: string, schema: any, ctx: TypeContext): string {
+  const type = schemaToType(schema, ctx);
+  const declaration = type.startsWith('{') && !isCompositeType(type)
+    ? `export interface ${name} ${type}`
+    : `export type ${name} = ${type};`;
+  return `${toDocComment(schema, '')}${declaration}`;
+}
+
+/**
+ * Declare the Params, RequestBody and Response types of one operation
+ */
+function declareOperationTypes(path: string, method: string, pathItem: any, ctx: TypeContext): string[] {
+  const operation = pathItem[method];
+  const baseName = reserveName(ctx, toTypeName(operation.operationId || `${method} ${path}`));
+  const declarations: string[] = [`// ${method.toUpperCase()} ${path}${operation.summary ? ` - ${operation.summary}` : ''}`];
+
+  const resolveParameters = (parameters: any): Parameter[] =>
+    (Array.isArray(parameters) ? parameters : []).map(parameter => resolveObject(ctx.spec, parameter)).filter(Boolean);
+  const parameters = mergeParameters(resolveParameters(pathItem.parameters), resolveParameters(operation.parameters));
+
+  const groups = PARAMETER_LOCATIONS
+    .map(location => ({ location, parameters: parameters.filter(parameter => parameter.in === location) }))
+    .filter(group => group.parameters.length > 0);
+  if (groups.length > 0) {
+    const lines = groups.map(({ location, parameters: group }) => {
+      const fields = group.map(parameter =>
+        `${toDocComment(parameter, '    ')}    ${toPropertyKey(parameter.name)}${parameter.required ? '' : '?'}: ${schemaToType(parameter.schema ?? getContentSchema(parameter.content), ctx, '    ')};`
+      );
+      const isRequired = group.some(parameter => parameter.required);
+      return `  ${location}${isRequired ? '' : '?'}: {\n${fields.join('\n')}\n  };`;
+    });
+    declarations.push(`export interface ${reserveName(ctx, `${baseName}Params`)} {\n${lines.join('\n')}\n}`);
+  }
+
+  const requestBody = resolveObject(ctx.spec, operation.requestBody);
+  if (requestBody?.content) {
+    declarations.push(declareType(reserveName(ctx, `${baseName}RequestBody`), getContentSchema(requestBody.content) ?? {}, ctx));
+  }
+
+  for (const [status, value] of Object.entries<any>(operation.responses || {})) {
+    const response = resolveObject(ctx.spec, value);
+    const name = reserveName(ctx, `${baseName}Response${toStatusName(status)}`);
+    const schema = getContentSchema(response?.content);
+    declarations.push(schema === undefined ? `export type ${name} = void;` : declareType(name, schema, ctx));
+  }
+
+  return declarations;
+}
+
+/**
+ * Declare the component schemas used by the generated types, including the ones they use
+ */
+function declareReferencedSchemas(ctx: TypeContext): string[] {
+  const declared = new Set<string>();
+  const declarations: string[] = [];
+
+  for (let pending = [...ctx.referenced]; pending.length > 0; pending = [...ctx.referenced].filter(name => !declared.has(name))) {
+    for (const name of pending) {
+      declared.add(name);
+      declarations.push(declareType(ctx.schemaNames.get(name)!, ctx.spec.components!.schemas![name], ctx));
+    }
+  }
+  return declarations;
+}
+
+/**
+ * Generate TypeScript declarations for a whole spec: every component schema and the
+ * Params, RequestBody and Response<status> types of every operation
+ */
+export function generateSpecTypes(spec: OpenAPISpec): string {
+  const ctx = createContext(spec);
+  const schemas = [...ctx.schemaNames].map(([name, typeName]) => declareType(typeName, spec.components!.schemas![name], ctx));
+
+  const operations: string[] = [];
+  for (const [path, pathItem] of Object.entries<any>(spec.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      if (pathItem?.[method]) {
+        operations.push(declareOperationTypes(path, method, pathItem, ctx).join('\n\n'));
+      }
+    }
+  }
+
+  return [getGeneratedHeader(spec, 'TypeScript types'), ...schemas, ...operations].join('\n\n') + '\n';
+}
+
+/**
+ * Generate TypeScript declarations for the operations of one path, with the component
+ * schemas they use
+ */
+export function generateEndpointTypes(spec: OpenAPISpec, path: string): string {
+  const ctx = createContext(spec);
+  const pathItem = resolveObject(spec, spec.paths?.[path]) || {};
+
+  const operations = HTTP_METHODS
+    .filter(method => pathItem[method])
+    .map(method => declareOperationTypes(path, method, pathItem, ctx).join('\n\n'));
+
+  return [getGeneratedHeader(spec, 'TypeScript types'), ...declareReferencedSchemas(ctx), ...operations].join('\n\n') + '\n';
+}
+
+/**
+ * File name for a spec's types, from its title
+ */
+export function getTypesFileName(spec: OpenAPISpec): string {
+  return getGeneratedFileName(spec, 'types');
+}
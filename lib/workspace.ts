@@ -0,0 +1,189 @@
+import type { OpenAPISpec } from '@/lib/openapi';
+import type { ServerSelection } from '@/lib/servers';
+
+// Where a spec in the workspace comes from: a URL fetched through the proxy,
+// or an uploaded / pasted document kept in browser storage (lib/spec-storage)
+export type SpecSource =
+  | { kind: 'url'; url: string }
+  | { kind: 'stored'; key: string };
+
+export type WorkspaceEntry = {
+  id: string;
+  title: string;
+  source: SpecSource;
+};
+
+export type RecentSpec = WorkspaceEntry & {
+  openedAt: number;
+};
+
+// UI state remembered separately for every spec
+export type SpecUiState = {
+  expandedGroups?: Record<string, boolean>;
+  searchTerm?: string;
+  expandedEndpoint?: string | null;
+  selectedMethod?: string | null;
+  server?: ServerSelection | null;
+};
+
+const RECENT_SPECS_KEY = 'swagger-recent-specs';
+const WORKSPACE_KEY = 'swagger-workspace';
+const UI_STATE_KEY = 'swagger-ui-state';
+const WATCHED_SPECS_KEY = 'swagger-watched-specs';
+const MAX_RECENT_SPECS = 10;
+
+// Keys written by earlier versions, which only knew about a single spec
+const LEGACY_URL_KEY = 'swagger-url';
+const LEGACY_STORED_SPEC_KEY = 'swagger-file-key';
+const LEGACY_EXPANDED_GROUPS_KEY = 'swagger-expanded-groups';
+
+/**
+ * Build the workspace id of a spec source
+ */
+export function getSpecId(source: SpecSource): string {
+  return source.kind === 'url' ? `url:${source.url}` : source.key;
+}
+
+/**
+ * Title shown for a spec: its info.title and version, or the given fallback
+ */
+export function getSpecTitle(spec: OpenAPISpec | null, fallback: string): string {
+  const title = spec?.info?.title;
+  if (!title) {
+    return fallback;
+  }
+  return spec?.info?.version ? `${title} (${spec.info.version})` : title;
+}
+
+/**
+ * Read a JSON value from localStorage, returning the fallback when it is missing or corrupt
+ */
+function readJson<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') {
+    return fallback;
+  }
+
+  const saved = localStorage.getItem(key);
+  if (!saved) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(saved);
+  } catch (err) {
+    console.error(`Error parsing ${key}:`, err);
+    localStorage.removeItem(key);
+    return fallback;
+  }
+}
+
+/**
+ * Load the recently opened specs, most recent first
+ */
+export function loadRecentSpecs(): RecentSpec[] {
+  const recent = readJson<RecentSpec[]>(RECENT_SPECS_KEY, []);
+  return Array.isArray(recent) ? recent : [];
+}
+
+/**
+ * Move a spec to the top of the recent list and return the new list
+ */
+export function recordRecentSpec(entry: WorkspaceEntry): RecentSpec[] {
+  const recent = [
+    { ...entry, openedAt: Date.now() },
+    ...loadRecentSpecs().filter(spec => spec.id !== entry.id)
+  ].slice(0, MAX_RECENT_SPECS);
+
+  localStorage.setItem(RECENT_SPECS_KEY, JSON.stringify(recent));
+  return recent;
+}
+
+/**
+ * Remove a spec from the recent list and return the new list
+ */
+export function removeRecentSpec(id: string): RecentSpec[] {
+  const recent = loadRecentSpecs().filter(spec => spec.id !== id);
+  localStorage.setItem(RECENT_SPECS_KEY, JSON.stringify(recent));
+  return recent;
+}
+
+/**
+ * Load the specs that were open and the active one.
+ * The single URL / stored document remembered by earlier versions is carried over,
+ * including a document just moved out of localStorage (see migrateLegacyStoredSpec).
+ */
+export function loadWorkspace(migratedStoredKey: string | null = null): { open: WorkspaceEntry[]; activeId: string | null } {
+  const saved = readJson<{ open?: WorkspaceEntry[]; activeId?: string | null } | null>(WORKSPACE_KEY, null);
+  if (saved && Array.isArray(saved.open)) {
+    return { open: saved.open, activeId: saved.activeId ?? null };
+  }
+
+  const open: WorkspaceEntry[] = [];
+  const legacyUrl = localStorage.getItem(LEGACY_URL_KEY);
+  if (legacyUrl) {
+    const source: SpecSource = { kind: 'url', url: legacyUrl };
+    open.push({ id: getSpecId(source), title: legacyUrl, source });
+  }
+
+  const legacyStoredKey = migratedStoredKey ?? localStorage.getItem(LEGACY_STORED_SPEC_KEY);
+  if (legacyStoredKey) {
+    open.push({ id: legacyStoredKey, title: 'Restored specification', source: { kind: 'stored', key: legacyStoredKey } });
+  }
+
+  open.forEach(recordRecentSpec);
+  [LEGACY_URL_KEY, LEGACY_STORED_SPEC_KEY, LEGACY_EXPANDED_GROUPS_KEY].forEach(key => localStorage.removeItem(key));
+
+  return { open, activeId: open.length > 0 ? open[open.length - 1].id : null };
+}
+
+/**
+ * Remember which specs are open and which one is active
+ */
+export function saveWorkspace(open: WorkspaceEntry[], activeId: string | null): void {
+  localStorage.setItem(WORKSPACE_KEY, JSON.stringify({
+    open: open.map(({ id, title, source }) => ({ id, title, source })),
+    activeId
+  }));
+}
+
+/**
+ * Load the UI state (expanded groups, search, selection) of one spec
+ */
+export function loadSpecUiState(id: string): SpecUiState {
+  return readJson<Record<string, SpecUiState>>(UI_STATE_KEY, {})[id] || {};
+}
+
+/**
+ * Save the UI state of one spec
+ */
+export function saveSpecUiState(id: string, state: SpecUiState): void {
+  const states = readJson<Record<string, SpecUiState>>(UI_STATE_KEY, {});
+  states[id] = state;
+  localStorage.setItem(UI_STATE_KEY, JSON.stringify(states));
+}
+
+/**
+ * Forget the UI state of a spec that is no longer open or recent
+ */
+export function removeSpecUiState(id: string): void {
+  const states = readJson<Record<string, SpecUiState>>(UI_STATE_KEY, {});
+  if (id in states) {
+    delete states[id];
+    localStorage.setItem(UI_STATE_KEY, JSON.stringify(states));
+  }
+}
+
+/**
+ * Load the ids of the specs watched for upstream changes
+ */
+export function loadWatchedSpecs(): string[] {
+  const watched = readJson<string[]>(WATCHED_SPECS_KEY, []);
+  return Array.isArray(watched) ? watched : [];
+}
+
+/**
+ * Remember which specs are watched for upstream changes
+ */
+export function saveWatchedSpecs(ids: string[]): void {
+  localStorage.setItem(WATCHED_SPECS_KEY, JSON.stringify(ids));
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { generateEndpointZodSchemas, generateSpecZodSchemas, getZodFileName } from '@/lib/zod-schemas';
+
+const spec: any = {
+  openapi: '3.0.3',
+  info: { title: 'Pet Store', version: '1.0' },
+  paths: {
+    '/pets/{id}': {
+      get: {
+        operationId: 'getPet',
+        responses: {
+          '200': { description: 'ok', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+          '404': { description: 'missing' },
+        },
+      },
+      put: {
+        requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+        responses: { '204': { description: 'none' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        description: 'A pet',
+        required: ['id', 'name'],
+        properties: {
+          id: { type: 'integer', format: 'int64' },
+          name: { type: 'string', minLength: 1, maxLength: 50 },
+          'tag-name': { type: 'string', nullable: true },
+          status: { type: 'string', enum: ['available', 'sold'] },
+          email: { type: 'string', format: 'email' },
+          category: { $ref: '#/components/schemas/Category' },
+          shape: { oneOf: [{ $ref: '#/components/schemas/Category' }, { type: 'string' }] },
+        },
+      },
+      Category: {
+        type: 'object',
+        properties: { name: { type: 'string' }, parent: { $ref: '#/components/schemas/Category' } },
+      },
+      Tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    },
+  },
+};
+
+describe('generateSpecZodSchemas', () => {
+  const output = generateSpecZodSchemas(spec);
+
+  it('imports zod after the header', () => {
+    expect(output).toMatch(/^\/\/ Zod schemas for Pet Store 1\.0, generated by Easy Swagger\n\nimport \{ z \} from 'zod';\n/);
+  });
+
+  it('writes constraints, enums, nullability and unions', () => {
+    expect(output).toContain([
+      '/** A pet */',
+      'export const PetSchema = z.object({',
+      '  id: z.number().int(),',
+      '  name: z.string().min(1).max(50),',
+      '  "tag-name": z.string().nullable().optional(),',
+      '  status: z.enum(["available", "sold"]).optional(),',
+      '  email: z.string().email().optional(),',
+      '  category: CategorySchema.optional(),',
+      '  shape: z.union([CategorySchema, z.string()]).optional(),',
+      '});',
+    ].join('\n'));
+    expect(output).toContain('export const TagsSchema = z.array(z.string()).min(1);');
+  });
+
+  it('leaves IP address formats as plain strings, which Zod 3 and 4 both accept', () => {
+    const output = generateSpecZodSchemas({
+      openapi: '3.0.3',
+      paths: {},
+      components: {
+        schemas: {
+          Host: {
+            type: 'object',
+            required: ['address'],
+            properties: { address: { type: 'string', format: 'ipv4' }, address6: { type: 'string', format: 'ipv6' } },
+          },
+        },
+      },
+    });
+    expect(output).toContain('  address: z.string(),\n  address6: z.string().optional(),');
+    expect(output).not.toContain('.ip(');
+  });
+
+  it('declares schemas before the schemas that use them', () => {
+    expect(output.indexOf('export const CategorySchema')).toBeLessThan(output.indexOf('export const PetSchema'));
+  });
+
+  it('uses z.lazy for recursive references', () => {
+    expect(output).toContain([
+      'export const CategorySchema: z.ZodTypeAny = z.object({',
+      '  name: z.string().optional(),',
+      '  parent: z.lazy(() => CategorySchema).optional(),',
+      '});',
+    ].join('\n'));
+  });
+
+  it('writes request body and success response schemas per operation', () => {
+    expect(output).toContain('// GET /pets/{id}\n\nexport const GetPetResponse200Schema = PetSchema;');
+    expect(output).toContain('// PUT /pets/{id}\n\nexport const PutPetsIdRequestBodySchema = PetSchema;');
+    // Error responses and responses without content get no schema
+    expect(output).not.toContain('Response404');
+    expect(output).not.toContain('Response204');
+  });
+});
+
+describe('generateEndpointZodSchemas', () => {
+  it('includes only the component schemas the endpoint uses', () => {
+    const output = generateEndpointZodSchemas(spec, '/pets/{id}');
+    expect(output).toContain('export const PetSchema');
+    expect(output).toContain('export const CategorySchema');
+    expect(output).not.toContain('TagsSchema');
+  });
+});
+
+describe('getZodFileName', () => {
+  it('names the file after the spec title', () => {
+    expect(getZodFileName(spec)).toBe('pet-store.schemas.ts');
+  });
+});
@@ -0,0 +1,344 @@
+import {
+  getComponentSchemaName,
+  getContentSchema,
+  getGeneratedFileName,
+  getGeneratedHeader,
+  resolveObject,
+  toDocComment,
+  toPropertyKey,
+  toStatusName,
+  toTypeName
+} from '@/lib/codegen';
+import { HTTP_METHODS, resolveRef, type OpenAPISpec } from '@/lib/openapi';
+
+// String formats Zod checks, as the method chained onto z.string(). ipv4 / ipv6 stay plain
+// strings: Zod 3's .ip() was removed in Zod 4, whose z.ipv4() / z.ipv6() Zod 3 lacks
+const FORMAT_CHECKS: Record<string, string> = {
+  'date-time': '.datetime({ offset: true })',
+  'date': '.date()',
+  'duration': '.duration()',
+  'uuid': '.uuid()',
+  'email': '.email()',
+  'uri': '.url()',
+  'url': '.url()',
+  'byte': '.base64()',
+};
+
+type ZodContext = {
+  spec: OpenAPISpec;
+  // Constant name of each component schema
+  schemaNames: Map<string, string>;
+  usedNames: Set<string>;
+  // Component schema declarations, each after the schemas it uses
+  declarations: string[];
+  declared: Set<string>;
+  // Component schemas being declared; `lazy` is set when one refers back to a schema in progress
+  declaring: { name: string; lazy: boolean }[];
+  // Other references being inlined, to stop at recursion
+  inlining: string[];
+};
+
+/**
+ * Reserve a unique constant name, numbering names that are already taken
+ */
+function reserveName(ctx: ZodContext, name: string): string {
+  let candidate = `${name}Schema`;
+  for (let index = 2; ctx.usedNames.has(candidate); index++) {
+    candidate = `${name}${index}Schema`;
+  }
+  ctx.usedNames.add(candidate);
+  return candidate;
+}
+
+function createContext(spec: OpenAPISpec): ZodContext {
+  const ctx: ZodContext = {
+    spec,
+    schemaNames: new Map(),
+    usedNames: new Set(),
+    declarations: [],
+    declared: new Set(),
+    declaring: [],
+    inlining: []
+  };
+  for (const name of Object.keys(spec.components?.schemas || {})) {
+    ctx.schemaNames.set(name, reserveName(ctx, toTypeName(name)));
+  }
+  return ctx;
+}
+
+function toZodLiteral(value: any): string | undefined {
+  if (value === null) return 'z.null()';
+  return ['string', 'number', 'boolean'].includes(typeof value) ? `z.literal(${JSON.stringify(value)})` : undefined;
+}
+
+function toZodUnion(members: string[]): string {
+  const unique = [...new Set(members)];
+  return unique.length === 1 ? unique[0] : `z.union([${unique.join(', ')}])`;
+}
+
+/**
+ * Declare a component schema before the declaration that uses it, so the schemas come out
+ * in dependency order
+ */
+function declareComponentSchema(name: string, ctx: ZodContext): void {
+  const frame = { name, lazy: false };
+  ctx.declaring.push(frame);
+  let expression: string;
+  try {
+    expression = schemaToZod(ctx.spec.components!.schemas![name], ctx);
+  } finally {
+    ctx.declaring.pop();
+  }
+
+  // Schemas that refer to themselves through z.lazy need an explicit type
+  const constName = ctx.schemaNames.get(name)!;
+  ctx.declarations.push(
+    `${toDocComment(ctx.spec.components!.schemas![name], '')}export const ${constName}${frame.lazy ? ': z.ZodTypeAny' : ''} = ${expression};`
+  );
+  ctx.declared.add(name);
+}
+
+function refToZod(ref: string, ctx: ZodContext, indent: string): string {
+  // Component schemas are referenced by name, declared first when they have not been yet
+  const schemaName = getComponentSchemaName(ref);
+  if (schemaName !== undefined) {
+    const constName = ctx.schemaNames.get(schemaName);
+    if (!constName) return 'z.unknown()';
+    if (ctx.declaring.some(frame => frame.name === schemaName)) {
+      ctx.declaring[ctx.declaring.length - 1].lazy = true;
+      return `z.lazy(() => ${constName})`;
+    }
+    if (!ctx.declared.has(schemaName)) {
+      declareComponentSchema(schemaName, ctx);
+    }
+    return constName;
+  }
+
+  // Anything else is written out in place
+  if (ctx.inlining.includes(ref)) return 'z.unknown()';
+  ctx.inlining.push(ref);
+  try {
+    return schemaToZod(resolveRef(ctx.spec, ref), ctx, indent);
+  } finally {
+    ctx.inlining.pop();
+  }
+}
+
+function objectToZod(schema: any, ctx: ZodContext, indent: string): string {
+  const inner = `${indent}  `;
+  const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+  const properties = Object.entries<any>(schema.properties || {});
+  const additional = schema.additionalProperties;
+
+  if (properties.length === 0) {
+    // Maps and free-form objects
+    const valueSchema = additional && typeof additional === 'object' ? schemaToZod(additional, ctx, indent) : 'z.unknown()';
+    return additional === false ? 'z.object({}).strict()' : `z.record(z.string(), ${valueSchema})`;
+  }
+
+  const lines = properties.map(([name, property]) =>
+    `${toDocComment(property, inner)}${inner}${toPropertyKey(name)}: ${schemaToZod(property, ctx, inner)}${required.has(name) ? '' : '.optional()'},`
+  );
+  const shape = `z.object({\n${lines.join('\n')}\n${indent}})`;
+
+  if (additional === true) return `${shape}.passthrough()`;
+  if (additional === false) return `${shape}.strict()`;
+  if (additional && typeof additional === 'object') return `${shape}.catchall(${schemaToZod(additional, ctx, indent)})`;
+  return shape;
+}
+
+function stringToZod(schema: any): string {
+  if (schema.format === 'binary') return 'z.instanceof(Blob)';
+
+  let result = `z.string()${FORMAT_CHECKS[schema.format] ?? ''}`;
+  if (typeof schema.minLength === 'number') result += `.min(${schema.minLength})`;
+  if (typeof schema.maxLength === 'number') result += `.max(${schema.maxLength})`;
+  if (typeof schema.pattern === 'string') {
+    // Patterns JavaScript cannot compile are left out rather than breaking the module
+    try {
+      new RegExp(schema.pattern);
+      result += `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`;
+    } catch {
+      // Not a JavaScript regular expression
+    }
+  }
+  return result;
+}
+
+/**
+ * Number checks for a schema's bounds (OpenAPI 3.0 boolean and 3.1 numeric exclusive bounds)
+ * and `multipleOf`
+ */
+function numberToZod(schema: any, isInteger: boolean): string {
+  let result = isInteger ? 'z.number().int()' : 'z.number()';
+
+  if (typeof schema.exclusiveMinimum === 'number') result += `.gt(${schema.exclusiveMinimum})`;
+  else if (typeof schema.minimum === 'number') result += `.${schema.exclusiveMinimum === true ? 'gt' : 'gte'}(${schema.minimum})`;
+  if (typeof schema.exclusiveMaximum === 'number') result += `.lt(${schema.exclusiveMaximum})`;
+  else if (typeof schema.maximum === 'number') result += `.${schema.exclusiveMaximum === true ? 'lt' : 'lte'}(${schema.maximum})`;
+
+  if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) result += `.multipleOf(${schema.multipleOf})`;
+  return result;
+}
+
+function getSchemaType(schema: any): string | undefined {
+  if (typeof schema.type === 'string') return schema.type;
+  if (schema.properties || schema.additionalProperties !== undefined) return 'object';
+  if (schema.items) return 'array';
+  return undefined;
+}
+
+function baseSchemaToZod(schema: any, ctx: ZodContext, indent: string): string {
+  if (schema.const !== undefined) return toZodLiteral(schema.const) ?? 'z.unknown()';
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    const values = [...new Set<any>(schema.enum)];
+    if (values.every(value => typeof value === 'string')) {
+      return `z.enum([${values.map(value => JSON.stringify(value)).join(', ')}])`;
+    }
+    const literals = values.map(toZodLiteral);
+    return literals.every(Boolean) ? toZodUnion(literals as string[]) : 'z.unknown()';
+  }
+
+  const hasOwnShape = !!(schema.properties || schema.additionalProperties);
+
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+    const parts: string[] = schema.allOf.map((member: any) => schemaToZod(member, ctx, indent));
+    if (hasOwnShape) parts.push(objectToZod(schema, ctx, indent));
+    return parts.slice(1).reduce((result, part) => `${result}.and(${part})`, parts[0]);
+  }
+
+  const alternatives = Array.isArray(schema.oneOf) && schema.oneOf.length > 0 ? schema.oneOf
+    : Array.isArray(schema.anyOf) && schema.anyOf.length > 0 ? schema.anyOf
+      : null;
+  if (alternatives) {
+    const union = toZodUnion(alternatives.map((member: any) => schemaToZod(member, ctx, indent)));
+    return hasOwnShape ? `${union}.and(${objectToZod(schema, ctx, indent)})` : union;
+  }
+
+  // OpenAPI 3.1 type arrays, e.g. ["string", "null"]
+  if (Array.isArray(schema.type)) {
+    const types: string[] = schema.type.filter((type: string) => type !== 'null');
+    if (types.length === 0) return 'z.null()';
+    const union = toZodUnion(types.map(type => baseSchemaToZod({ ...schema, type }, ctx, indent)));
+    return types.length < schema.type.length ? `${union}.nullable()` : union;
+  }
+
+  switch (getSchemaType(schema)) {
+    case 'object':
+      return objectToZod(schema, ctx, indent);
+    case 'array': {
+      let result = `z.array(${schemaToZod(schema.items, ctx, indent)})`;
+      if (typeof schema.minItems === 'number') result += `.min(${schema.minItems})`;
+      if (typeof schema.maxItems === 'number') result += `.max(${schema.maxItems})`;
+      return result;
+    }
+    case 'string':
+      return stringToZod(schema);
+    case 'integer':
+      return numberToZod(schema, true);
+    case 'number':
+      return numberToZod(schema, false);
+    case 'boolean':
+      return 'z.boolean()';
+    case 'null':
+      return 'z.null()';
+    default:
+      return 'z.unknown()';
+  }
+}
+
+/**
+ * Write a schema as a Zod schema expression, indenting nested objects from `indent`
+ */
+function schemaToZod(schema: any, ctx: ZodContext, indent: string = ''): string {
+  if (schema === false) return 'z.never()';
+  if (!schema || typeof schema !== 'object') return 'z.unknown()';
+  if (typeof schema.$ref === 'string') return refToZod(schema.$ref, ctx, indent);
+
+  const expression = baseSchemaToZod(schema, ctx, indent);
+  const isNullable = expression === 'z.null()' || expression === 'z.unknown()' || expression.endsWith('.nullable()');
+  return schema.nullable === true && !isNullable ? `${expression}.nullable()` : expression;
+}
+
+/**
+ * Declare the RequestBody and success Response schemas of one operation
+ */
+function declareOperationSchemas(path: string, method: string, pathItem: any, ctx: ZodContext): string[] {
+  const operation = pathItem[method];
+  const baseName = toTypeName(operation.operationId || `${method} ${path}`);
+  const declarations: string[] = [];
+
+  const declare = (name: string, schema: any) => {
+    declarations.push(`${toDocComment(schema, '')}export const ${reserveName(ctx, name)} = ${schemaToZod(schema, ctx)};`);
+  };
+
+  const requestBody = resolveObject(ctx.spec, operation.requestBody);
+  if (requestBody?.content) {
+    declare(`${baseName}RequestBody`, getContentSchema(requestBody.content) ?? {});
+  }
+
+  for (const [status, value] of Object.entries<any>(operation.responses || {})) {
+    const schema = getContentSchema(resolveObject(ctx.spec, value)?.content);
+    if (/^2/.test(status) && schema !== undefined) {
+      declare(`${baseName}Response${toStatusName(status)}`, schema);
+    }
+  }
+
+  if (declarations.length === 0) return [];
+  return [`// ${method.toUpperCase()} ${path}${operation.summary ? ` - ${operation.summary}` : ''}`, ...declarations];
+}
+
+function toModule(spec: OpenAPISpec, ctx: ZodContext, operations: string[]): string {
+  return [
+    getGeneratedHeader(spec, 'Zod schemas'),
+    "import { z } from 'zod';",
+    ...ctx.declarations,
+    ...operations
+  ].join('\n\n') + '\n';
+}
+
+/**
+ * Generate Zod schemas for a whole spec: every component schema, ordered so each comes after
+ * the schemas it uses (recursive ones through z.lazy), and the RequestBody and success
+ * Response<status> schemas of every operation
+ */
+export function generateSpecZodSchemas(spec: OpenAPISpec): string {
+  const ctx = createContext(spec);
+  for (const name of ctx.schemaNames.keys()) {
+    if (!ctx.declared.has(name)) declareComponentSchema(name, ctx);
+  }
+
+  const operations: string[] = [];
+  for (const [path, pathItem] of Object.entries<any>(spec.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      if (pathItem?.[method]) {
+        const declarations = declareOperationSchemas(path, method, pathItem, ctx);
+        if (declarations.length > 0) operations.push(declarations.join('\n\n'));
+      }
+    }
+  }
+
+  return toModule(spec, ctx, operations);
+}
+
+/**
+ * Generate Zod schemas for the operations of one path, with the component schemas they use
+ */
+export function generateEndpointZodSchemas(spec: OpenAPISpec, path: string): string {
+  const ctx = createContext(spec);
+  const pathItem = resolveObject(spec, spec.paths?.[path]) || {};
+
+  const operations = HTTP_METHODS
+    .filter(method => pathItem[method])
+    .map(method => declareOperationSchemas(path, method, pathItem, ctx).join('\n\n'))
+    .filter(Boolean);
+
+  return toModule(spec, ctx, operations);
+}
+
+/**
+ * File name for a spec's Zod schemas, from its title
+ */
+export function getZodFileName(spec: OpenAPISpec): string {
+  return getGeneratedFileName(spec, 'schemas');
+}